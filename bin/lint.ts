@@ -0,0 +1,229 @@
+#!/usr/bin/env bun
+/**
+ * Repo-wide lint: runs every validator the hooks run, outside the hooks
+ *
+ * - Walks every app of every cluster found by detectClusterContext
+ * - Validates Omni cluster templates and Talos patches, and lists those that couldn't be attributed to a node
+ * - Validates each application file, value file and kustomization, the
+ *   SOPS-encrypted Secrets its KSOPS generators decrypt and the Secrets it
+ *   lists as resources
+ * - Checks ExternalSecrets and CNPG Clusters against the Secrets the repo produces
+ * - Warns about Kustomize workloads using Secrets that nothing restarts them for
+ * - Runs helm template against each app's values (unless --skip-helm)
+ * - With --render, checks the rendered workloads instead of guessing from values
+ * - Exits 1 when any error is found
+ *
+ * Usage: bun run bin/lint.ts [--format text|json|sarif] [--skip-helm] [--render] [--offline] [path]
+ */
+
+import { parseArgs } from "node:util";
+import { readFile } from "node:fs/promises";
+import { allApps, clusterView, detectClusterContext } from "../lib/cluster-context.js";
+import { loadRepoConfig } from "../lib/config.js";
+import { validateYamlContent } from "../lib/yaml-validator.js";
+import { validateHelmTemplate } from "../lib/helm-validator.js";
+import { ksopsSecretFiles } from "../lib/sops.js";
+import { scanSecretIndex, validateEsoCnpg } from "../lib/eso-cnpg.js";
+import { analyzeRenderedApp } from "../lib/manifest-analyzer.js";
+import { checkKustomizeRestarts } from "../lib/secret-restart.js";
+import { formatReport, type ReportFormat } from "../lib/report.js";
+import type { AppDefinition, ClusterContext, ValidationError } from "../lib/types.js";
+
+const FORMATS: ReportFormat[] = ["text", "json", "sarif"];
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      format: { type: "string", short: "f", default: "text" },
+      "skip-helm": { type: "boolean", default: false },
+      render: { type: "boolean", default: false },
+      offline: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    console.log(
+      "Usage: bun run bin/lint.ts [--format text|json|sarif] [--skip-helm] [--render] [--offline] [path]"
+    );
+    process.exit(0);
+  }
+
+  if (values.render && values["skip-helm"]) {
+    console.error("--render needs helm; it can't be combined with --skip-helm");
+    process.exit(2);
+  }
+
+  const format = values.format as ReportFormat;
+  if (!FORMATS.includes(format)) {
+    console.error(`Unknown format: ${values.format} (expected ${FORMATS.join(", ")})`);
+    process.exit(2);
+  }
+
+  // Validate against cached chart indexes / URL checks only
+  if (values.offline) {
+    process.env.TALOS_GITOPS_OFFLINE = "true";
+  }
+
+  const cwd = positionals[0] || process.cwd();
+  const context = await detectClusterContext(cwd);
+  if (!context) {
+    console.error(`Not a GitOps repo: ${cwd}`);
+    process.exit(2);
+  }
+
+  // Repo config (command policy etc.)
+  const errors: ValidationError[] = [...(await loadRepoConfig(context.repoRoot)).errors];
+
+  // Patches that don't configure a single node (cluster-wide ones are expected)
+  for (const cluster of context.clusters.values()) {
+    for (const patch of cluster.unattributedPatches) {
+      errors.push({
+        file: patch.file,
+        severity: "info",
+        message: `Patch not attributed to a node of ${cluster.name}: ${patch.reason}`,
+      });
+    }
+  }
+
+  // Omni cluster templates and Talos machine-config patches
+  for (const cluster of context.clusters.values()) {
+    const files = new Set([
+      ...(cluster.template ? [cluster.template.file] : []),
+      ...cluster.nodes.flatMap((n) => n.patches),
+      ...cluster.unattributedPatches.map((p) => p.file),
+    ]);
+
+    for (const file of files) {
+      const content = await readOptional(file);
+      if (content === null) continue;
+
+      const view = clusterView(context, cluster.name);
+      errors.push(...(await validateYamlContent(content, file, { cluster: view })));
+    }
+  }
+
+  for (const app of allApps(context)) {
+    const mode = { helm: !values["skip-helm"], render: values.render };
+    errors.push(...(await lintApp(app, clusterView(context, app.cluster), mode)));
+  }
+
+  // ExternalSecrets and CNPG Clusters anywhere in the repo, cross-referenced once
+  const secretIndex = await scanSecretIndex(context.repoRoot, context);
+  const esoCnpgFiles = new Set([
+    ...secretIndex.sources.filter((s) => s.kind === "ExternalSecret").map((s) => s.file),
+    ...secretIndex.roles.map((r) => r.file),
+  ]);
+  for (const file of esoCnpgFiles) {
+    const content = await readOptional(file);
+    if (content === null) continue;
+
+    errors.push(...validateEsoCnpg(content, file, secretIndex, context));
+  }
+
+  // Apps generated from one ApplicationSet share its file and value files
+  const unique = [...new Map(errors.map((e) => [JSON.stringify(e), e])).values()];
+
+  console.log(formatReport(unique, context.repoRoot, format));
+
+  process.exit(unique.some((e) => e.severity === "error") ? 1 : 0);
+}
+
+async function lintApp(
+  app: AppDefinition,
+  cluster: ClusterContext,
+  mode: { helm: boolean; render: boolean }
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  const files = new Set([app.applicationPath, ...app.valueFiles]);
+  if (app.kustomize) {
+    files.add(app.kustomize.path);
+    // KSOPS generators and the Secrets they decrypt
+    for (const file of app.kustomize.generators) files.add(file);
+    for (const file of await ksopsSecretFiles(app.kustomize)) files.add(file);
+    // Secrets listed as plain resources, which must be encrypted too
+    for (const file of app.kustomize.resources) {
+      if (/^kind:\s*Secret\s*$/m.test((await readOptional(file)) ?? "")) files.add(file);
+    }
+  }
+
+  for (const file of files) {
+    const content = await readOptional(file);
+    if (content === null) continue;
+
+    errors.push(...(await validateYamlContent(content, file, { rendered: mode.render, cluster })));
+  }
+
+  if (!app.chart) {
+    errors.push(...(await checkKustomizeRestarts(app)));
+    if (mode.helm) errors.push(...(await lintKustomizeCharts(app)));
+    return errors;
+  }
+
+  // helm template only makes sense when there are values to render
+  const valueFiles: string[] = [];
+  for (const file of app.valueFiles) {
+    if ((await readOptional(file)) !== null) valueFiles.push(file);
+  }
+  if (valueFiles.length === 0 && !app.inlineValues) return errors;
+
+  if (mode.render) {
+    // Rendering reports helm errors too
+    const values = (await readOptional(app.valuesPath)) ?? "";
+    errors.push(...(await analyzeRenderedApp(app, values, cluster.nodes, valueFiles)));
+  } else if (mode.helm) {
+    errors.push(
+      ...(await validateHelmTemplate(
+        app.chart.repo,
+        app.chart.name,
+        app.chart.version,
+        valueFiles,
+        app.namespace,
+        app.inlineValues
+      ))
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * helm template for each chart a kustomization inflates with a values file
+ */
+async function lintKustomizeCharts(app: AppDefinition): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  for (const chart of app.kustomize?.helmCharts ?? []) {
+    if (!chart.repo || !chart.version || !chart.valuesFile) continue;
+    if ((await readOptional(chart.valuesFile)) === null) continue;
+
+    errors.push(
+      ...(await validateHelmTemplate(
+        chart.repo,
+        chart.name,
+        chart.version,
+        [chart.valuesFile],
+        chart.namespace ?? app.namespace,
+        chart.valuesInline
+      ))
+    );
+  }
+
+  return errors;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+main().catch((error) => {
+  console.error("Lint error:", error);
+  process.exit(2);
+});
@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * Post-tool hook: Records the outcome of Bash commands in session state
+ *
+ * - Records each command's exit code and error signature for loop
+ *   detection (PostToolUse and PostToolUseFailure)
+ * - Records successful helm template / argocd app diff / kustomize build
+ *   runs with the content hash of each app they cover, for the dry-run
+ *   check before git push
+ */
+
+import {
+  detectClusterContext,
+  findRepoRoot,
+  isGitOpsRepo,
+} from "../lib/cluster-context.js";
+import { loadRepoConfig } from "../lib/config.js";
+import {
+  appContentHash,
+  dryRunApps,
+  dryRunSucceeded,
+  isAppDryRun,
+  recordDryRun,
+} from "../lib/dry-run.js";
+import { commandOutcome, recordOutcome } from "../lib/loop-detection.js";
+import { sessionKey, updateSessionState } from "../lib/session-state.js";
+import { extractInvocations } from "../lib/shell-parser.js";
+import type { DryRunRecord, HookInput } from "../lib/types.js";
+
+async function main(): Promise<void> {
+  // Read hook input from stdin
+  const input = await Bun.stdin.text();
+  let hookInput: HookInput;
+
+  try {
+    hookInput = JSON.parse(input);
+  } catch {
+    process.exit(0);
+  }
+
+  // Only handle Bash tool
+  if (hookInput.tool_name !== "Bash") {
+    process.exit(0);
+  }
+
+  const command = (hookInput.tool_input.command as string) || "";
+  if (!command.trim()) {
+    process.exit(0);
+  }
+
+  // Check if we're in a GitOps repo
+  const cwd = process.cwd();
+  const inGitOps = await isGitOpsRepo(cwd);
+  if (!inGitOps) {
+    process.exit(0);
+  }
+
+  const repoRoot = (await findRepoRoot(cwd)) || cwd;
+  const { config } = await loadRepoConfig(repoRoot);
+  const outcome = commandOutcome(hookInput);
+
+  // Hash outside the lock: it runs git
+  const records = outcome.failed ? [] : await successfulDryRuns(hookInput, command, cwd, repoRoot);
+
+  await updateSessionState(sessionKey(hookInput.session_id, repoRoot), (state) => {
+    recordOutcome(state, command, outcome, config.loop);
+    for (const record of records) recordDryRun(state.dryRuns, record);
+  });
+
+  process.exit(0);
+}
+
+/**
+ * Dry-runs in the command that succeeded, one record per app they cover
+ */
+async function successfulDryRuns(
+  hookInput: HookInput,
+  command: string,
+  cwd: string,
+  repoRoot: string
+): Promise<DryRunRecord[]> {
+  const dryRuns = extractInvocations(command).filter(isAppDryRun);
+  if (dryRuns.length === 0) return [];
+
+  const context = await detectClusterContext(cwd);
+  if (!context) return [];
+
+  const records: DryRunRecord[] = [];
+  for (const invocation of dryRuns) {
+    if (!dryRunSucceeded(invocation, hookInput.tool_response ?? {})) continue;
+
+    for (const app of dryRunApps(invocation, context, cwd)) {
+      const hash = await appContentHash(repoRoot, app);
+      if (hash) {
+        records.push({
+          app: app.name,
+          cluster: app.cluster,
+          hash,
+          command: [invocation.program, ...invocation.args].join(" "),
+        });
+      }
+    }
+  }
+
+  return records;
+}
+
+main().catch((error) => {
+  console.error("Hook error:", error);
+  process.exit(0);
+});
@@ -1,27 +1,56 @@
 #!/usr/bin/env bun
 /**
- * Post-tool hook: Watches for ArgoCD sync after git push
+ * Post-tool hook: Watches the ArgoCD apps a git push affects
  *
  * - Triggers after git push
- * - Waits for ArgoCD sync (30s timeout)
- * - Reports sync status
- * - Assumes failure on timeout
+ * - Diffs the pushed range and maps the changed files to apps, including
+ *   apps sharing a changed value file or ApplicationSet
+ * - Waits for each app to sync the pushed revision (status.sync.revision),
+ *   reading it from the ArgoCD API or, without one, the argocd CLI
+ * - Reports per-app results; apps the push didn't touch are ignored
+ * - Waits sync.timeout seconds at most, so pushes aren't held up; apps still
+ *   syncing get an argocd app wait command to run (sync.apps sets its timeout)
+ * - For failed or unhealthy apps, names the failing resources from the
+ *   resource tree and sync operation, with fixes from the gotcha catalogue
  */
 
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
-import { isGitOpsRepo } from "../lib/cluster-context.js";
-import type { HookInput } from "../lib/types.js";
+import { readFile } from "node:fs/promises";
+import {
+  appsForFiles,
+  detectClusterContext,
+  findRepoRoot,
+  isGitOpsRepo,
+} from "../lib/cluster-context.js";
+import { loadRepoConfig } from "../lib/config.js";
+import { createArgoClient, type ArgoClient } from "../lib/argocd.js";
+import { diagnoseApp, formatDiagnosis } from "../lib/sync-diagnostics.js";
+import { changedFiles, pushedRanges } from "../lib/git-push.js";
+import { extractInvocations } from "../lib/shell-parser.js";
+import { parseCliArgs } from "../lib/cli-args.js";
+import type {
+  AppDefinition,
+  ArgoApplication,
+  ArgoResourceNode,
+  HookInput,
+  SyncConfig,
+} from "../lib/types.js";
 
-const execAsync = promisify(exec);
-const SYNC_TIMEOUT_MS = 30_000;
 const POLL_INTERVAL_MS = 2_000;
 
-interface SyncStatus {
+// Seconds of the suggested argocd app wait for apps without a sync.apps entry
+const DEFAULT_LONG_WAIT = 300;
+
+// Failed status requests in a row before an app is reported unknown
+const MAX_STATUS_ERRORS = 3;
+
+interface AppResult {
   app: string;
-  syncStatus: string;
-  healthStatus: string;
-  message?: string;
+  outcome: "synced" | "failed" | "timeout" | "unknown";
+  detail: string;
+  // Last status seen, for diagnosing failures
+  last?: ArgoApplication;
+  // Failing resources and likely fixes
+  diagnosis?: string[];
 }
 
 async function main(): Promise<void> {
@@ -43,7 +72,10 @@ async function main(): Promise<void> {
   const command = (hookInput.tool_input.command as string) || "";
 
   // Only trigger after git push
-  if (!/\bgit\s+push\b/.test(command)) {
+  const pushed = extractInvocations(command).some(
+    (inv) => inv.program === "git" && parseCliArgs(inv).subcommand[0] === "push"
+  );
+  if (!pushed) {
     process.exit(0);
   }
 
@@ -54,89 +86,203 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Wait for ArgoCD sync
-  console.error("Waiting for ArgoCD sync...");
+  const repoRoot = (await findRepoRoot(cwd)) || cwd;
+  const context = await detectClusterContext(cwd);
+  if (!context) {
+    process.exit(0);
+  }
+
+  // What the push changed, and the apps those files belong to
+  const ranges = await pushedRanges(repoRoot, toolOutput(hookInput));
+  if (ranges.length === 0) {
+    console.error("Could not tell which commits the push sent; not watching ArgoCD.");
+    process.exit(0);
+  }
+
+  const apps = appsForFiles(context, await changedFiles(repoRoot, ranges));
+  const names = [...new Set(apps.map((a) => a.name).filter(Boolean))];
+  if (names.length === 0) {
+    console.error("The push changes no ArgoCD app; nothing to watch.");
+    process.exit(0);
+  }
+
+  const revisions = ranges.map((r) => r.to);
+  const { config } = await loadRepoConfig(repoRoot);
+  const argo = await createArgoClient();
+
+  console.error(
+    `Waiting for ArgoCD to sync ${revisions.map(short).join(", ")}: ${names.join(", ")}`
+  );
+
+  const results = await Promise.all(
+    names.map((name) => watchApp(argo, name, revisions, config.sync.timeout * 1000))
+  );
 
+  for (const result of results) {
+    const health = result.last?.status?.health?.status;
+    if (result.outcome === "failed" || (result.outcome === "timeout" && health !== "Healthy")) {
+      result.diagnosis = await diagnose(argo, result, apps.find((a) => a.name === result.app));
+    }
+  }
+
+  report(results, config.sync);
+  process.exit(0);
+}
+
+/**
+ * Poll one app until it synced the pushed revision, failed, or timed out
+ */
+async function watchApp(
+  argo: ArgoClient,
+  name: string,
+  revisions: string[],
+  timeoutMs: number
+): Promise<AppResult> {
   const startTime = Date.now();
-  let lastStatus: SyncStatus[] = [];
+  let last: ArgoApplication | null = null;
+  let errors = 0;
 
-  while (Date.now() - startTime < SYNC_TIMEOUT_MS) {
+  while (Date.now() - startTime < timeoutMs) {
     try {
-      const status = await getArgoCDStatus();
-
-      // Check for sync completion or errors
-      const syncing = status.filter((s) => s.syncStatus === "Syncing");
-      const failed = status.filter(
-        (s) => s.syncStatus === "Failed" || s.healthStatus === "Degraded"
-      );
-      const outOfSync = status.filter((s) => s.syncStatus === "OutOfSync");
-
-      if (failed.length > 0) {
-        console.error("\n--- ArgoCD Sync FAILED ---");
-        for (const app of failed) {
-          console.error(`${app.app}: ${app.syncStatus}/${app.healthStatus}`);
-          if (app.message) {
-            console.error(`  ${app.message}`);
-          }
-        }
-        process.exit(0);
+      last = await argo.getApplication(name);
+      errors = 0;
+    } catch (error) {
+      // Not logged in or no such app, or the API is briefly unreachable
+      if (++errors < MAX_STATUS_ERRORS) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
       }
+      const message = error instanceof Error ? error.message.split("\n")[0] : String(error);
+      return { app: name, outcome: "unknown", detail: `could not get app status: ${message}` };
+    }
 
-      if (syncing.length === 0 && outOfSync.length === 0) {
-        // All synced
-        console.error("\n--- ArgoCD Sync Complete ---");
-        process.exit(0);
-      }
+    const state = syncState(last, revisions);
+    if (state) return { app: name, ...state, last };
 
-      // Still syncing, wait
-      lastStatus = status;
-      await sleep(POLL_INTERVAL_MS);
-    } catch (error) {
-      // ArgoCD CLI not available or errored - just exit
-      console.error("Could not check ArgoCD status:", error);
-      process.exit(0);
-    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  const status = last?.status;
+  const at = appRevisions(last)[0];
+  return {
+    app: name,
+    last: last ?? undefined,
+    outcome: "timeout",
+    detail:
+      `not done after ${Math.round(timeoutMs / 1000)}s ` +
+      `(at ${at ? short(at) : "unknown revision"}, ` +
+      `${status?.sync?.status || "Unknown"}/${status?.health?.status || "Unknown"})`,
+  };
+}
+
+/**
+ * Final state of an app for the pushed revisions; null while still in progress
+ */
+function syncState(
+  app: ArgoApplication,
+  revisions: string[]
+): Omit<AppResult, "app"> | null {
+  const status = app.status;
+  const operation = status?.operationState;
+
+  // A sync of the pushed revision that failed outright
+  const operationRevisions = [
+    operation?.syncResult?.revision,
+    ...(operation?.syncResult?.revisions ?? []),
+  ];
+  if (
+    (operation?.phase === "Failed" || operation?.phase === "Error") &&
+    operationRevisions.some((r) => r && revisions.includes(r))
+  ) {
+    return { outcome: "failed", detail: `sync ${operation.phase}: ${operation.message || ""}`.trim() };
   }
 
-  // Timeout - assume failure
-  console.error("\n--- ArgoCD Sync TIMEOUT (30s) ---");
-  console.error("Assuming sync did not complete. Check ArgoCD UI.");
+  if (!appRevisions(app).some((r) => revisions.includes(r))) return null;
+  if (status?.sync?.status !== "Synced") return null;
 
-  if (lastStatus.length > 0) {
-    const pending = lastStatus.filter(
-      (s) => s.syncStatus !== "Synced" || s.healthStatus !== "Healthy"
-    );
-    for (const app of pending) {
-      console.error(`${app.app}: ${app.syncStatus}/${app.healthStatus}`);
-    }
+  const health = status.health?.status || "Unknown";
+  if (health === "Healthy") return { outcome: "synced", detail: "Synced/Healthy" };
+  if (health === "Degraded" || health === "Missing") {
+    const message = status.health?.message || status.conditions?.[0]?.message;
+    return { outcome: "failed", detail: `Synced/${health}${message ? `: ${message}` : ""}` };
   }
 
-  process.exit(0);
+  // Progressing, Suspended, Unknown: keep waiting
+  return null;
 }
 
-interface ArgoApp {
-  metadata?: { name?: string };
-  status?: {
-    sync?: { status?: string };
-    health?: { status?: string };
-    conditions?: Array<{ message?: string }>;
-  };
+function report(results: AppResult[], sync: SyncConfig): void {
+  const worst = results.some((r) => r.outcome === "failed")
+    ? "FAILED"
+    : results.some((r) => r.outcome === "timeout")
+      ? "TIMEOUT"
+      : results.some((r) => r.outcome === "unknown")
+        ? "UNKNOWN"
+        : "Complete";
+
+  console.error(`\n--- ArgoCD Sync ${worst} ---`);
+  for (const result of results) {
+    console.error(`${result.app}: ${result.outcome} - ${result.detail}`);
+    for (const line of result.diagnosis ?? []) console.error(line);
+  }
+
+  // Longer waits are opt-in: a command of their own rather than a longer hook
+  const timedOut = results.filter((r) => r.outcome === "timeout");
+  if (timedOut.length > 0) {
+    console.error("Timed out apps may still sync. To wait for them:");
+    for (const { app } of timedOut) {
+      const timeout = sync.apps[app] ?? DEFAULT_LONG_WAIT;
+      console.error(`  argocd app wait ${app} --sync --health --timeout ${timeout}`);
+    }
+  }
 }
 
-async function getArgoCDStatus(): Promise<SyncStatus[]> {
-  const { stdout } = await execAsync(
-    "argocd app list -o json 2>/dev/null",
-    { timeout: 5_000 }
-  );
+/**
+ * Output of the Bash tool (git push reports ref updates on stderr)
+ */
+function toolOutput(hookInput: HookInput): string {
+  const response = hookInput.tool_response ?? {};
+  return [response.stdout, response.stderr].filter((s) => typeof s === "string").join("\n");
+}
+
+/**
+ * Failing resources of an app (resource tree when the API is reachable) and
+ * the likely fixes
+ */
+async function diagnose(
+  argo: ArgoClient,
+  result: AppResult,
+  app: AppDefinition | undefined
+): Promise<string[]> {
+  if (!result.last) return [];
 
-  const apps: ArgoApp[] = JSON.parse(stdout);
+  let values = "";
+  if (app) {
+    try {
+      values = await readFile(app.valuesPath, "utf-8");
+    } catch {
+      // Kustomize app or no values file
+    }
+  }
+
+  let tree: ArgoResourceNode[] | null = null;
+  try {
+    tree = await argo.getResourceTree(result.app);
+  } catch {
+    // Fall back to the app's managed resources
+  }
+  const source = { values, chart: app?.chart?.name ?? null };
+  return formatDiagnosis(diagnoseApp(result.last, tree, source), result.app);
+}
+
+// Revisions an app is synced to (multi-source apps have one per source)
+function appRevisions(app: ArgoApplication | null): string[] {
+  const sync = app?.status?.sync;
+  return [sync?.revision, ...(sync?.revisions ?? [])].filter((r): r is string => !!r);
+}
 
-  return apps.map((app) => ({
-    app: app.metadata?.name || "unknown",
-    syncStatus: app.status?.sync?.status || "Unknown",
-    healthStatus: app.status?.health?.status || "Unknown",
-    message: app.status?.conditions?.[0]?.message,
-  }));
+function short(revision: string): string {
+  return revision.slice(0, 7);
 }
 
 function sleep(ms: number): Promise<void> {
@@ -2,37 +2,52 @@
 /**
  * Pre-tool hook: Validates Bash commands before execution
  *
- * - Blocks kubectl (except bootstrap)
- * - Blocks helm install/upgrade (except bootstrap)
+ * - Parses the command line and classifies each invoked program on its own
+ * - Applies the repo command policy (.talos-gitops-ops), defaulting to:
+ *   - Blocks kubectl (except bootstrap)
+ *   - Blocks helm install/upgrade (except bootstrap)
+ * - Asks before every command while the repo config is invalid
  * - Warns on argocd app sync without prior diff
- * - Validates before git push
+ * - Denies a command (up to flags) that already failed repeatedly with the
+ *   same error (outcomes recorded by record-outcome)
+ * - Asks before destructive talosctl/omnictl operations, naming the nodes;
+ *   denies acting on every control-plane node at once
+ * - Warns on talosctl/omnictl config changes without prior --dry-run
+ * - Asks before committing Secret changes that don't bump the app's restart annotation
+ * - Asks before git push when a changed app has no successful dry-run
+ *   (recorded by record-outcome) of the content being pushed
  */
 
-import { isGitOpsRepo } from "../lib/cluster-context.js";
-import { hookResponse, type HookInput } from "../lib/types.js";
-
-// Session state file for tracking dry-runs
-const SESSION_STATE_FILE = "/tmp/talos-gitops-ops-session.json";
-
-interface SessionState {
-  validatedApps: string[];
-  diffedApps: string[];
-  lastCommand: string;
-  loopCount: number;
-}
-
-async function loadSessionState(): Promise<SessionState> {
-  try {
-    const content = await Bun.file(SESSION_STATE_FILE).text();
-    return JSON.parse(content);
-  } catch {
-    return { validatedApps: [], diffedApps: [], lastCommand: "", loopCount: 0 };
-  }
-}
-
-async function saveSessionState(state: SessionState): Promise<void> {
-  await Bun.write(SESSION_STATE_FILE, JSON.stringify(state, null, 2));
-}
+import { relative, resolve } from "node:path";
+import {
+  isGitOpsRepo,
+  findRepoRoot,
+  detectClusterContext,
+  resolveClusterForCommand,
+  appsForFiles,
+} from "../lib/cluster-context.js";
+import { extractInvocations, type Invocation } from "../lib/shell-parser.js";
+import { flagValue, parseCliArgs, type CliArgs } from "../lib/cli-args.js";
+import { loadRepoConfig } from "../lib/config.js";
+import {
+  DEFAULT_POLICY_RULES,
+  defaultReason,
+  effectiveRules,
+  evaluatePolicy,
+} from "../lib/command-policy.js";
+import { assessNodeOperation, dryRunKey, isConfigDryRun } from "../lib/talos-risk.js";
+import { checkSecretChangeBumps, commitChanges } from "../lib/secret-restart.js";
+import { remember, sessionKey, updateSessionState } from "../lib/session-state.js";
+import { clearFailures, repeatedFailure } from "../lib/loop-detection.js";
+import { changedFiles, rangesToPush } from "../lib/git-push.js";
+import { appContentHash, hasDryRun, suggestedDryRun } from "../lib/dry-run.js";
+import {
+  hookResponse,
+  type HookInput,
+  type HookOutput,
+  type PolicyRule,
+  type SessionState,
+} from "../lib/types.js";
 
 async function main(): Promise<void> {
   // Read hook input from stdin
@@ -63,134 +78,219 @@ async function main(): Promise<void> {
   // Check bootstrap mode
   const bootstrapMode = process.env.TALOS_GITOPS_BOOTSTRAP === "true";
 
-  // Load session state
-  const state = await loadSessionState();
-
-  // Loop detection
-  if (command === state.lastCommand) {
-    state.loopCount++;
-    if (state.loopCount >= 2) {
-      console.log(
-        JSON.stringify(
-          hookResponse.deny(
-            `Loop detected: same command repeated ${state.loopCount} times. Fix the underlying issue.`
-          )
-        )
-      );
-      state.loopCount = 0;
-      await saveSessionState(state);
-      process.exit(0);
-    }
-  } else {
-    state.lastCommand = command;
-    state.loopCount = 0;
+  // Load the repo command policy; an invalid config falls back to the
+  // defaults, which lack the repo's own rules, so every command asks
+  const repoRoot = (await findRepoRoot(cwd)) || cwd;
+  const { config, errors: configErrors } = await loadRepoConfig(repoRoot);
+  for (const error of configErrors) {
+    console.error(`${error.file}: ${error.message}`);
   }
+  const rules = effectiveRules(config.policy);
 
-  // kubectl - BLOCKED (except bootstrap)
-  if (/\bkubectl\s+/.test(command)) {
-    if (bootstrapMode) {
-      console.log(
-        JSON.stringify(
-          hookResponse.ask("Bootstrap mode: kubectl allowed. Proceed?")
-        )
-      );
-    } else {
-      console.log(
-        JSON.stringify(
-          hookResponse.deny(
-            "kubectl is blocked. Use omnictl, talosctl, or ArgoCD via git. " +
-              "For bootstrap: export TALOS_GITOPS_BOOTSTRAP=true"
-          )
-        )
-      );
+  // Session state: dry-runs, diffs and loop detection for this session and repo
+  const verdict = await updateSessionState(
+    sessionKey(hookInput.session_id, repoRoot),
+    async (state) => {
+      // Loop detection: the same command (up to flags) failing the same way
+      const repeated = repeatedFailure(state, command, config.loop);
+      if (repeated) {
+        clearFailures(state, command);
+        const variants = repeated.variants > 1 ? ` (${repeated.variants} variants)` : "";
+        return hookResponse.deny(
+          `Loop detected: this command${variants} failed ${repeated.count} times with the same error:\n` +
+            `  ${repeated.error}\nFix the underlying issue instead of retrying.`
+        );
+      }
+
+      // Classify every program the command line actually runs; the strictest
+      // verdict wins (deny > ask > allow)
+      let strictest: HookOutput | null = null;
+
+      for (const invocation of extractInvocations(command)) {
+        const result = await classifyInvocation(invocation, rules, state, bootstrapMode, cwd);
+        if (result && rank(result) > rank(strictest)) {
+          strictest = result;
+        }
+      }
+
+      const allowed = !strictest || strictest.hookSpecificOutput.permissionDecision === "allow";
+      if (configErrors.length > 0 && allowed) {
+        const problems = configErrors.map((e) => `  ${e.message}`).join("\n");
+        return hookResponse.ask(
+          `The repo config ${relative(repoRoot, configErrors[0].file)} is invalid, so its command ` +
+            `policy isn't applied:\n${problems}\nFix the config, or approve this command yourself.`
+        );
+      }
+
+      return strictest;
     }
-    await saveSessionState(state);
-    process.exit(0);
+  );
+
+  if (verdict) {
+    console.log(JSON.stringify(verdict));
   }
 
-  // helm install/upgrade - BLOCKED (except bootstrap)
-  if (/\bhelm\s+(install|upgrade)\b/.test(command)) {
-    if (bootstrapMode) {
-      console.log(
-        JSON.stringify(
-          hookResponse.ask("Bootstrap mode: helm install allowed. Proceed?")
-        )
-      );
-    } else {
-      console.log(
-        JSON.stringify(
-          hookResponse.deny(
-            "helm install/upgrade is blocked. Use GitOps: edit values.yaml, git push, let ArgoCD sync. " +
-              "For bootstrap: export TALOS_GITOPS_BOOTSTRAP=true"
-          )
-        )
-      );
-    }
-    await saveSessionState(state);
-    process.exit(0);
+  // All other commands - ALLOWED
+  process.exit(0);
+}
+
+/**
+ * Classify a single invoked program against the command policy, tracking
+ * dry-runs in session state
+ */
+async function classifyInvocation(
+  invocation: Invocation,
+  rules: PolicyRule[],
+  state: SessionState,
+  bootstrapMode: boolean,
+  cwd: string
+): Promise<HookOutput | null> {
+  const decision = evaluatePolicy(invocation, rules, bootstrapMode);
+
+  if (decision.action === "deny") {
+    return hookResponse.deny(defaultReason(decision, invocation));
   }
 
-  // helm template - ALLOWED, track it
-  if (/\bhelm\s+template\b/.test(command)) {
-    // Extract app name if possible
-    const match = command.match(/helm\s+template\s+(\S+)/);
-    if (match) {
-      state.validatedApps.push(match[1]);
-    }
-    await saveSessionState(state);
-    process.exit(0);
+  // talosctl/omnictl --dry-run - track it
+  if (isConfigDryRun(invocation)) {
+    remember(state.configDryRuns, dryRunKey(invocation));
   }
 
-  // argocd app diff - ALLOWED, track it
-  if (/\bargocd\s+app\s+diff\b/.test(command)) {
-    const match = command.match(/argocd\s+app\s+diff\s+(\S+)/);
-    if (match) {
-      state.diffedApps.push(match[1]);
-    }
-    await saveSessionState(state);
-    process.exit(0);
+  // Node-level risk for talosctl/omnictl, unless a repo rule decided explicitly
+  const fromDefaults = !decision.rule || DEFAULT_POLICY_RULES.includes(decision.rule);
+  if (fromDefaults && (invocation.program === "talosctl" || invocation.program === "omnictl")) {
+    const detected = await detectClusterContext(cwd);
+    const context = detected && resolveClusterForCommand(detected, invocation);
+    const risk = assessNodeOperation(invocation, context, state.configDryRuns);
+
+    if (risk?.action === "deny") return hookResponse.deny(risk.reason);
+    if (risk?.action === "ask") return hookResponse.ask(risk.reason);
+  }
+
+  const args = parseCliArgs(invocation);
+  const subcommand = args.subcommand.join(" ");
+
+  // helm template - track it
+  if (invocation.program === "helm" && subcommand === "template" && args.positionals[0]) {
+    remember(state.validatedApps, args.positionals[0]);
   }
 
-  // argocd app sync - WARN (prefer git push)
-  if (/\bargocd\s+app\s+sync\b/.test(command)) {
-    const match = command.match(/argocd\s+app\s+sync\s+(\S+)/);
-    const appName = match ? match[1] : "unknown";
-
-    if (!state.diffedApps.includes(appName)) {
-      console.log(
-        JSON.stringify(
-          hookResponse.ask(
-            `No 'argocd app diff ${appName}' in this session. Run diff first or proceed anyway?`
-          )
-        )
+  if (invocation.program === "argocd") {
+    const appName = args.positionals[0] || "unknown";
+
+    // argocd app diff - track it
+    if (subcommand === "app diff") {
+      remember(state.diffedApps, appName);
+    }
+
+    // argocd app sync - needs a prior diff unless the policy allows it outright
+    if (
+      subcommand === "app sync" &&
+      decision.action === "ask" &&
+      !state.diffedApps.includes(appName)
+    ) {
+      return hookResponse.ask(
+        `No 'argocd app diff ${appName}' in this session. Run diff first or proceed anyway?`
       );
-      await saveSessionState(state);
-      process.exit(0);
     }
+  }
 
-    // Diff was run, but still prefer git push
-    console.log(
-      JSON.stringify(
-        hookResponse.ask(
-          "Prefer 'git push' and let ArgoCD auto-sync. Proceed with manual sync?"
-        )
-      )
-    );
-    await saveSessionState(state);
-    process.exit(0);
+  if (decision.action === "ask") {
+    return hookResponse.ask(defaultReason(decision, invocation));
   }
 
-  // git push - triggers validation
-  if (/\bgit\s+push\b/.test(command)) {
-    // The actual validation happens in validate-yaml hook on file edits
-    // Here we just note that a push is happening
-    await saveSessionState(state);
-    process.exit(0);
+  // git commit - Secret changes need their app's restart annotation bumped
+  if (invocation.program === "git" && args.subcommand[0] === "commit") {
+    const reason = await secretBumpReason(cwd, commitsAll(args));
+    if (reason) return hookResponse.ask(reason);
   }
 
-  // All other commands - ALLOWED
-  await saveSessionState(state);
-  process.exit(0);
+  // git push - every changed app needs a dry-run of what's being pushed
+  if (invocation.program === "git" && args.subcommand[0] === "push") {
+    const gitDir = flagValue(args, "-C");
+    const reason = await pushDryRunReason(gitDir ? resolve(cwd, gitDir) : cwd, args, state);
+    if (reason) return hookResponse.ask(reason);
+  }
+
+  return null;
+}
+
+/**
+ * Apps the push changes that have no successful dry-run of the content
+ * being pushed, with the commands that would dry-run them
+ */
+async function pushDryRunReason(
+  cwd: string,
+  args: CliArgs,
+  state: SessionState
+): Promise<string | null> {
+  const context = await detectClusterContext(cwd);
+  if (!context) return null;
+
+  const missing: string[] = [];
+  const commands: string[] = [];
+
+  for (const range of await rangesToPush(context.repoRoot, args)) {
+    const apps = appsForFiles(context, await changedFiles(context.repoRoot, [range]));
+
+    for (const app of apps) {
+      const hash = await appContentHash(context.repoRoot, app, range.to);
+      if (hash && hasDryRun(state.dryRuns, app, hash)) continue;
+
+      const label = context.clusters.size > 1 ? `${app.name} (${app.cluster})` : app.name;
+      if (missing.includes(label)) continue;
+      missing.push(label);
+      commands.push(suggestedDryRun(context.repoRoot, app));
+    }
+  }
+
+  if (missing.length === 0) return null;
+
+  return (
+    `No successful helm template or argocd app diff of the pushed content for: ${missing.join(", ")}.\n` +
+    `Dry-run them first (run from the repo root):\n${commands.map((c) => `  ${c}`).join("\n")}\n` +
+    "Push anyway?"
+  );
+}
+
+/**
+ * Secrets the commit changes in apps that won't restart for them
+ */
+async function secretBumpReason(cwd: string, all: boolean): Promise<string | null> {
+  const context = await detectClusterContext(cwd);
+  if (!context) return null;
+
+  let warnings;
+  try {
+    warnings = await checkSecretChangeBumps(await commitChanges(context.repoRoot, all), context);
+  } catch {
+    // Not a git checkout, or git failed: the commit will say so itself
+    return null;
+  }
+  if (warnings.length === 0) return null;
+
+  const lines = warnings.map(
+    (w) => `${relative(context.repoRoot, w.file)}: ${w.message}${w.fix ? ` Fix: ${w.fix}` : ""}`
+  );
+  return `Secret changes without a pod restart:\n${lines.join("\n")}\nCommit anyway?`;
+}
+
+/**
+ * git commit -a / --all / -am: tracked changes are committed without staging
+ */
+function commitsAll(args: CliArgs): boolean {
+  return [...args.flags.keys()].some(
+    (flag) => flag === "--all" || (/^-[a-zA-Z]+$/.test(flag) && flag.includes("a"))
+  );
+}
+
+/**
+ * Order verdicts by strictness
+ */
+function rank(output: HookOutput | null): number {
+  if (!output) return 0;
+  const order = { allow: 1, ask: 2, deny: 3 };
+  return order[output.hookSpecificOutput.permissionDecision];
 }
 
 main().catch((error) => {
@@ -2,16 +2,23 @@
 /**
  * Pre-tool hook: Validates YAML files before Edit/Write
  *
+ * - Validates the whole file as it would be after the edit
+ * - Reports only problems the edit introduces
  * - Lints YAML syntax
  * - Validates application.yaml chart URLs and versions
  * - Validates values.yaml against helm schema
+ * - Validates Talos patches and Omni cluster templates
+ * - Validates kustomization.yaml references and inflated charts
+ * - Denies plaintext Secrets; checks SOPS rules, recipients and KSOPS references
+ * - Checks ExternalSecrets and CNPG managed roles against the repo's Secrets
  * - Checks for missing tolerations
  */
 
-import { parse as parseYaml } from "yaml";
-import { isGitOpsRepo, findRepoRoot, getApp } from "../lib/cluster-context.js";
-import { validateChartRepo, validateChartVersion, checkUrl } from "../lib/url-checker.js";
-import { checkTolerations, checkCommonMistakes } from "../lib/helm-validator.js";
+import { readFile } from "node:fs/promises";
+import { detectClusterContext, resolveClusterForFile } from "../lib/cluster-context.js";
+import { applyEdit, validateProposedContent } from "../lib/yaml-validator.js";
+import { isConfigFile } from "../lib/config.js";
+import { isKustomizationFile } from "../lib/kustomize.js";
 import { hookResponse, type HookInput, type ValidationError } from "../lib/types.js";
 
 async function main(): Promise<void> {
@@ -31,169 +38,68 @@ async function main(): Promise<void> {
   }
 
   const filePath = (hookInput.tool_input.file_path as string) || "";
-  const content = (hookInput.tool_input.content as string) ||
-    (hookInput.tool_input.new_string as string) || "";
 
-  // Only validate YAML files
-  if (!filePath.endsWith(".yaml") && !filePath.endsWith(".yml")) {
+  // Only validate YAML files (and the repo config and Kustomization, which are YAML)
+  if (
+    !filePath.endsWith(".yaml") &&
+    !filePath.endsWith(".yml") &&
+    !isConfigFile(filePath) &&
+    !isKustomizationFile(filePath)
+  ) {
     process.exit(0);
   }
 
   // Check if we're in a GitOps repo
   const cwd = process.cwd();
-  const inGitOps = await isGitOpsRepo(cwd);
-  if (!inGitOps) {
+  const context = await detectClusterContext(cwd);
+  if (!context) {
     process.exit(0);
   }
 
-  const errors: ValidationError[] = [];
+  const original = await readOriginal(filePath);
+  const proposed = proposedContent(hookInput, original);
 
-  // 1. Lint YAML syntax
-  try {
-    parseYaml(content);
-  } catch (error) {
-    errors.push({
-      file: filePath,
-      severity: "error",
-      message: `Invalid YAML: ${error instanceof Error ? error.message : "Parse error"}`,
-    });
-
-    // Can't continue if YAML is invalid
-    outputErrors(errors);
-    return;
+  // Edit that won't apply: the tool itself will fail
+  if (proposed === null) {
+    process.exit(0);
   }
 
-  // 2. Validate application.yaml
-  if (filePath.includes("application")) {
-    const appErrors = await validateApplicationYaml(content, filePath);
-    errors.push(...appErrors);
-  }
-
-  // 3. Validate values.yaml
-  if (filePath.includes("values")) {
-    const valuesErrors = await validateValuesYaml(content, filePath);
-    errors.push(...valuesErrors);
-  }
+  const errors = await validateProposedContent(original, proposed, filePath, {
+    cluster: resolveClusterForFile(context, filePath),
+  });
 
   outputErrors(errors);
 }
 
-async function validateApplicationYaml(
-  content: string,
-  filePath: string
-): Promise<ValidationError[]> {
-  const errors: ValidationError[] = [];
-
+/**
+ * Current file content; null for a new file
+ */
+async function readOriginal(filePath: string): Promise<string | null> {
   try {
-    const doc = parseYaml(content);
-
-    if (doc?.kind !== "Application") {
-      return errors;
-    }
-
-    const spec = doc.spec;
-    const sources = spec?.sources || (spec?.source ? [spec.source] : []);
-
-    for (const source of sources) {
-      // Validate chart repo URL
-      if (source.repoURL && !source.repoURL.startsWith("git@")) {
-        const repoError = await validateChartRepo(source.repoURL);
-        if (repoError) {
-          repoError.file = filePath;
-          errors.push(repoError);
-        }
-
-        // Validate chart version
-        if (source.chart && source.targetRevision) {
-          const versionError = await validateChartVersion(
-            source.repoURL,
-            source.chart,
-            source.targetRevision
-          );
-          if (versionError) {
-            versionError.file = filePath;
-            errors.push(versionError);
-          }
-        }
-      }
-
-      // Validate git repo URL is reachable (for git repos)
-      if (source.repoURL?.startsWith("https://")) {
-        const result = await checkUrl(source.repoURL);
-        if (!result.ok) {
-          errors.push({
-            file: filePath,
-            severity: "error",
-            message: `Git repo unreachable: ${source.repoURL}`,
-          });
-        }
-      }
-    }
-
-    // Check for ignoreDifferences on known problematic charts
-    const chartNames = sources
-      .filter((s: Record<string, unknown>) => s.chart)
-      .map((s: Record<string, unknown>) => s.chart as string);
-
-    const needsIgnoreDifferences = ["harbor", "argocd"];
-    for (const chart of chartNames) {
-      if (needsIgnoreDifferences.some((c) => chart.includes(c))) {
-        if (!spec?.ignoreDifferences?.length) {
-          errors.push({
-            file: filePath,
-            severity: "warning",
-            message: `${chart} chart typically needs ignoreDifferences for auto-generated secrets`,
-            fix: "Add ignoreDifferences for secrets that change on each helm render",
-          });
-        }
-      }
-    }
-  } catch (error) {
-    errors.push({
-      file: filePath,
-      severity: "error",
-      message: `Failed to parse Application: ${error instanceof Error ? error.message : "Unknown"}`,
-    });
+    return await readFile(filePath, "utf-8");
+  } catch {
+    return null;
   }
-
-  return errors;
 }
 
-async function validateValuesYaml(
-  content: string,
-  filePath: string
-): Promise<ValidationError[]> {
-  const errors: ValidationError[] = [];
-
-  // Check for tolerations
-  const tolerationErrors = await checkTolerations(filePath);
-  errors.push(...tolerationErrors);
-
-  // Check for common mistakes
-  const mistakeErrors = await checkCommonMistakes(filePath);
-  errors.push(...mistakeErrors);
-
-  // Check if content has hostNetwork but no privileged PSA
-  if (content.includes("hostNetwork: true")) {
-    errors.push({
-      file: filePath,
-      severity: "warning",
-      message: "hostNetwork requires privileged PSA namespace",
-      fix: "Ensure namespace has pod-security.kubernetes.io/enforce: privileged",
-    });
-  }
+/**
+ * File content after the tool runs
+ */
+function proposedContent(hookInput: HookInput, original: string | null): string | null {
+  const toolInput = hookInput.tool_input;
 
-  // Check for Recreate strategy with hostNetwork
-  if (content.includes("hostNetwork: true") && !content.includes("Recreate")) {
-    errors.push({
-      file: filePath,
-      severity: "warning",
-      message: "hostNetwork deployments should use Recreate strategy",
-      fix: "Add deploymentStrategy.type: Recreate",
-    });
+  if (hookInput.tool_name === "Write") {
+    return (toolInput.content as string) || "";
   }
 
-  return errors;
+  if (original === null) return null;
+
+  return applyEdit(
+    original,
+    (toolInput.old_string as string) || "",
+    (toolInput.new_string as string) || "",
+    toolInput.replace_all === true
+  );
 }
 
 function outputErrors(errors: ValidationError[]): void {
@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applicationSources,
+  expandApplicationSet,
+  mergeValues,
+  resolveHelmValues,
+  type GeneratorContext,
+} from "./argo-application.js";
+
+// Fixture repo with apps/{web,db,legacy}
+let repo: string;
+let context: GeneratorContext;
+
+beforeAll(async () => {
+  repo = await mkdtemp(join(tmpdir(), "argo-application-test-"));
+  for (const app of ["web", "db", "legacy"]) {
+    await mkdir(join(repo, "apps", app), { recursive: true });
+  }
+  context = { repoRoot: repo, repoUrls: [], clusterNames: ["prod", "staging"], defaultCluster: "prod" };
+});
+
+afterAll(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe("resolveHelmValues", () => {
+  // This repo's remote, in the scp-like form git clone leaves
+  const repoUrls = ["git@git.example.com:gitops.git"];
+  const chart = (helm: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+    repoURL: "https://charts.example.com",
+    chart: "web",
+    helm,
+    ...extra,
+  });
+
+  test("resolves $ref value files through a ref source", () => {
+    const source = chart({ valueFiles: ["$values/apps/web/values.yaml", "$other/values.yaml"] });
+    const sources = [source, { repoURL: "https://git.example.com/gitops.git", ref: "values" }];
+
+    expect(resolveHelmValues(sources, source, "/repo", repoUrls)).toEqual({
+      files: ["/repo/apps/web/values.yaml"],
+      unresolved: ["$other/values.yaml"],
+      inline: null,
+    });
+  });
+
+  test("leaves $ref value files in other repos unresolved", () => {
+    const source = chart({ valueFiles: ["$values/apps/web/values.yaml"] });
+    const sources = [source, { repoURL: "https://git.example.com/other.git", ref: "values" }];
+
+    expect(resolveHelmValues(sources, source, "/repo", repoUrls).unresolved).toEqual([
+      "$values/apps/web/values.yaml",
+    ]);
+    // Without remotes there's nothing to compare with
+    expect(resolveHelmValues(sources, source, "/repo", []).files).toEqual(["/repo/apps/web/values.yaml"]);
+  });
+
+  test("resolves plain value files against a chart path in this repo", () => {
+    const local = chart(
+      { valueFiles: ["values-prod.yaml"] },
+      { repoURL: "ssh://git@git.example.com/gitops", path: "charts/web" }
+    );
+    expect(resolveHelmValues([local], local, "/repo", repoUrls).files).toEqual([
+      "/repo/charts/web/values-prod.yaml",
+    ]);
+
+    const remote = chart({ valueFiles: ["values-prod.yaml"] });
+    expect(resolveHelmValues([remote], remote, "/repo", repoUrls).unresolved).toEqual(["values-prod.yaml"]);
+  });
+
+  test("merges helm.values with helm.valuesObject", () => {
+    const source = chart({
+      values: "replicas: 1\nimage:\n  tag: a\n  pullPolicy: Always\n",
+      valuesObject: { image: { tag: "b" } },
+    });
+
+    expect(resolveHelmValues([source], source, "/repo", repoUrls).inline).toEqual({
+      replicas: 1,
+      image: { tag: "b", pullPolicy: "Always" },
+    });
+  });
+});
+
+describe("mergeValues", () => {
+  test("merges maps and replaces lists", () => {
+    expect(mergeValues({ a: { b: 1, c: [1] }, d: 1 }, { a: { c: [2] }, d: null })).toEqual({
+      a: { b: 1, c: [2] },
+      d: null,
+    });
+  });
+});
+
+describe("applicationSources", () => {
+  test("reads source or sources", () => {
+    expect(applicationSources({ source: { chart: "a" } })).toEqual([{ chart: "a" }]);
+    expect(applicationSources({ sources: [{ chart: "a" }, { ref: "v" }] })).toHaveLength(2);
+    expect(applicationSources(null)).toEqual([]);
+  });
+});
+
+describe("expandApplicationSet", () => {
+  const names = async (spec: Record<string, unknown>) =>
+    (await expandApplicationSet({ spec }, context)).map((g) => [
+      (g.application.metadata as { name: string }).name,
+      g.cluster,
+    ]);
+
+  test("list generators, with fasttemplate and nested elements", async () => {
+    const spec = {
+      generators: [{ list: { elements: [{ app: "web", chart: { version: "1.0.0" } }] } }],
+      template: {
+        metadata: { name: "{{app}}-{{chart.version}}" },
+        spec: { source: { chart: "{{app}}", targetRevision: "{{chart.version}}" } },
+      },
+    };
+    const [generated] = await expandApplicationSet({ spec }, context);
+
+    expect(generated.application).toMatchObject({
+      kind: "Application",
+      metadata: { name: "web-1.0.0" },
+      spec: { source: { chart: "web", targetRevision: "1.0.0" } },
+    });
+  });
+
+  test("git directory generators glob this repo", async () => {
+    const spec = {
+      generators: [
+        { git: { directories: [{ path: "apps/*" }, { path: "apps/legacy", exclude: true }] } },
+      ],
+      template: { metadata: { name: "{{path.basename}}" }, spec: {} },
+    };
+    expect(await names(spec)).toEqual([
+      ["db", undefined],
+      ["web", undefined],
+    ]);
+  });
+
+  test("git directory generators of other repos generate nothing", async () => {
+    const generator = (repoURL: string) => ({
+      generators: [{ git: { repoURL, directories: [{ path: "apps/*" }] } }],
+      template: { metadata: { name: "{{path.basename}}" }, spec: {} },
+    });
+    const withRemote = { ...context, repoUrls: ["https://git.example.com/gitops.git"] };
+    const generated = async (repoURL: string) =>
+      (await expandApplicationSet({ spec: generator(repoURL) }, withRemote)).length;
+
+    expect(await generated("git@git.example.com:gitops")).toBe(3);
+    expect(await generated("https://git.example.com/other.git")).toBe(0);
+  });
+
+  test("cluster generators with goTemplate", async () => {
+    const spec = {
+      goTemplate: true,
+      generators: [{ clusters: {} }],
+      template: { metadata: { name: "{{ .name }}-web" }, spec: { destination: { server: "{{.server}}" } } },
+    };
+    expect(await names(spec)).toEqual([
+      ["prod-web", "prod"],
+      ["staging-web", "staging"],
+    ]);
+
+    const [generated] = await expandApplicationSet({ spec }, context);
+    expect(generated.application.spec).toEqual({
+      destination: { server: "https://kubernetes.default.svc" },
+    });
+  });
+});
@@ -0,0 +1,397 @@
+import { execFile } from "node:child_process";
+import { readdir, stat } from "node:fs/promises";
+import { join, posix } from "node:path";
+import { promisify } from "node:util";
+import { parse as parseYaml } from "yaml";
+
+const execFileAsync = promisify(execFile);
+
+type Obj = Record<string, unknown>;
+
+/**
+ * Helm values an Application passes to its chart
+ */
+export interface HelmValues {
+  // Repo files from helm.valueFiles, in the order helm applies them
+  files: string[];
+  // valueFiles that aren't repo files: relative to a remote chart, an unknown
+  // $ref, or in another repo
+  unresolved: string[];
+  // helm.values merged with helm.valuesObject (which wins)
+  inline: Obj | null;
+}
+
+/**
+ * An Application an ApplicationSet generates, and the cluster a cluster
+ * generator picked for it
+ */
+export interface GeneratedApplication {
+  application: Obj;
+  cluster?: string;
+}
+
+export interface GeneratorContext {
+  repoRoot: string;
+  // The repo's remote URLs (repoRemoteUrls)
+  repoUrls: string[];
+  clusterNames: string[];
+  // Cluster Argo runs in (in-cluster)
+  defaultCluster: string;
+}
+
+// Parameter set: flat keys for fasttemplate, nested for goTemplate
+type Params = { values: Obj; cluster?: string };
+
+const GENERATOR_KINDS = ["list", "git", "clusters"] as const;
+
+const IN_CLUSTER_SERVER = "https://kubernetes.default.svc";
+
+/**
+ * Sources of an Application spec (source or sources)
+ */
+export function applicationSources(spec: unknown): Obj[] {
+  const s = asObj(spec);
+  if (Array.isArray(s.sources)) return s.sources.map(asObj);
+  return s.source ? [asObj(s.source)] : [];
+}
+
+/**
+ * Resolve the chart source's helm values: $ref/path value files point into the
+ * ref source, plain ones are relative to a chart path. Only sources whose
+ * repoURL is one of repoUrls (or any, when the repo has no remotes) are this
+ * repo's files.
+ */
+export function resolveHelmValues(
+  sources: Obj[],
+  chartSource: Obj,
+  repoRoot: string,
+  repoUrls: string[]
+): HelmValues {
+  const helm = asObj(chartSource.helm);
+  const result: HelmValues = { files: [], unresolved: [], inline: null };
+
+  for (const valueFile of Array.isArray(helm.valueFiles) ? helm.valueFiles.map(String) : []) {
+    const ref = valueFile.match(/^\$([^/]+)\/(.+)$/);
+
+    if (ref) {
+      const refSource = sources.find((s) => s.ref === ref[1]);
+      if (refSource && isThisRepo(refSource, repoUrls)) result.files.push(join(repoRoot, ref[2]));
+      else result.unresolved.push(valueFile);
+    } else if (typeof chartSource.path === "string" && isThisRepo(chartSource, repoUrls)) {
+      result.files.push(join(repoRoot, chartSource.path, valueFile));
+    } else {
+      result.unresolved.push(valueFile);
+    }
+  }
+
+  // values is a YAML string (or, in older manifests, an object)
+  let inline: Obj | null = null;
+  if (typeof helm.values === "string") {
+    try {
+      inline = asObj(parseYaml(helm.values));
+    } catch {
+      // Invalid inline values; helm template reports them
+    }
+  } else if (helm.values && typeof helm.values === "object") {
+    inline = asObj(helm.values);
+  }
+  if (helm.valuesObject && typeof helm.valuesObject === "object") {
+    inline = mergeValues(inline ?? {}, asObj(helm.valuesObject));
+  }
+  result.inline = inline;
+
+  return result;
+}
+
+/**
+ * URLs of the repo's git remotes; empty when it has none or git fails
+ */
+export async function repoRemoteUrls(repoRoot: string): Promise<string[]> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["config", "--get-regexp", "^remote\\..*\\.url$"],
+      { cwd: repoRoot, timeout: 5_000 }
+    );
+    return stdout
+      .split("\n")
+      .map((line) => line.split(" ")[1])
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Merge helm values: maps merge recursively, everything else is replaced
+ */
+export function mergeValues(base: Obj, override: Obj): Obj {
+  const merged: Obj = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value) ? mergeValues(current, value) : value;
+  }
+
+  return merged;
+}
+
+/**
+ * Expand an ApplicationSet into the Applications its list, git directory and
+ * cluster generators produce. Other generators are skipped.
+ */
+export async function expandApplicationSet(
+  doc: Obj,
+  context: GeneratorContext
+): Promise<GeneratedApplication[]> {
+  const spec = asObj(doc.spec);
+  const template = asObj(spec.template);
+  const goTemplate = spec.goTemplate === true;
+  const generated: GeneratedApplication[] = [];
+
+  for (const generator of Array.isArray(spec.generators) ? spec.generators.map(asObj) : []) {
+    const kind = GENERATOR_KINDS.find((k) => generator[k]);
+    if (!kind) continue;
+
+    const config = asObj(generator[kind]);
+    const paramSets = await generatorParams(kind, config, context, goTemplate);
+
+    // A generator can carry its own template, merged over the set's
+    const generatorTemplate = mergeValues(template, asObj(config.template));
+
+    for (const params of paramSets) {
+      const rendered = asObj(renderTemplate(generatorTemplate, params.values, goTemplate));
+      generated.push({
+        application: {
+          apiVersion: "argoproj.io/v1alpha1",
+          kind: "Application",
+          metadata: rendered.metadata ?? {},
+          spec: rendered.spec ?? {},
+        },
+        cluster: params.cluster,
+      });
+    }
+  }
+
+  return generated;
+}
+
+async function generatorParams(
+  kind: (typeof GENERATOR_KINDS)[number],
+  config: Obj,
+  context: GeneratorContext,
+  goTemplate: boolean
+): Promise<Params[]> {
+  // List: one parameter set per element
+  if (kind === "list") {
+    const elements = config.elements;
+    return (Array.isArray(elements) ? elements.map(asObj) : []).map((element) => ({
+      values: goTemplate ? element : flatten(element),
+    }));
+  }
+
+  // Git directories: paths matched in this repo; another repo's can't be listed
+  if (kind === "git") {
+    const directories = config.directories;
+    if (!Array.isArray(directories) || !isThisRepo(config, context.repoUrls)) return [];
+
+    const include = directories.map(asObj).filter((d) => d.exclude !== true);
+    const exclude = directories.map(asObj).filter((d) => d.exclude === true);
+    const paths = new Set<string>();
+
+    for (const dir of include) {
+      for (const path of await globDirectories(context.repoRoot, String(dir.path ?? ""))) {
+        if (!exclude.some((d) => globToRegExp(String(d.path ?? "")).test(path))) {
+          paths.add(path);
+        }
+      }
+    }
+
+    return [...paths].sort().map((path) => ({ values: pathParams(path, goTemplate) }));
+  }
+
+  // Clusters: every cluster in the repo (label selectors can't be evaluated here)
+  return context.clusterNames.map((name) => {
+    const values: Obj = {
+      name,
+      nameNormalized: normalize(name),
+      server: name === context.defaultCluster ? IN_CLUSTER_SERVER : "",
+    };
+    if (goTemplate) values.metadata = { labels: {}, annotations: {} };
+    return { values, cluster: name };
+  });
+}
+
+function pathParams(path: string, goTemplate: boolean): Obj {
+  const segments = path.split("/");
+  const basename = segments[segments.length - 1];
+
+  if (goTemplate) {
+    return {
+      path: { path, basename, basenameNormalized: normalize(basename), segments },
+    };
+  }
+
+  const values: Obj = {
+    path,
+    "path.basename": basename,
+    "path.basenameNormalized": normalize(basename),
+  };
+  segments.forEach((segment, i) => (values[`path[${i}]`] = segment));
+  return values;
+}
+
+/**
+ * Substitute parameters in every string of a template. Placeholders that
+ * can't be resolved are left as they are.
+ */
+function renderTemplate(value: unknown, params: Obj, goTemplate: boolean): unknown {
+  if (typeof value === "string") {
+    return goTemplate
+      ? value.replace(/\{\{-?\s*(.+?)\s*-?\}\}/g, (match, expr: string) => {
+          const resolved = evaluateGoExpression(expr, params);
+          return resolved === undefined ? match : String(resolved);
+        })
+      : value.replace(/\{\{\s*([^{}\s]+)\s*\}\}/g, (match, key: string) =>
+          key in params ? String(params[key]) : match
+        );
+  }
+  if (Array.isArray(value)) return value.map((item) => renderTemplate(item, params, goTemplate));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, renderTemplate(v, params, goTemplate)])
+    );
+  }
+  return value;
+}
+
+/**
+ * The goTemplate subset generators need: .a.b and index .a.b N
+ */
+function evaluateGoExpression(expr: string, params: Obj): unknown {
+  const lookup = (path: string): unknown =>
+    path
+      .replace(/^\./, "")
+      .split(".")
+      .filter(Boolean)
+      .reduce<unknown>((current, key) => asObj(current)[key], params);
+
+  const index = expr.match(/^index\s+(\.\S+)\s+(\d+|"[^"]*")$/);
+  if (index) {
+    const target = lookup(index[1]);
+    const key = index[2].startsWith('"') ? index[2].slice(1, -1) : Number(index[2]);
+    return Array.isArray(target) && typeof key === "number" ? target[key] : asObj(target)[key];
+  }
+
+  if (/^\.[\w.]*$/.test(expr)) {
+    const value = lookup(expr);
+    return typeof value === "object" ? undefined : value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Directories matching a git generator path pattern (path.Match wildcards per segment)
+ */
+async function globDirectories(root: string, pattern: string): Promise<string[]> {
+  let matches = [""];
+
+  for (const segment of pattern.split("/").filter(Boolean)) {
+    const next: string[] = [];
+
+    for (const dir of matches) {
+      const candidates = /[*?[]/.test(segment)
+        ? (await listDirectories(join(root, dir))).filter((e) => globToRegExp(segment).test(e))
+        : [segment];
+
+      for (const entry of candidates) {
+        const path = dir ? posix.join(dir, entry) : entry;
+        if (await isDirectory(join(root, path))) next.push(path);
+      }
+    }
+
+    matches = next;
+  }
+
+  return matches.filter(Boolean);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\/+$/, "")
+    .replace(/[.+^${}()|\\]/g, "\\$&")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]");
+  return new RegExp(`^${source}$`);
+}
+
+async function listDirectories(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir, { withFileTypes: true }))
+      .filter((e) => e.isDirectory() && !e.name.startsWith("."))
+      .map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Flatten nested list elements to the dotted keys fasttemplate uses
+ */
+function flatten(value: Obj, prefix = ""): Obj {
+  const flat: Obj = {};
+
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) Object.assign(flat, flatten(child, name));
+    else flat[name] = child;
+  }
+
+  return flat;
+}
+
+// Argo's *Normalized params: DNS-1123 friendly
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9.-]/g, "-");
+}
+
+/**
+ * Check if a source points at this repo. Sources without a repoURL are taken
+ * to be this repo, as is everything when the repo has no remotes to compare with.
+ */
+export function isThisRepo(source: Obj, repoUrls: string[]): boolean {
+  if (typeof source.repoURL !== "string" || repoUrls.length === 0) return true;
+  const url = normalizeRepoUrl(source.repoURL);
+  return repoUrls.some((u) => normalizeRepoUrl(u) === url);
+}
+
+// https://host/org/repo.git, ssh://git@host:22/org/repo and git@host:org/repo
+// all become host/org/repo
+function normalizeRepoUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z+]+:\/\//, "")
+    .replace(/^[^@/]+@/, "")
+    .replace(/^([^/:]+):(\d+\/)?/, "$1/")
+    .replace(/\/+$/, "")
+    .replace(/\.git$/, "");
+}
+
+function isPlainObject(value: unknown): value is Obj {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function asObj(value: unknown): Obj {
+  return isPlainObject(value) ? value : {};
+}
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createArgoClient, type ArgoClientOptions } from "./argocd.js";
+
+// Stand-in API server: responses by path, and the Authorization headers seen
+const routes = new Map<string, () => Response>();
+const authorizations: string[] = [];
+let server: ReturnType<typeof Bun.serve>;
+
+// Fake argocd CLI on PATH
+let binDir: string;
+const originalPath = process.env.PATH;
+
+const app = (name: string, status: string) => ({
+  metadata: { name, namespace: "argocd" },
+  status: { sync: { status, revision: "abc1234" }, health: { status: "Healthy" } },
+});
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      authorizations.push(request.headers.get("authorization") ?? "");
+      const route = routes.get(new URL(request.url).pathname);
+      return route ? route() : Response.json({ error: "not found", code: 5 }, { status: 404 });
+    },
+  });
+
+  binDir = await mkdtemp(join(tmpdir(), "argocd-test-"));
+  await writeFile(
+    join(binDir, "argocd"),
+    `#!/bin/sh\n[ "$#" = 5 ] && [ "$1 $2 $4 $5" = "app get -o json" ] || exit 1\n` +
+      `[ "$3" = from-cli ] || [ "$3" = "from-cli; exit 1" ] || exit 1\n` +
+      `echo '${JSON.stringify(app("from-cli", "OutOfSync"))}'\n`
+  );
+  await chmod(join(binDir, "argocd"), 0o755);
+  process.env.PATH = `${binDir}:${originalPath}`;
+});
+
+afterAll(async () => {
+  server.stop(true);
+  process.env.PATH = originalPath;
+  await rm(binDir, { recursive: true, force: true });
+});
+
+function options(extra: ArgoClientOptions = {}): ArgoClientOptions {
+  return { server: `127.0.0.1:${server.port}`, token: "secret", plainText: true, ...extra };
+}
+
+describe("createArgoClient", () => {
+  test("reads applications from the API", async () => {
+    routes.set("/api/v1/applications", () => Response.json({ items: [app("web", "Synced")] }));
+    routes.set("/api/v1/applications/web", () => Response.json(app("web", "Synced")));
+
+    const client = await createArgoClient(options());
+    expect(client.connection?.baseUrl).toBe(`http://127.0.0.1:${server.port}`);
+
+    const apps = await client.listApplications();
+    expect(apps.map((a) => a.metadata?.name)).toEqual(["web"]);
+    expect((await client.getApplication("web")).status?.sync?.status).toBe("Synced");
+    expect(authorizations.at(-1)).toBe("Bearer secret");
+  });
+
+  test("derives diffs from managed resources", async () => {
+    routes.set("/api/v1/applications/web/managed-resources", () =>
+      Response.json({
+        items: [
+          { kind: "ConfigMap", name: "same", targetState: "{}", liveState: "{}" },
+          { kind: "ConfigMap", name: "new", targetState: '{"data":{}}', liveState: "null" },
+          { kind: "Job", name: "migrate", targetState: "{}", liveState: "null", hook: true },
+        ],
+      })
+    );
+
+    const diff = await (await createArgoClient(options())).getDiff("web");
+    expect(diff?.map((d) => [d.name, d.status])).toEqual([["new", "missing"]]);
+  });
+
+  test("rejects responses that don't match the schema", async () => {
+    routes.set("/api/v1/applications/broken", () => Response.json({ metadata: "not an object" }));
+
+    const client = await createArgoClient(options({ cliFallback: false }));
+    await expect(client.getApplication("broken")).rejects.toThrow(
+      "Unexpected response from ArgoCD API /api/v1/applications/broken: metadata"
+    );
+  });
+
+  test("reports API errors without the CLI fallback", async () => {
+    const client = await createArgoClient(options({ cliFallback: false }));
+    await expect(client.getApplication("missing")).rejects.toThrow("HTTP 404 not found");
+  });
+
+  test("falls back to the CLI when the API request fails", async () => {
+    routes.set("/api/v1/applications/from-cli", () => new Response("unavailable", { status: 503 }));
+
+    const fetched = await (await createArgoClient(options())).getApplication("from-cli");
+    expect(fetched.status?.sync?.status).toBe("OutOfSync");
+  });
+
+  test("passes app names to the CLI as one argument", async () => {
+    const fetched = await (await createArgoClient(options())).getApplication("from-cli; exit 1");
+    expect(fetched.metadata?.name).toBe("from-cli");
+  });
+
+  test("keeps the API error when the CLI fails too", async () => {
+    const client = await createArgoClient(options());
+    await expect(client.getApplication("missing")).rejects.toThrow("HTTP 404");
+  });
+});
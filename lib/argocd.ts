@@ -0,0 +1,325 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { parse as parseYaml } from "yaml";
+import type { z } from "zod";
+import {
+  ArgoApplicationListSchema,
+  ArgoApplicationSchema,
+  ArgoCliConfigSchema,
+  ArgoEventListSchema,
+  ArgoManagedResourceListSchema,
+  ArgoResourceTreeSchema,
+  type ArgoApplication,
+  type ArgoCliConfig,
+  type ArgoEvent,
+  type ArgoManagedResource,
+  type ArgoResourceNode,
+} from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+const TIMEOUT_MS = 5_000;
+
+export interface ArgoClientOptions {
+  // API server as host[:port] or a URL; defaults to ARGOCD_SERVER, then the
+  // argocd CLI's current context
+  server?: string;
+  // Defaults to ARGOCD_AUTH_TOKEN, then the CLI context's auth-token
+  token?: string;
+  // http:// instead of https:// (like argocd --plaintext)
+  plainText?: boolean;
+  // Skip TLS certificate verification (like argocd --insecure)
+  insecure?: boolean;
+  // Path prefix the API is served under (like argocd --grpc-web-root-path)
+  rootPath?: string;
+  timeoutMs?: number;
+  // Use the argocd CLI when the API isn't configured or a request fails (default true)
+  cliFallback?: boolean;
+}
+
+/**
+ * Where the API is and how to authenticate
+ */
+export interface ArgoConnection {
+  baseUrl: string;
+  token: string;
+  insecure: boolean;
+}
+
+/**
+ * A resource whose live state differs from what the app wants
+ */
+export interface ArgoResourceDiff {
+  group?: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  // missing: not in the cluster yet; extra: in the cluster, not in git
+  status: "missing" | "extra" | "modified";
+  live: unknown;
+  target: unknown;
+}
+
+/**
+ * ArgoCD API client. Calls without a CLI equivalent (resource tree, managed
+ * resources, diff, events) return null when only the CLI is available.
+ */
+export interface ArgoClient {
+  // null when only the CLI is available
+  connection: ArgoConnection | null;
+  listApplications(): Promise<ArgoApplication[]>;
+  getApplication(name: string): Promise<ArgoApplication>;
+  getResourceTree(name: string): Promise<ArgoResourceNode[] | null>;
+  getManagedResources(name: string): Promise<ArgoManagedResource[] | null>;
+  getDiff(name: string): Promise<ArgoResourceDiff[] | null>;
+  getEvents(name: string): Promise<ArgoEvent[] | null>;
+}
+
+/**
+ * Client for the API server the options, environment or CLI config point at
+ */
+export async function createArgoClient(options: ArgoClientOptions = {}): Promise<ArgoClient> {
+  const connection = await resolveConnection(options);
+  const timeoutMs = options.timeoutMs ?? TIMEOUT_MS;
+  const cliFallback = options.cliFallback ?? true;
+
+  const api = <T extends z.ZodTypeAny>(path: string, schema: T): Promise<z.infer<T>> =>
+    apiGet(connection!, path, schema, timeoutMs);
+
+  // The API when configured, else (or when it fails) the CLI
+  async function withFallback<T>(fromApi: () => Promise<T>, fromCli: () => Promise<T>): Promise<T> {
+    if (!connection) {
+      if (!cliFallback) throw new Error("No ArgoCD server configured");
+      return fromCli();
+    }
+
+    try {
+      return await fromApi();
+    } catch (error) {
+      if (!cliFallback) throw error;
+      try {
+        return await fromCli();
+      } catch {
+        throw error;
+      }
+    }
+  }
+
+  // API-only calls: null without an API server
+  async function apiOnly<T>(fromApi: () => Promise<T>): Promise<T | null> {
+    return connection ? fromApi() : null;
+  }
+
+  const client: ArgoClient = {
+    connection,
+
+    listApplications: () =>
+      withFallback(
+        async () => (await api("/api/v1/applications", ArgoApplicationListSchema)).items ?? [],
+        async () => {
+          const list = await cliJson(["app", "list", "-o", "json"], timeoutMs);
+          return parseResponse(ArgoApplicationSchema.array(), list ?? [], "argocd app list");
+        }
+      ),
+
+    getApplication: (name) =>
+      withFallback(
+        () => api(`/api/v1/applications/${encodeURIComponent(name)}`, ArgoApplicationSchema),
+        async () =>
+          parseResponse(
+            ArgoApplicationSchema,
+            await cliJson(["app", "get", name, "-o", "json"], timeoutMs),
+            "argocd app get"
+          )
+      ),
+
+    getResourceTree: (name) =>
+      apiOnly(
+        async () =>
+          (await api(`/api/v1/applications/${encodeURIComponent(name)}/resource-tree`, ArgoResourceTreeSchema))
+            .nodes ?? []
+      ),
+
+    getManagedResources: (name) =>
+      apiOnly(
+        async () =>
+          (
+            await api(
+              `/api/v1/applications/${encodeURIComponent(name)}/managed-resources`,
+              ArgoManagedResourceListSchema
+            )
+          ).items ?? []
+      ),
+
+    getDiff: async (name) => {
+      const resources = await client.getManagedResources(name);
+      return resources && resources.map(resourceDiff).filter((d): d is ArgoResourceDiff => !!d);
+    },
+
+    getEvents: (name) =>
+      apiOnly(
+        async () =>
+          (await api(`/api/v1/applications/${encodeURIComponent(name)}/events`, ArgoEventListSchema))
+            .items ?? []
+      ),
+  };
+
+  return client;
+}
+
+/**
+ * API server and token: explicit options, then ARGOCD_SERVER /
+ * ARGOCD_AUTH_TOKEN / ARGOCD_OPTS, then the CLI config. null when there's
+ * no server, no token, or the CLI runs in --core mode.
+ */
+export async function resolveConnection(options: ArgoClientOptions = {}): Promise<ArgoConnection | null> {
+  const envOpts = process.env.ARGOCD_OPTS ?? "";
+  const config = await loadCliConfig();
+
+  const contextName = config?.["current-context"];
+  const context = config?.contexts?.find((c) => c.name === contextName);
+  const server = options.server ?? process.env.ARGOCD_SERVER ?? context?.server;
+  if (!server) return null;
+
+  // CLI settings for this server, if it has logged in to it
+  const host = server.replace(/^https?:\/\//, "").replace(/\/+$/, "");
+  const serverConfig = config?.servers?.find((s) => s.server === host);
+  if (serverConfig?.core && !options.server) return null;
+
+  const user = config?.contexts?.find((c) => c.server === host)?.user;
+  const token =
+    options.token ??
+    process.env.ARGOCD_AUTH_TOKEN ??
+    config?.users?.find((u) => u.name === user)?.["auth-token"];
+  if (!token) return null;
+
+  const plainText =
+    options.plainText ?? (/--plaintext\b/.test(envOpts) || serverConfig?.["plain-text"] === true);
+  const insecure =
+    options.insecure ?? (/--insecure\b/.test(envOpts) || serverConfig?.insecure === true);
+  const rootPath =
+    options.rootPath ??
+    envOpts.match(/--grpc-web-root-path[= ](\S+)/)?.[1] ??
+    serverConfig?.["grpc-web-root-path"] ??
+    "";
+
+  const origin = /^https?:\/\//.test(server) ? server : `${plainText ? "http" : "https"}://${server}`;
+  // "" or "/path"
+  const prefix = rootPath.replace(/^\/*/, "/").replace(/\/+$/, "");
+
+  return { baseUrl: `${origin.replace(/\/+$/, "")}${prefix}`, token, insecure };
+}
+
+/**
+ * The argocd CLI's config: ARGOCD_CONFIG_DIR, ~/.config/argocd, or the
+ * legacy ~/.argocd. null when there is none or it doesn't parse.
+ */
+async function loadCliConfig(): Promise<ArgoCliConfig | null> {
+  const dirs = [
+    process.env.ARGOCD_CONFIG_DIR,
+    join(homedir(), ".config", "argocd"),
+    join(homedir(), ".argocd"),
+  ].filter((d): d is string => !!d);
+
+  const dir = dirs.find((d) => existsSync(join(d, "config")));
+  if (!dir) return null;
+
+  try {
+    const parsed = ArgoCliConfigSchema.safeParse(parseYaml(await readFile(join(dir, "config"), "utf-8")));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function apiGet<T extends z.ZodTypeAny>(
+  connection: ArgoConnection,
+  path: string,
+  schema: T,
+  timeoutMs: number
+): Promise<z.infer<T>> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${connection.baseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${connection.token}`, Accept: "application/json" },
+      signal: controller.signal,
+      tls: { rejectUnauthorized: !connection.insecure },
+    });
+
+    if (!response.ok) {
+      throw new Error(`ArgoCD API ${path}: HTTP ${response.status}${await apiErrorMessage(response)}`);
+    }
+
+    return parseResponse(schema, await response.json(), `ArgoCD API ${path}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// gRPC-gateway errors: { "error": "...", "code": 5, "message": "..." }
+async function apiErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as { message?: string; error?: string };
+    const message = body.message || body.error;
+    return message ? ` ${message}` : "";
+  } catch {
+    return "";
+  }
+}
+
+function parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, source: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Unexpected response from ${source}: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data;
+}
+
+async function cliJson(args: string[], timeoutMs: number): Promise<unknown> {
+  const { stdout } = await execFileAsync("argocd", args, {
+    timeout: timeoutMs,
+    maxBuffer: 20 * 1024 * 1024,
+  });
+  return JSON.parse(stdout);
+}
+
+/**
+ * What argocd app diff would show for a managed resource; null when in sync.
+ * Hooks are left out, as argocd app diff does.
+ */
+function resourceDiff(resource: ArgoManagedResource): ArgoResourceDiff | null {
+  if (resource.hook) return null;
+
+  const live = parseState(resource.normalizedLiveState ?? resource.liveState);
+  const target = parseState(resource.predictedLiveState ?? resource.targetState);
+  const status =
+    live === null ? "missing" : target === null ? "extra" : resource.modified ? "modified" : null;
+  if (!status) return null;
+
+  return {
+    group: resource.group,
+    kind: resource.kind,
+    name: resource.name,
+    namespace: resource.namespace,
+    status,
+    live,
+    target,
+  };
+}
+
+// States are JSON strings; "null" or empty when the side doesn't exist
+function parseState(state: string | undefined): unknown {
+  if (!state) return null;
+  try {
+    return JSON.parse(state);
+  } catch {
+    return null;
+  }
+}
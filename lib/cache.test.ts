@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cachedFetch, describeAge } from "./cache.js";
+
+let dir: string;
+const original = { dir: process.env.TALOS_GITOPS_CACHE_DIR, offline: process.env.TALOS_GITOPS_OFFLINE };
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "cache-test-"));
+  process.env.TALOS_GITOPS_CACHE_DIR = dir;
+});
+
+beforeEach(() => {
+  delete process.env.TALOS_GITOPS_OFFLINE;
+});
+
+afterAll(async () => {
+  for (const [name, value] of [
+    ["TALOS_GITOPS_CACHE_DIR", original.dir],
+    ["TALOS_GITOPS_OFFLINE", original.offline],
+  ] as const) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("cachedFetch", () => {
+  test("serves fresh entries without fetching", async () => {
+    let calls = 0;
+    const fetcher = async () => ({ data: ++calls });
+
+    expect(await cachedFetch("test", "fresh", 60_000, fetcher)).toEqual({ data: 1 });
+    const cached = await cachedFetch("test", "fresh", 60_000, fetcher);
+
+    expect(cached?.data).toBe(1);
+    expect(cached?.cache?.stale).toBe(false);
+    expect(calls).toBe(1);
+  });
+
+  test("revalidates expired entries with their validators", async () => {
+    await cachedFetch("test", "etag", 0, async () => ({ data: "v1", etag: '"abc"' }));
+
+    let seen: { etag?: string } = {};
+    const result = await cachedFetch("test", "etag", 0, async (validators) => {
+      seen = validators;
+      return { notModified: true };
+    });
+
+    expect(seen.etag).toBe('"abc"');
+    expect(result).toEqual({ data: "v1" });
+  });
+
+  test("falls back to the stale entry when the fetch fails", async () => {
+    await cachedFetch("test", "stale", 0, async () => ({ data: "old" }));
+
+    const result = await cachedFetch("test", "stale", 0, async () => {
+      throw new Error("network down");
+    });
+
+    expect(result?.data).toBe("old");
+    expect(result?.cache?.stale).toBe(true);
+  });
+
+  test("rethrows when there is nothing cached", async () => {
+    const failing = async () => {
+      throw new Error("network down");
+    };
+    await expect(cachedFetch("test", "nothing", 0, failing)).rejects.toThrow("network down");
+  });
+
+  test("never fetches offline", async () => {
+    await cachedFetch("test", "offline", 0, async () => ({ data: "kept" }));
+    process.env.TALOS_GITOPS_OFFLINE = "true";
+
+    const fetcher = async () => {
+      throw new Error("fetched while offline");
+    };
+    expect((await cachedFetch("test", "offline", 0, fetcher))?.data).toBe("kept");
+    expect(await cachedFetch("test", "never-cached", 0, fetcher)).toBeNull();
+  });
+});
+
+test("describeAge", () => {
+  expect(describeAge(Date.now() - 5 * 60_000)).toBe("5m ago");
+  expect(describeAge(Date.now() - 3 * 3_600_000)).toBe("3h ago");
+  expect(describeAge(Date.now() - 3 * 86_400_000)).toBe("3d ago");
+});
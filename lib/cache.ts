@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// Default TTLs per kind of cached data
+export const CACHE_TTL = {
+  helmIndex: 60 * 60_000, // 1 hour
+  ociTags: 60 * 60_000, // 1 hour
+  ociManifest: 24 * 60 * 60_000, // 1 day, published tags rarely vanish
+  url: 24 * 60 * 60_000, // 1 day
+  failure: 5 * 60_000, // 5 minutes, so fixes are noticed quickly
+};
+
+interface CacheEntry<T> {
+  key: string;
+  fetchedAt: number;
+  ttlMs: number;
+  etag?: string;
+  lastModified?: string;
+  data: T;
+}
+
+// How a value was obtained; absent when fetched live
+export interface CacheInfo {
+  fetchedAt: number;
+  stale: boolean;
+}
+
+export interface CachedValue<T> {
+  data: T;
+  cache?: CacheInfo;
+}
+
+export type FetchOutcome<T> =
+  | { notModified: true }
+  | { notModified?: false; data: T; etag?: string; lastModified?: string; ttlMs?: number };
+
+/**
+ * Offline mode: validate against cached data only, never touch the network
+ */
+export function isOffline(): boolean {
+  return process.env.TALOS_GITOPS_OFFLINE === "true";
+}
+
+/**
+ * Cache directory: TALOS_GITOPS_CACHE_DIR, else $XDG_CACHE_HOME/talos-gitops-ops
+ */
+export function cacheDir(): string {
+  if (process.env.TALOS_GITOPS_CACHE_DIR) {
+    return process.env.TALOS_GITOPS_CACHE_DIR;
+  }
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "talos-gitops-ops");
+}
+
+/**
+ * Fetch through the on-disk cache.
+ *
+ * - Fresh entries are returned without a request
+ * - Expired entries are revalidated with ETag / Last-Modified
+ * - On network failure (or offline) the expired entry is returned marked stale
+ * - Returns null when offline and nothing is cached
+ */
+export async function cachedFetch<T>(
+  namespace: string,
+  key: string,
+  ttlMs: number,
+  fetcher: (validators: { etag?: string; lastModified?: string }) => Promise<FetchOutcome<T>>
+): Promise<CachedValue<T> | null> {
+  const entry = await readEntry<T>(namespace, key);
+  const now = Date.now();
+
+  if (entry && now - entry.fetchedAt < entry.ttlMs) {
+    return { data: entry.data, cache: { fetchedAt: entry.fetchedAt, stale: false } };
+  }
+
+  if (isOffline()) {
+    return entry ? { data: entry.data, cache: { fetchedAt: entry.fetchedAt, stale: true } } : null;
+  }
+
+  try {
+    const outcome = await fetcher({ etag: entry?.etag, lastModified: entry?.lastModified });
+
+    if (outcome.notModified) {
+      if (!entry) throw new Error(`Not modified but nothing cached: ${key}`);
+      await writeEntry(namespace, { ...entry, fetchedAt: now });
+      return { data: entry.data };
+    }
+
+    await writeEntry(namespace, {
+      key,
+      fetchedAt: now,
+      ttlMs: outcome.ttlMs ?? ttlMs,
+      etag: outcome.etag,
+      lastModified: outcome.lastModified,
+      data: outcome.data,
+    });
+
+    return { data: outcome.data };
+  } catch (error) {
+    if (entry) {
+      return { data: entry.data, cache: { fetchedAt: entry.fetchedAt, stale: true } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Human description of a cache entry's age ("3h ago")
+ */
+export function describeAge(fetchedAt: number): string {
+  const minutes = Math.round((Date.now() - fetchedAt) / 60_000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (24 * 60))}d ago`;
+}
+
+function entryPath(namespace: string, key: string): string {
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+  return join(cacheDir(), namespace, `${hash}.json`);
+}
+
+async function readEntry<T>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const entry = JSON.parse(await readFile(entryPath(namespace, key), "utf-8"));
+    // Guard against hash collisions and truncated writes
+    return entry?.key === key && typeof entry.fetchedAt === "number" ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeEntry<T>(namespace: string, entry: CacheEntry<T>): Promise<void> {
+  const path = entryPath(namespace, entry.key);
+
+  try {
+    await mkdir(join(cacheDir(), namespace), { recursive: true });
+    // Write then rename so concurrent hooks never read a partial file
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry));
+    await rename(tmp, path);
+  } catch {
+    // Cache is best-effort
+  }
+}
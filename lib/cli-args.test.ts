@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { flagValue, hasFlag, parseCliArgs } from "./cli-args.js";
+
+const parse = (program: string, ...args: string[]) => parseCliArgs({ program, args, wrappers: [] });
+
+test("splits subcommand groups, flags and positionals", () => {
+  const args = parse("argocd", "--server", "argo.example.com", "app", "sync", "web", "--prune");
+
+  expect(args.subcommand).toEqual(["app", "sync"]);
+  expect(args.positionals).toEqual(["web"]);
+  expect(flagValue(args, "--server")).toBe("argo.example.com");
+  expect(hasFlag(args, "--prune")).toBe(true);
+});
+
+test("splits nested subcommand groups", () => {
+  const args = parse("omnictl", "cluster", "template", "sync", "-f", "cluster.yaml");
+
+  expect(args.subcommand).toEqual(["cluster", "template", "sync"]);
+  expect(parse("omnictl", "cluster", "delete", "prod").subcommand).toEqual(["cluster", "delete"]);
+});
+
+test("reads --flag=value, attached short values and aliases", () => {
+  const args = parse("talosctl", "-n10.0.0.1", "upgrade", "--image=ghcr.io/siderolabs/installer:v1.10.3");
+
+  expect(args.subcommand).toEqual(["upgrade"]);
+  expect(flagValue(args, "--nodes", "-n")).toBe("10.0.0.1");
+  expect(flagValue(args, "--image")).toBe("ghcr.io/siderolabs/installer:v1.10.3");
+});
+
+test("treats everything after -- as positionals", () => {
+  expect(parse("git", "checkout", "--", "-weird-file").positionals).toEqual(["-weird-file"]);
+});
+
+test("treats unknown programs' flags as booleans", () => {
+  const args = parse("foo", "-x", "bar");
+  expect(args.flags.get("-x")).toBe(true);
+  expect(args.subcommand).toEqual(["bar"]);
+});
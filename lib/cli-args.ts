@@ -0,0 +1,154 @@
+import type { Invocation } from "./shell-parser.js";
+
+/**
+ * An invocation's arguments split into subcommand path, flags and positionals
+ */
+export interface CliArgs {
+  // e.g. ["app", "sync"] for `argocd app sync foo`
+  subcommand: string[];
+  // Remaining non-flag arguments
+  positionals: string[];
+  // Flag name (with dashes) -> value, or true for boolean flags
+  flags: Map<string, string | true>;
+}
+
+interface ProgramSpec {
+  // Flags (global or per-subcommand) that consume the next argument
+  valueFlags: string[];
+  // Subcommands that take a further subcommand (`helm show values`,
+  // `omnictl cluster template sync`)
+  groups: string[];
+}
+
+const PROGRAMS: Record<string, ProgramSpec> = {
+  kubectl: {
+    valueFlags: [
+      "-n", "--namespace", "--context", "--cluster", "--kubeconfig", "--user", "-s", "--server",
+      "--token", "--as", "--as-group", "-l", "--selector", "-o", "--output", "-f", "--filename",
+      "-c", "--container", "--field-selector", "--request-timeout", "-k", "--kustomize",
+    ],
+    groups: ["config", "rollout", "auth", "certificate", "set", "create", "top", "apply"],
+  },
+  helm: {
+    valueFlags: [
+      "--kube-context", "--kubeconfig", "-n", "--namespace", "--registry-config",
+      "--repository-cache", "--repository-config", "--burst-limit", "--kube-apiserver",
+      "--kube-as-group", "--kube-as-user", "--kube-ca-file", "--kube-tls-server-name",
+      "--kube-token", "--qps", "-f", "--values", "--set", "--set-string", "--set-file",
+      "--set-json", "--set-literal", "--version", "--repo", "--post-renderer",
+      "--post-renderer-args", "-a", "--api-versions", "--kube-version", "-o", "--output",
+      "--output-dir", "-s", "--show-only", "--timeout", "--description", "--username",
+      "--password", "--ca-file", "--cert-file", "--key-file", "--keyring", "--release-name",
+    ],
+    groups: ["show", "repo", "registry", "plugin", "dependency", "get", "search", "inspect"],
+  },
+  argocd: {
+    valueFlags: [
+      "--server", "--auth-token", "--config", "--grpc-web-root-path", "-H", "--header",
+      "--kube-context", "--logformat", "--loglevel", "--port-forward-namespace",
+      "--argocd-context", "--client-crt", "--client-crt-key", "--server-crt",
+      "--redis-haproxy-name", "--redis-name", "--repo-server-name", "--server-name",
+      "-o", "--output", "--revision", "--resource", "--local", "--local-repo-root",
+      "--timeout", "--health-check", "-l", "--selector", "-N", "--app-namespace",
+      "--project", "-p", "--parameter", "--values", "--dest-server", "--dest-namespace",
+    ],
+    groups: [
+      "app", "appset", "cluster", "proj", "repo", "repocreds", "account", "cert", "gpg",
+      "context", "admin",
+    ],
+  },
+  git: {
+    valueFlags: ["-C", "-c", "--git-dir", "--work-tree", "--namespace", "-m", "--message", "-o", "--push-option"],
+    groups: ["stash", "remote", "submodule", "worktree", "notes", "bisect"],
+  },
+  talosctl: {
+    valueFlags: [
+      "-n", "--nodes", "-e", "--endpoints", "--context", "--talosconfig", "--cluster",
+      "-f", "--file", "-p", "--patch", "--patch-file", "-m", "--mode", "--image",
+      "--timeout", "--wait-timeout", "-k", "--kubernetes", "--to", "--from",
+      "--config-patch", "--config-patch-control-plane", "--config-patch-worker",
+      "--reboot-mode", "--system-labels-to-wipe", "--user-disks-to-wipe",
+    ],
+    groups: ["etcd", "cluster", "image", "config", "meta", "wipe", "inject", "cgroups"],
+  },
+  omnictl: {
+    valueFlags: [
+      "--omniconfig", "--context", "-c", "--cluster", "-n", "--namespace", "-o", "--output",
+      "-f", "--file", "--selector", "-l", "--id", "--role", "--ttl",
+    ],
+    groups: [
+      "cluster", "cluster template", "cluster kubernetes", "cluster machine", "config",
+      "serviceaccount", "user", "download", "kubeconfig", "talosconfig",
+    ],
+  },
+};
+
+/**
+ * Split an invocation's arguments using what we know about the program.
+ * Unknown programs are split with every flag treated as boolean.
+ */
+export function parseCliArgs(invocation: Invocation): CliArgs {
+  const spec = PROGRAMS[invocation.program] ?? { valueFlags: [], groups: [] };
+  const flags = new Map<string, string | true>();
+  const positionals: string[] = [];
+  const args = invocation.args;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--") {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith("--") && arg.includes("=")) {
+      const eq = arg.indexOf("=");
+      flags.set(arg.slice(0, eq), arg.slice(eq + 1));
+      continue;
+    }
+
+    if (arg.startsWith("-") && arg.length > 1) {
+      if (spec.valueFlags.includes(arg) && i + 1 < args.length) {
+        flags.set(arg, args[i + 1]);
+        i++;
+      } else if (/^-[a-zA-Z]./.test(arg) && spec.valueFlags.includes(arg.slice(0, 2))) {
+        // Attached short value: -nkube-system
+        flags.set(arg.slice(0, 2), arg.slice(2));
+      } else {
+        flags.set(arg, true);
+      }
+      continue;
+    }
+
+    positionals.push(arg);
+  }
+
+  // Subcommand: first positional, plus the next one for each command group
+  const subcommand: string[] = [];
+  while (
+    positionals.length > 0 &&
+    (subcommand.length === 0 || spec.groups.includes(subcommand.join(" ")))
+  ) {
+    subcommand.push(positionals.shift()!);
+  }
+
+  return { subcommand, positionals, flags };
+}
+
+/**
+ * Value of the first flag present among aliases (e.g. "-n", "--nodes")
+ */
+export function flagValue(args: CliArgs, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = args.flags.get(name);
+    if (typeof value === "string") return value;
+  }
+  return undefined;
+}
+
+/**
+ * Check if any of the flags is present (with or without a value)
+ */
+export function hasFlag(args: CliArgs, ...names: string[]): boolean {
+  return names.some((name) => args.flags.has(name));
+}
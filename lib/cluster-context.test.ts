@@ -0,0 +1,194 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  appsForFiles,
+  detectClusterContext,
+  invalidateCache,
+  isControlPlaneOnly,
+  resolveClusterForCommand,
+  resolveClusterForFile,
+} from "./cluster-context.js";
+import { extractInvocations } from "./shell-parser.js";
+import type { ClusterContext } from "./types.js";
+
+// Fixture repo: two clusters, a shared app deployed to staging by
+// destination and a per-cluster app
+let repo: string;
+let context: ClusterContext;
+
+const application = (name: string, destination: string) => `apiVersion: argoproj.io/v1alpha1
+kind: Application
+metadata:
+  name: ${name}
+spec:
+  destination:
+    ${destination}
+    namespace: ${name}
+  source:
+    repoURL: https://charts.example.com
+    chart: ${name}
+    targetRevision: 1.0.0
+`;
+
+const patch = (type: string, address: string) =>
+  `machine:\n  type: ${type}\n  network:\n    interfaces:\n      - addresses: [${address}/24]\n`;
+
+const files: Record<string, string> = {
+  "omniconfig.yaml": "context:\n  url: https://omni.example.com\n  cluster: prod\n",
+  "clusters/prod/patches/cp1.yaml": patch("controlplane", "10.0.0.1"),
+  "clusters/prod/patches/w1.yaml": patch("worker", "10.0.0.11"),
+  "clusters/staging/patches/s1.yaml": patch("controlplane", "10.1.0.1"),
+  "clusters/staging/patches/s2.yaml": patch("worker", "10.1.0.2"),
+  "clusters/staging/cluster.yaml": `kind: Cluster
+name: staging
+talos: { version: v1.10.3 }
+kubernetes: { version: v1.33.1 }
+---
+kind: ControlPlane
+machines: [machine-s2]
+---
+kind: Machine
+name: machine-s2
+patches:
+  - file: patches/s2.yaml
+`,
+  "apps/web/application.yaml": application("web", "name: staging"),
+  "apps/web/values.yaml": "tolerations: []\n",
+  "apps/web/manifests/namespace.yaml":
+    "apiVersion: v1\nkind: Namespace\nmetadata:\n  name: web\n  labels:\n    pod-security.kubernetes.io/enforce: privileged\n",
+  "clusters/prod/apps/db/application.yaml": application("db", "server: https://kubernetes.default.svc"),
+  "clusters/prod/apps/db/values.yaml": "replicas: 1\n",
+  // Values in a directory shared with other apps' files
+  "clusters/prod/apps/api/application.yaml": `apiVersion: argoproj.io/v1alpha1
+kind: Application
+metadata:
+  name: api
+spec:
+  destination:
+    server: https://kubernetes.default.svc
+    namespace: api
+  sources:
+    - repoURL: https://charts.example.com
+      chart: api
+      targetRevision: 1.0.0
+      helm:
+        valueFiles: [$values/values/api.yaml]
+    - ref: values
+`,
+  "values/api.yaml": "replicas: 2\n",
+  "values/other.yaml": "replicas: 3\n",
+};
+
+beforeAll(async () => {
+  repo = await mkdtemp(join(tmpdir(), "cluster-context-test-"));
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(repo, path)), { recursive: true });
+    await writeFile(join(repo, path), content);
+  }
+
+  invalidateCache();
+  const detected = await detectClusterContext(join(repo, "apps"));
+  if (!detected) throw new Error(`No GitOps repo detected at ${repo}`);
+  context = detected;
+});
+
+afterAll(async () => {
+  invalidateCache();
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe("detectClusterContext", () => {
+  test("defaults to omniconfig's cluster and finds every cluster's nodes", () => {
+    expect(context.name).toBe("prod");
+    expect(context.repoRoot).toBe(repo);
+    expect(context.omniEndpoint).toBe("https://omni.example.com");
+    expect(context.nodes.map((n) => [n.name, n.ip, n.role])).toEqual([
+      ["cp1", "10.0.0.1", "control-plane"],
+      ["w1", "10.0.0.11", "worker"],
+    ]);
+    expect(context.clusters.get("staging")?.nodes.map((n) => n.name)).toEqual(["s1", "s2"]);
+  });
+
+  test("takes roles and machine IDs from the cluster template", () => {
+    const s2 = context.clusters.get("staging")?.nodes.find((n) => n.name === "s2");
+    expect(s2).toMatchObject({ role: "control-plane", machine: "machine-s2" });
+    expect(context.clusters.get("staging")?.template?.name).toBe("staging");
+  });
+
+  test("assigns apps by destination and by directory", () => {
+    const web = context.clusters.get("staging")?.apps.get("web");
+    expect(web).toMatchObject({ cluster: "staging", psaLevel: "privileged", hasTolerations: true });
+    expect(context.apps.get("db")?.cluster).toBe("prod");
+  });
+
+  test("caches per repo root", async () => {
+    const other = await mkdtemp(join(tmpdir(), "cluster-context-test-"));
+    try {
+      await writeFile(join(other, "omniconfig.yaml"), "context:\n  cluster: lab\n");
+
+      expect((await detectClusterContext(other))?.name).toBe("lab");
+      expect(await detectClusterContext(join(repo, "apps"))).toBe(context);
+    } finally {
+      await rm(other, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("resolveClusterForFile", () => {
+  test("resolves by cluster directory and by app directory", () => {
+    expect(resolveClusterForFile(context, join(repo, "clusters/staging/patches/s1.yaml")).name).toBe(
+      "staging"
+    );
+    expect(resolveClusterForFile(context, join(repo, "apps/web/values.yaml")).name).toBe("staging");
+    expect(resolveClusterForFile(context, join(repo, "README.md")).name).toBe("prod");
+  });
+});
+
+describe("appsForFiles", () => {
+  test("maps changed files to the apps owning them", () => {
+    const names = (files: string[]) =>
+      appsForFiles(context, files.map((f) => join(repo, f))).map((a) => a.name);
+
+    expect(names(["apps/web/values.yaml", "clusters/prod/apps/db/values.yaml"]).sort()).toEqual([
+      "db",
+      "web",
+    ]);
+    expect(names(["apps/web/templates/deployment.yaml"])).toEqual(["web"]);
+    expect(names(["README.md"])).toEqual([]);
+  });
+
+  test("matches value files exactly, not their directory", () => {
+    const names = (files: string[]) =>
+      appsForFiles(context, files.map((f) => join(repo, f))).map((a) => a.name);
+
+    expect(names(["values/api.yaml"])).toEqual(["api"]);
+    expect(names(["values/other.yaml"])).toEqual([]);
+  });
+});
+
+describe("resolveClusterForCommand", () => {
+  const resolve = (command: string) =>
+    resolveClusterForCommand(context, extractInvocations(command)[0]).name;
+
+  test("resolves by flag, node, cluster name and app", () => {
+    expect(resolve("omnictl --cluster staging get machines")).toBe("staging");
+    expect(resolve("talosctl --context omni-staging get members")).toBe("staging");
+    expect(resolve("talosctl -n 10.1.0.1 reboot")).toBe("staging");
+    expect(resolve("omnictl cluster delete staging")).toBe("staging");
+    expect(resolve("argocd app sync web")).toBe("staging");
+    expect(resolve("talosctl -n 10.9.9.9 reboot")).toBe("prod");
+  });
+});
+
+describe("isControlPlaneOnly", () => {
+  test("is true without workers", () => {
+    expect(isControlPlaneOnly({ nodes: context.clusters.get("staging")?.nodes ?? [] })).toBe(true);
+    expect(isControlPlaneOnly(context)).toBe(false);
+  });
+
+  test("is false without known nodes", () => {
+    expect(isControlPlaneOnly({ nodes: [] })).toBe(false);
+  });
+});
@@ -1,13 +1,46 @@
 import { readdir, readFile, stat } from "node:fs/promises";
-import { join, dirname } from "node:path";
-import { parse as parseYaml } from "yaml";
-import type { ClusterContext, AppDefinition, Node } from "./types.js";
-
-// Cache for cluster context
-let cachedContext: ClusterContext | null = null;
-let cacheTime = 0;
+import { join, dirname, isAbsolute, relative } from "node:path";
+import { parseAllDocuments, parse as parseYaml } from "yaml";
+import {
+  applicationSources,
+  expandApplicationSet,
+  isThisRepo,
+  repoRemoteUrls,
+  resolveHelmValues,
+  type GeneratorContext,
+} from "./argo-application.js";
+import { flagValue, parseCliArgs } from "./cli-args.js";
+import { loadKustomization } from "./kustomize.js";
+import { isClusterTemplate, machineRole, parseClusterTemplate } from "./omni-template.js";
+import type { Invocation } from "./shell-parser.js";
+import {
+  parseTalosPatch,
+  patchesToNodes,
+  type PatchInfo,
+  type UnattributedPatch,
+} from "./talos-patch.js";
+import type {
+  ClusterContext,
+  AppDefinition,
+  Cluster,
+  ClusterTemplate,
+  Node,
+  PsaLevel,
+} from "./types.js";
+
+// Cache for cluster context, by repo root
+const contextCache = new Map<string, { context: ClusterContext; time: number }>();
 const CACHE_TTL = 30_000; // 30 seconds
 
+// The Application fields parseApplication reads besides its sources
+interface ApplicationDoc {
+  metadata?: { name?: string };
+  spec?: {
+    destination?: { name?: string; server?: string; namespace?: string };
+    ignoreDifferences?: unknown[];
+  };
+}
+
 /**
  * Find the GitOps repo root by looking for markers
  */
@@ -42,70 +75,180 @@ export async function isGitOpsRepo(path: string): Promise<boolean> {
 }
 
 /**
- * Parse ArgoCD Application manifest
+ * Parse an application file: Applications and the Applications that
+ * ApplicationSets generate
  */
-async function parseApplication(filePath: string): Promise<AppDefinition | null> {
+async function parseApplicationFile(
+  filePath: string,
+  generatorContext: GeneratorContext
+): Promise<AppDefinition[]> {
+  const apps: AppDefinition[] = [];
+
   try {
     const content = await readFile(filePath, "utf-8");
-    const doc = parseYaml(content);
 
-    if (doc?.kind !== "Application") return null;
+    for (const document of parseAllDocuments(content)) {
+      if (!("contents" in document) || document.errors.length > 0) continue;
+      const doc = document.toJS();
+
+      if (doc?.kind === "Application") {
+        const app = await parseApplication(doc, filePath, generatorContext);
+        if (app) apps.push(app);
+      } else if (doc?.kind === "ApplicationSet") {
+        for (const generated of await expandApplicationSet(doc, generatorContext)) {
+          const app = await parseApplication(generated.application, filePath, generatorContext);
+          if (!app) continue;
+
+          app.applicationSet = doc.metadata?.name;
+          if (generated.cluster) app.cluster = generated.cluster;
+          apps.push(app);
+        }
+      }
+    }
+  } catch {
+    // Unreadable file
+  }
 
-    const spec = doc.spec;
-    const sources = spec?.sources || (spec?.source ? [spec.source] : []);
+  return apps;
+}
 
-    // Find helm source
-    const helmSource = sources.find(
-      (s: Record<string, unknown>) => s.chart || (typeof s.repoURL === "string" && s.repoURL.includes("helm"))
-    );
+/**
+ * Parse an ArgoCD Application (Helm or Kustomize); the cluster comes from its destination
+ */
+async function parseApplication(
+  doc: Record<string, unknown>,
+  filePath: string,
+  generatorContext: GeneratorContext
+): Promise<AppDefinition | null> {
+  const { repoRoot, repoUrls, clusterNames, defaultCluster } = generatorContext;
+  const { metadata, spec } = doc as ApplicationDoc;
+  const sources = applicationSources(spec);
+
+  const name = metadata?.name || "";
+  const namespace = spec?.destination?.namespace || "default";
+  const common = {
+    name,
+    namespace,
+    cluster: destinationCluster(spec?.destination, clusterNames) ?? defaultCluster,
+    applicationPath: filePath,
+    hasTolerations: false, // Will be updated when values.yaml is parsed
+    psaLevel: null,
+    ignoreDifferences: !!spec?.ignoreDifferences?.length,
+  };
 
-    if (!helmSource) return null;
+  // Find helm source
+  const helmSource = sources.find(
+    (s) => s.chart || (typeof s.repoURL === "string" && s.repoURL.includes("helm"))
+  );
+
+  if (!helmSource) return parseKustomizeApplication(sources, common, repoRoot);
+
+  // Value files as helm gets them; without any, values.yaml next to the
+  // Application (or in the git source's path) by convention
+  const values = resolveHelmValues(sources, helmSource, repoRoot, repoUrls);
+  const gitSource = sources.find((s) => typeof s.path === "string");
+  const valuesPath =
+    values.files[values.files.length - 1] ??
+    (gitSource
+      ? join(repoRoot, gitSource.path as string, "values.yaml")
+      : join(dirname(filePath), "values.yaml"));
+  // A chart (or values directory) in this repo
+  const sourcePath =
+    gitSource && isThisRepo(gitSource, repoUrls) ? join(repoRoot, gitSource.path as string) : undefined;
+
+  return {
+    ...common,
+    chart: {
+      repo: (helmSource.repoURL as string) || "",
+      name: (helmSource.chart as string) || "",
+      version: (helmSource.targetRevision as string) || "latest",
+    },
+    sourcePath,
+    valuesPath,
+    valueFiles: values.files.length > 0 ? values.files : [valuesPath],
+    inlineValues: values.inline,
+  };
+}
 
-    const name = doc.metadata?.name || "";
-    const namespace = spec?.destination?.namespace || "default";
+/**
+ * An Application whose git source path holds a kustomization. Its values
+ * are those of the charts the kustomization inflates.
+ */
+async function parseKustomizeApplication(
+  sources: Record<string, unknown>[],
+  common: Omit<AppDefinition, "chart" | "valuesPath" | "valueFiles" | "inlineValues">,
+  repoRoot: string
+): Promise<AppDefinition | null> {
+  const gitSource = sources.find((s) => typeof s.path === "string");
+  if (!gitSource) return null;
+
+  const kustomize = await loadKustomization(join(repoRoot, gitSource.path as string));
+  if (!kustomize) return null;
+
+  const valueFiles = kustomize.helmCharts
+    .map((c) => c.valuesFile)
+    .filter((f): f is string => f !== undefined);
+
+  return {
+    ...common,
+    chart: null,
+    kustomize,
+    sourcePath: dirname(kustomize.path),
+    valuesPath: valueFiles[valueFiles.length - 1] ?? join(dirname(kustomize.path), "values.yaml"),
+    valueFiles,
+    // Inline values only describe the app when it inflates a single chart
+    inlineValues: kustomize.helmCharts.length === 1 ? kustomize.helmCharts[0].valuesInline : null,
+  };
+}
 
-    // Find values file path
-    const gitSource = sources.find((s: Record<string, unknown>) => s.path);
-    const valuesPath = gitSource?.path
-      ? join(dirname(filePath), "..", gitSource.path as string, "values.yaml")
-      : join(dirname(filePath), "values.yaml");
+/**
+ * Cluster an Argo destination points at: by name, or by a cluster name in
+ * the server's hostname. null for in-cluster and unknown destinations.
+ */
+function destinationCluster(
+  destination: { name?: string; server?: string } | undefined,
+  clusterNames: string[]
+): string | null {
+  if (destination?.name && clusterNames.includes(destination.name)) {
+    return destination.name;
+  }
 
-    return {
-      name,
-      namespace,
-      chart: {
-        repo: (helmSource.repoURL as string) || "",
-        name: (helmSource.chart as string) || "",
-        version: (helmSource.targetRevision as string) || "latest",
-      },
-      valuesPath,
-      hasTolerations: false, // Will be updated when values.yaml is parsed
-      psaLevel: null,
-      ignoreDifferences: !!spec?.ignoreDifferences?.length,
-    };
-  } catch {
-    return null;
+  if (destination?.server) {
+    try {
+      const labels = new URL(destination.server).hostname.split(/[.-]/);
+      return clusterNames.find((name) => labels.includes(name)) ?? null;
+    } catch {
+      return null;
+    }
   }
+
+  return null;
 }
 
 /**
- * Check values.yaml for tolerations
+ * Check the app's values (files and inline) for tolerations
  */
-async function checkTolerations(valuesPath: string): Promise<boolean> {
-  try {
-    const content = await readFile(valuesPath, "utf-8");
-    return content.includes("tolerations:");
-  } catch {
-    return false;
+async function checkTolerations(app: AppDefinition): Promise<boolean> {
+  if (app.inlineValues && JSON.stringify(app.inlineValues).includes('"tolerations"')) {
+    return true;
+  }
+
+  for (const valuesPath of app.valueFiles) {
+    try {
+      const content = await readFile(valuesPath, "utf-8");
+      if (content.includes("tolerations:")) return true;
+    } catch {
+      // Missing value file
+    }
   }
+
+  return false;
 }
 
 /**
  * Parse namespace manifest for PSA labels
  */
-async function parsePsaLevel(
-  manifestsPath: string
-): Promise<"privileged" | "baseline" | "restricted" | null> {
+async function parsePsaLevel(manifestsPath: string): Promise<PsaLevel | null> {
   try {
     const files = await readdir(manifestsPath);
     const nsFile = files.find((f) => f.includes("namespace"));
@@ -148,128 +291,269 @@ async function parseOmniConfig(
 }
 
 /**
- * Scan clusters directory for node info
+ * Cluster directories under clusters/
  */
-async function scanNodes(repoRoot: string): Promise<Node[]> {
-  const nodes: Node[] = [];
+async function listClusterDirs(repoRoot: string): Promise<string[]> {
   const clustersDir = join(repoRoot, "clusters");
+  const names: string[] = [];
 
   try {
-    const clusters = await readdir(clustersDir);
-
-    for (const cluster of clusters) {
-      const patchesDir = join(clustersDir, cluster, "patches");
+    for (const entry of await readdir(clustersDir)) {
+      if ((await stat(join(clustersDir, entry))).isDirectory()) {
+        names.push(entry);
+      }
+    }
+  } catch {
+    // No clusters dir
+  }
 
-      try {
-        const patches = await readdir(patchesDir);
+  return names;
+}
 
-        for (const patch of patches) {
-          if (!patch.endsWith(".yaml")) continue;
+/**
+ * Omni cluster templates among the top-level YAML files of the repo root
+ * (keyed by their cluster name) and of clusters/<name>/ (keyed by directory)
+ */
+async function scanTemplates(
+  repoRoot: string,
+  clusterDirs: string[]
+): Promise<Map<string, ClusterTemplate>> {
+  const templates = new Map<string, ClusterTemplate>();
+  const dirs: Array<[string, string | null]> = [
+    [repoRoot, null],
+    ...clusterDirs.map((name): [string, string] => [join(repoRoot, "clusters", name), name]),
+  ];
+
+  for (const [dir, cluster] of dirs) {
+    let files: string[];
+    try {
+      files = (await readdir(dir)).sort();
+    } catch {
+      continue;
+    }
 
-          const content = await readFile(join(patchesDir, patch), "utf-8");
+    for (const entry of files) {
+      if (!/\.ya?ml$/.test(entry) || entry === "omniconfig.yaml") continue;
 
-          // Look for node IP patterns in patches
-          const ipMatch = content.match(/(\d+\.\d+\.\d+\.\d+)/);
-          const nameMatch = patch.match(/^([^-]+)/);
+      const file = join(dir, entry);
+      try {
+        const content = await readFile(file, "utf-8");
+        if (!isClusterTemplate(content)) continue;
 
-          if (ipMatch && nameMatch) {
-            nodes.push({
-              name: nameMatch[1],
-              ip: ipMatch[1],
-              role: content.includes("control-plane") ? "control-plane" : "worker",
-            });
-          }
-        }
+        const { template } = parseClusterTemplate(content, file);
+        const name = cluster ?? template.name;
+        if (name && !templates.has(name)) templates.set(name, template);
       } catch {
-        // No patches dir
+        // Directory or unreadable file
       }
     }
-  } catch {
-    // No clusters dir
   }
 
-  return nodes;
+  return templates;
 }
 
 /**
- * Detect cluster context from GitOps repo structure
+ * Parse a cluster's Talos patches into nodes: clusters/<name>/patches/ and
+ * the patch files its template references
  */
-export async function detectClusterContext(
-  cwd: string = process.cwd()
-): Promise<ClusterContext | null> {
-  // Check cache
-  if (cachedContext && Date.now() - cacheTime < CACHE_TTL) {
-    return cachedContext;
+async function scanNodes(
+  repoRoot: string,
+  cluster: string,
+  template: ClusterTemplate | undefined
+): Promise<{ nodes: Node[]; unattributed: UnattributedPatch[] }> {
+  const patchesDir = join(repoRoot, "clusters", cluster, "patches");
+  const files: string[] = [];
+
+  try {
+    for (const patch of (await readdir(patchesDir)).sort()) {
+      if (!patch.endsWith(".yaml") && !patch.endsWith(".yml")) continue;
+      files.push(join(patchesDir, patch));
+    }
+  } catch {
+    // No patches dir
   }
 
-  const repoRoot = await findRepoRoot(cwd);
-  if (!repoRoot) return null;
+  for (const file of templatePatchFiles(template)) {
+    if (!files.includes(file)) files.push(file);
+  }
 
-  const omniConfig = await parseOmniConfig(repoRoot);
-  const nodes = await scanNodes(repoRoot);
+  const patches: PatchInfo[] = [];
+  for (const file of files) {
+    try {
+      patches.push(parseTalosPatch(await readFile(file, "utf-8"), file));
+    } catch {
+      // Template references a missing file; template validation reports it
+    }
+  }
 
-  // Scan apps directory
-  const apps = new Map<string, AppDefinition>();
-  const appsDir = join(repoRoot, "apps");
+  const result = patchesToNodes(patches);
+  if (template) applyTemplate(result.nodes, template);
+  return result;
+}
 
-  try {
-    const appDirs = await readdir(appsDir);
+/**
+ * Tie nodes to the machines whose patches configure them; Omni assigns
+ * roles through machine sets, so the set wins over patch hints
+ */
+function applyTemplate(nodes: Node[], template: ClusterTemplate): void {
+  for (const machine of template.machines) {
+    const files = machine.patches.map((p) => p.file).filter(Boolean);
+    const node = nodes.find((n) => n.patches.some((p) => files.includes(p)));
+    if (!node) continue;
+
+    node.machine = machine.id;
+    node.role = machineRole(template, machine.id) ?? node.role;
+    node.installDisk ??= machine.installDisk;
+  }
+}
 
-    for (const appName of appDirs) {
-      const appPath = join(appsDir, appName);
-      const appStat = await stat(appPath);
+function templatePatchFiles(template: ClusterTemplate | undefined): string[] {
+  if (!template) return [];
 
-      if (!appStat.isDirectory()) continue;
+  return [
+    ...template.patches,
+    ...template.machineSets.flatMap((s) => s.patches),
+    ...template.machines.flatMap((m) => m.patches),
+  ]
+    .map((p) => p.file)
+    .filter((file): file is string => file !== undefined);
+}
 
-      // Look for application.yaml
-      const appFiles = await readdir(appPath);
-      const appFile = appFiles.find((f) => f.includes("application"));
+/**
+ * Scan an apps directory. Apps go to their Argo destination's cluster unless
+ * the directory belongs to one cluster (clusters/<name>/apps, apps/<name>/).
+ */
+async function scanApps(
+  appsDir: string,
+  clusters: Map<string, Cluster>,
+  generatorContext: GeneratorContext,
+  fixedCluster: string | null
+): Promise<void> {
+  let appDirs: string[];
+  try {
+    appDirs = await readdir(appsDir);
+  } catch {
+    // No apps dir
+    return;
+  }
 
-      if (appFile) {
-        const appDef = await parseApplication(join(appPath, appFile));
+  for (const appName of appDirs) {
+    const appPath = join(appsDir, appName);
+    const appStat = await stat(appPath);
 
-        if (appDef) {
-          // Check for tolerations
-          appDef.hasTolerations = await checkTolerations(appDef.valuesPath);
+    if (!appStat.isDirectory()) continue;
 
-          // Check for PSA level
-          const manifestsPath = join(appPath, "manifests");
-          appDef.psaLevel = await parsePsaLevel(manifestsPath);
+    // Look for application.yaml / applicationset.yaml
+    const appFiles = (await readdir(appPath)).filter((f) => f.includes("application"));
 
-          apps.set(appName, appDef);
-        }
+    if (appFiles.length === 0) {
+      // apps/<cluster>/<app> layout
+      if (!fixedCluster && clusters.has(appName)) {
+        await scanApps(appPath, clusters, generatorContext, appName);
       }
+      continue;
+    }
+
+    const appDefs: AppDefinition[] = [];
+    for (const appFile of appFiles) {
+      appDefs.push(...(await parseApplicationFile(join(appPath, appFile), generatorContext)));
+    }
+
+    // Check for PSA level
+    const psaLevel = await parsePsaLevel(join(appPath, "manifests"));
+
+    for (const appDef of appDefs) {
+      if (fixedCluster) appDef.cluster = fixedCluster;
+
+      // Check for tolerations
+      appDef.hasTolerations = await checkTolerations(appDef);
+      appDef.psaLevel = psaLevel;
+
+      // A lone Application is known by its directory, generated ones by name
+      const key = appDefs.length === 1 && !appDef.applicationSet ? appName : appDef.name;
+      clusters.get(appDef.cluster)?.apps.set(key, appDef);
     }
-  } catch {
-    // No apps dir
   }
+}
 
-  // Try to detect domain from cloudflared config
-  let domain: string | undefined;
-  const cloudflaredValues = join(appsDir, "cloudflared", "values.yaml");
+/**
+ * Try to detect domain from the cluster's cloudflared config
+ */
+async function detectDomain(cluster: Cluster): Promise<string | undefined> {
+  const cloudflared = cluster.apps.get("cloudflared");
+  if (!cloudflared) return undefined;
 
   try {
-    const content = await readFile(cloudflaredValues, "utf-8");
+    const content = await readFile(cloudflared.valuesPath, "utf-8");
     const domainMatch = content.match(/hostname:\s*[\w-]+\.([\w.-]+)/);
-    if (domainMatch) {
-      domain = domainMatch[1];
-    }
+    return domainMatch?.[1];
   } catch {
     // No cloudflared config
+    return undefined;
+  }
+}
+
+/**
+ * Detect cluster context from GitOps repo structure
+ */
+export async function detectClusterContext(
+  cwd: string = process.cwd()
+): Promise<ClusterContext | null> {
+  const repoRoot = await findRepoRoot(cwd);
+  if (!repoRoot) return null;
+
+  // Check cache
+  const cached = contextCache.get(repoRoot);
+  if (cached && Date.now() - cached.time < CACHE_TTL) {
+    return cached.context;
+  }
+
+  const omniConfig = await parseOmniConfig(repoRoot);
+  const clusterDirs = await listClusterDirs(repoRoot);
+
+  const templates = await scanTemplates(repoRoot, clusterDirs);
+
+  // omniconfig's cluster is the default; a lone clusters/ dir or template is too
+  const defaultCluster =
+    omniConfig.clusterName || clusterDirs[0] || [...templates.keys()][0] || "unknown";
+
+  const clusters = new Map<string, Cluster>();
+  for (const name of [defaultCluster, ...clusterDirs, ...templates.keys()]) {
+    if (clusters.has(name)) continue;
+    const template = templates.get(name);
+    const { nodes, unattributed } = await scanNodes(repoRoot, name, template);
+    clusters.set(name, {
+      name,
+      nodes,
+      unattributedPatches: unattributed,
+      apps: new Map(),
+      template,
+    });
   }
 
-  const context: ClusterContext = {
-    name: omniConfig.clusterName || "unknown",
-    omniEndpoint: omniConfig.endpoint,
-    nodes,
-    domain,
-    apps,
+  // Shared apps/ (by destination), then per-cluster app directories
+  const generatorContext = {
     repoRoot,
+    repoUrls: await repoRemoteUrls(repoRoot),
+    clusterNames: [...clusters.keys()],
+    defaultCluster,
   };
+  await scanApps(join(repoRoot, "apps"), clusters, generatorContext, null);
+  for (const name of clusterDirs) {
+    await scanApps(join(repoRoot, "clusters", name, "apps"), clusters, generatorContext, name);
+  }
+
+  for (const cluster of clusters.values()) {
+    cluster.domain = await detectDomain(cluster);
+  }
+
+  const context = clusterView(
+    { repoRoot, omniEndpoint: omniConfig.endpoint, clusters },
+    defaultCluster
+  );
 
   // Update cache
-  cachedContext = context;
-  cacheTime = Date.now();
+  contextCache.set(repoRoot, { context, time: Date.now() });
 
   return context;
 }
@@ -278,8 +562,144 @@ export async function detectClusterContext(
  * Invalidate the cache (call when files change)
  */
 export function invalidateCache(): void {
-  cachedContext = null;
-  cacheTime = 0;
+  contextCache.clear();
+}
+
+/**
+ * Context narrowed to one cluster (name, nodes, domain, apps)
+ */
+export function clusterView(
+  context: Pick<ClusterContext, "repoRoot" | "omniEndpoint" | "clusters">,
+  clusterName: string
+): ClusterContext {
+  const cluster: Cluster = context.clusters.get(clusterName) ?? {
+    name: clusterName,
+    nodes: [],
+    unattributedPatches: [],
+    apps: new Map<string, AppDefinition>(),
+  };
+
+  return {
+    name: cluster.name,
+    omniEndpoint: context.omniEndpoint,
+    nodes: cluster.nodes,
+    domain: cluster.domain,
+    apps: cluster.apps,
+    repoRoot: context.repoRoot,
+    clusters: context.clusters,
+  };
+}
+
+/**
+ * Every app of every cluster
+ */
+export function allApps(context: ClusterContext): AppDefinition[] {
+  return [...context.clusters.values()].flatMap((cluster) => [...cluster.apps.values()]);
+}
+
+/**
+ * Context for the cluster a file belongs to: clusters/<name>/..., or the
+ * cluster of the app whose directory holds the file
+ */
+export function resolveClusterForFile(context: ClusterContext, filePath: string): ClusterContext {
+  const clusterMatch = relative(context.repoRoot, filePath).match(/^clusters\/([^/]+)\//);
+  if (clusterMatch && context.clusters.has(clusterMatch[1])) {
+    return clusterView(context, clusterMatch[1]);
+  }
+
+  const app = resolveAppForFile(context, filePath);
+  return app ? clusterView(context, app.cluster) : context;
+}
+
+/**
+ * App whose directory, value files or source in this repo holds the file
+ */
+export function resolveAppForFile(
+  context: ClusterContext,
+  filePath: string
+): AppDefinition | undefined {
+  return allApps(context).find((a) => appOwnsFile(a, filePath));
+}
+
+/**
+ * Every app a set of changed files affects: shared value files and
+ * ApplicationSet files affect all the apps using them
+ */
+export function appsForFiles(context: ClusterContext, files: string[]): AppDefinition[] {
+  return allApps(context).filter((a) => files.some((f) => appOwnsFile(a, f)));
+}
+
+// Value files are matched exactly: their directory may hold other apps' files
+function appOwnsFile(app: AppDefinition, filePath: string): boolean {
+  return (
+    isInside(filePath, dirname(app.applicationPath)) ||
+    filePath === app.valuesPath ||
+    app.valueFiles.includes(filePath) ||
+    (app.sourcePath !== undefined && isInside(filePath, app.sourcePath))
+  );
+}
+
+/**
+ * Context for the cluster a command targets: a cluster/context flag naming
+ * it, a node it owns, or an app deployed to it
+ */
+export function resolveClusterForCommand(
+  context: ClusterContext,
+  invocation: Invocation
+): ClusterContext {
+  const args = parseCliArgs(invocation);
+  const known = (name: string | undefined) =>
+    name
+      ? [...context.clusters.keys()].find((c) => name === c || name.endsWith(`-${c}`))
+      : undefined;
+
+  // --cluster, or a kube/talos context named after the cluster (Omni: <instance>-<cluster>)
+  const byFlag = known(
+    flagValue(args, "--cluster", "--context", "--kube-context") ??
+      (invocation.program === "omnictl" ? flagValue(args, "-c") : undefined)
+  );
+  if (byFlag) return clusterView(context, byFlag);
+
+  // omnictl cluster <verb> <name>
+  if (invocation.program === "omnictl" && args.subcommand[0] === "cluster") {
+    const byName = known(args.positionals[0]);
+    if (byName) return clusterView(context, byName);
+  }
+
+  // talosctl -n/-e targets
+  if (invocation.program === "talosctl") {
+    const nodeFlag = flagValue(args, "-n", "--nodes") ?? flagValue(args, "-e", "--endpoints");
+    const targets = (nodeFlag ?? "")
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean);
+
+    const owner = [...context.clusters.values()].find((cluster) =>
+      cluster.nodes.some((n) => targets.includes(n.ip) || targets.includes(n.name))
+    );
+    if (owner) return clusterView(context, owner.name);
+  }
+
+  // argocd app <verb> <app>
+  if (invocation.program === "argocd" && args.subcommand[0] === "app") {
+    const app = allApps(context).find((a) => a.name === args.positionals[0]);
+    if (app) return clusterView(context, app.cluster);
+  }
+
+  return context;
+}
+
+/**
+ * Check if a cluster has only control-plane nodes, so every workload needs
+ * control-plane tolerations. False when no nodes are known.
+ */
+export function isControlPlaneOnly(cluster: { nodes: Node[] }): boolean {
+  return cluster.nodes.length > 0 && cluster.nodes.every((n) => n.role === "control-plane");
+}
+
+function isInside(filePath: string, dir: string): boolean {
+  const rel = relative(dir, filePath);
+  return rel !== "" && !rel.startsWith("..") && !isAbsolute(rel);
 }
 
 /**
@@ -287,7 +707,13 @@ export function invalidateCache(): void {
  */
 export async function getApp(name: string): Promise<AppDefinition | null> {
   const context = await detectClusterContext();
-  return context?.apps.get(name) || null;
+  if (!context) return null;
+
+  return (
+    context.apps.get(name) ||
+    [...context.clusters.values()].map((c) => c.apps.get(name)).find(Boolean) ||
+    null
+  );
 }
 
 /**
@@ -295,5 +721,7 @@ export async function getApp(name: string): Promise<AppDefinition | null> {
  */
 export async function getAppNames(): Promise<string[]> {
   const context = await detectClusterContext();
-  return context ? Array.from(context.apps.keys()) : [];
+  if (!context) return [];
+
+  return [...new Set([...context.clusters.values()].flatMap((c) => [...c.apps.keys()]))];
 }
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { defaultReason, effectiveRules, evaluatePolicy, DEFAULT_POLICY_RULES } from "./command-policy.js";
+import { parseRepoConfig } from "./config.js";
+import { extractInvocations } from "./shell-parser.js";
+import type { PolicyAction, PolicyRule } from "./types.js";
+
+function decide(command: string, rules: PolicyRule[] = DEFAULT_POLICY_RULES, bootstrap = false) {
+  const [invocation] = extractInvocations(command);
+  return evaluatePolicy(invocation, rules, bootstrap);
+}
+
+describe("default rules", () => {
+  test.each<[string, PolicyAction]>([
+    ["kubectl get pods", "deny"],
+    ["helm upgrade web ./chart", "deny"],
+    ["helm template web ./chart", "allow"],
+    ["argocd app diff web", "allow"],
+    ["argocd app sync web", "ask"],
+    ["talosctl -n 10.0.0.1 get members", "allow"],
+    ["ls -la", "allow"],
+  ])("%s -> %s", (command, action) => {
+    expect(decide(command).action).toBe(action);
+  });
+
+  test("bootstrap mode asks instead of denying", () => {
+    const decision = decide("kubectl apply -f crds.yaml", DEFAULT_POLICY_RULES, true);
+    expect(decision.action).toBe("ask");
+    expect(decision.reason).toBe("Bootstrap mode: kubectl apply allowed. Proceed?");
+  });
+});
+
+describe("repo rules", () => {
+  const rules: PolicyRule[] = [
+    { match: { program: "kubectl", subcommand: ["get", "describe"] }, action: "allow" },
+    { match: { program: "kubectl", flags: ["--namespace=kube-system"] }, action: "deny" },
+    { match: { program: "helm", subcommand: "template", withoutFlags: ["--debug"] }, action: "ask" },
+    { match: { program: "*", args: "^prod" }, action: "deny", reason: "Not on prod." },
+  ];
+
+  test("come before the defaults", () => {
+    const all = effectiveRules({ defaults: true, rules });
+    expect(decide("kubectl get pods", all).action).toBe("allow");
+    expect(decide("kubectl delete pod x", all).action).toBe("deny");
+    expect(effectiveRules({ defaults: false, rules })).toEqual(rules);
+  });
+
+  test("match on flag values, absent flags and positionals", () => {
+    expect(decide("kubectl logs -n kube-system x", rules).action).toBe("allow");
+    expect(decide("kubectl logs --namespace=kube-system x", rules).action).toBe("deny");
+    expect(decide("helm template web ./chart", rules).action).toBe("ask");
+    expect(decide("helm template web ./chart --debug", rules).action).toBe("allow");
+    expect(decide("git push prod-eu main", rules).reason).toBe("Not on prod.");
+  });
+
+  test("get a default reason", () => {
+    const command = "kubectl logs --namespace=kube-system x";
+    const decision = decide(command, rules);
+    expect(defaultReason(decision, extractInvocations(command)[0])).toBe(
+      "kubectl logs is blocked by the repo command policy."
+    );
+  });
+});
+
+describe("parseRepoConfig", () => {
+  test("an empty config is the default", () => {
+    const { config, errors } = parseRepoConfig("", ".talos-gitops-ops");
+    expect(errors).toEqual([]);
+    expect(config.policy).toEqual({ defaults: true, rules: [] });
+  });
+
+  test("reports invalid rules and falls back to defaults", () => {
+    const { config, errors } = parseRepoConfig(
+      "policy:\n  rules:\n    - match: { program: kubectl, args: '(' }\n      action: block\n",
+      ".talos-gitops-ops"
+    );
+
+    expect(config.policy.rules).toEqual([]);
+    expect(errors.map((e) => e.message)).toEqual([
+      "Invalid config at policy.rules.0.match.args: Invalid regular expression",
+      expect.stringContaining("Invalid config at policy.rules.0.action:"),
+    ]);
+  });
+
+  test("reports invalid YAML", () => {
+    const { errors } = parseRepoConfig("policy: [", ".talos-gitops-ops");
+    expect(errors[0].message).toStartWith("Invalid YAML:");
+  });
+});
@@ -0,0 +1,136 @@
+import { parseCliArgs, type CliArgs } from "./cli-args.js";
+import type { Invocation } from "./shell-parser.js";
+import type { Policy, PolicyAction, PolicyMatch, PolicyRule } from "./types.js";
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  reason?: string;
+  rule?: PolicyRule;
+}
+
+const BOOTSTRAP_HINT = "For bootstrap: export TALOS_GITOPS_BOOTSTRAP=true";
+
+/**
+ * Built-in policy: the classification the plugin has always enforced
+ */
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+  {
+    match: { program: "kubectl" },
+    action: "deny",
+    reason: `kubectl is blocked. Use omnictl, talosctl, or ArgoCD via git. ${BOOTSTRAP_HINT}`,
+    bootstrap: "ask",
+  },
+  {
+    match: { program: "helm", subcommand: ["install", "upgrade"] },
+    action: "deny",
+    reason:
+      "helm install/upgrade is blocked. Use GitOps: edit values.yaml, git push, let ArgoCD sync. " +
+      BOOTSTRAP_HINT,
+    bootstrap: "ask",
+  },
+  {
+    match: { program: "helm", subcommand: ["template", "show", "search"] },
+    action: "allow",
+  },
+  {
+    match: { program: "argocd", subcommand: "app diff" },
+    action: "allow",
+  },
+  {
+    match: { program: "argocd", subcommand: "app sync" },
+    action: "ask",
+    reason: "Prefer 'git push' and let ArgoCD auto-sync. Proceed with manual sync?",
+  },
+  {
+    match: { program: ["omnictl", "talosctl"] },
+    action: "allow",
+  },
+];
+
+/**
+ * Rules in evaluation order: the repo's own, then the defaults
+ */
+export function effectiveRules(policy: Policy): PolicyRule[] {
+  return policy.defaults ? [...policy.rules, ...DEFAULT_POLICY_RULES] : policy.rules;
+}
+
+/**
+ * First matching rule decides; no match means allow
+ */
+export function evaluatePolicy(
+  invocation: Invocation,
+  rules: PolicyRule[],
+  bootstrapMode: boolean
+): PolicyDecision {
+  const args = parseCliArgs(invocation);
+
+  for (const rule of rules) {
+    if (!matches(rule.match, invocation, args)) continue;
+
+    const action = bootstrapMode && rule.bootstrap ? rule.bootstrap : rule.action;
+    const reason =
+      bootstrapMode && rule.bootstrap && rule.bootstrap !== rule.action
+        ? `Bootstrap mode: ${describe(invocation, args)} allowed. Proceed?`
+        : rule.reason;
+
+    return { action, reason, rule };
+  }
+
+  return { action: "allow" };
+}
+
+/**
+ * Default reason for rules that don't give one
+ */
+export function defaultReason(decision: PolicyDecision, invocation: Invocation): string {
+  if (decision.reason) return decision.reason;
+
+  const command = describe(invocation, parseCliArgs(invocation));
+  return decision.action === "deny"
+    ? `${command} is blocked by the repo command policy.`
+    : `${command} requires confirmation by the repo command policy. Proceed?`;
+}
+
+function matches(match: PolicyMatch, invocation: Invocation, args: CliArgs): boolean {
+  if (!oneOf(match.program).some((p) => p === "*" || p === invocation.program)) {
+    return false;
+  }
+
+  if (match.subcommand !== undefined) {
+    const matched = oneOf(match.subcommand).some((sub) => {
+      if (sub === "*") return true;
+      const words = sub.split(/\s+/);
+      return words.every((word, i) => args.subcommand[i] === word);
+    });
+    if (!matched) return false;
+  }
+
+  if (match.flags && !match.flags.every((flag) => flagMatches(flag, args))) {
+    return false;
+  }
+
+  if (match.withoutFlags && match.withoutFlags.some((flag) => flagMatches(flag, args))) {
+    return false;
+  }
+
+  if (match.args !== undefined && !new RegExp(match.args).test(args.positionals.join(" "))) {
+    return false;
+  }
+
+  return true;
+}
+
+function flagMatches(flag: string, args: CliArgs): boolean {
+  const eq = flag.indexOf("=");
+  if (eq === -1) return args.flags.has(flag);
+
+  return args.flags.get(flag.slice(0, eq)) === flag.slice(eq + 1);
+}
+
+function oneOf(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function describe(invocation: Invocation, args: CliArgs): string {
+  return [invocation.program, ...args.subcommand].join(" ");
+}
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { isConfigFile, parseRepoConfig } from "./config.js";
+
+const FILE = "/repo/.talos-gitops-ops";
+
+describe("parseRepoConfig", () => {
+  test("an empty file is the default config", () => {
+    const { config, errors } = parseRepoConfig("", FILE);
+
+    expect(errors).toEqual([]);
+    expect(config.sync).toEqual({ timeout: 30, apps: {} });
+  });
+
+  test("caps the sync watcher's wait below the hook timeout", () => {
+    expect(parseRepoConfig("sync:\n  timeout: 600\n", FILE).errors).toEqual([
+      {
+        file: FILE,
+        severity: "error",
+        message: "Invalid config at sync.timeout: must be at most 45 (the sync watcher hook is stopped at 60)",
+      },
+    ]);
+  });
+
+  test("allows longer per-app waits, which run outside the hook", () => {
+    const { config, errors } = parseRepoConfig("sync:\n  apps:\n    immich: 900\n", FILE);
+
+    expect(errors).toEqual([]);
+    expect(config.sync.apps).toEqual({ immich: 900 });
+  });
+
+  test("reports invalid YAML and unknown keys", () => {
+    expect(parseRepoConfig("sync: [", FILE).errors[0].message).toStartWith("Invalid YAML:");
+    expect(parseRepoConfig("synk: {}\n", FILE).errors[0].message).toStartWith("Invalid config at (root):");
+  });
+});
+
+test("isConfigFile matches the marker file and its directory form", () => {
+  expect(isConfigFile(FILE)).toBe(true);
+  expect(isConfigFile("/repo/.talos-gitops-ops/config.yaml")).toBe(true);
+  expect(isConfigFile("/repo/config.yaml")).toBe(false);
+});
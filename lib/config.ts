@@ -0,0 +1,87 @@
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { RepoConfigSchema, type RepoConfig, type ValidationError } from "./types.js";
+
+export const CONFIG_MARKER = ".talos-gitops-ops";
+
+/**
+ * Path of the repo config: the .talos-gitops-ops marker itself when it's a
+ * file, or .talos-gitops-ops/config.yaml when it's a directory
+ */
+export async function configPath(repoRoot: string): Promise<string | null> {
+  const marker = join(repoRoot, CONFIG_MARKER);
+
+  try {
+    const info = await stat(marker);
+    return info.isDirectory() ? join(marker, "config.yaml") : marker;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a file is the repo config
+ */
+export function isConfigFile(filePath: string): boolean {
+  return filePath.endsWith(`/${CONFIG_MARKER}`) || filePath.endsWith(`/${CONFIG_MARKER}/config.yaml`);
+}
+
+/**
+ * Parse and validate config content. An empty marker file is a valid, default config.
+ */
+export function parseRepoConfig(
+  content: string,
+  file: string
+): { config: RepoConfig; errors: ValidationError[] } {
+  let doc: unknown;
+
+  try {
+    doc = parseYaml(content) ?? {};
+  } catch (error) {
+    return {
+      config: RepoConfigSchema.parse({}),
+      errors: [
+        {
+          file,
+          severity: "error",
+          message: `Invalid YAML: ${error instanceof Error ? error.message : "Parse error"}`,
+        },
+      ],
+    };
+  }
+
+  const result = RepoConfigSchema.safeParse(doc);
+  if (result.success) {
+    return { config: result.data, errors: [] };
+  }
+
+  return {
+    config: RepoConfigSchema.parse({}),
+    errors: result.error.issues.map((issue) => ({
+      file,
+      severity: "error" as const,
+      message: `Invalid config at ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    })),
+  };
+}
+
+/**
+ * Load the repo config; invalid or missing config falls back to defaults
+ */
+export async function loadRepoConfig(
+  repoRoot: string
+): Promise<{ config: RepoConfig; errors: ValidationError[] }> {
+  const path = await configPath(repoRoot);
+
+  let content = "";
+  if (path) {
+    try {
+      content = await readFile(path, "utf-8");
+    } catch {
+      // Directory without config.yaml
+    }
+  }
+
+  return parseRepoConfig(content, path || join(repoRoot, CONFIG_MARKER));
+}
@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appContentHash,
+  dryRunApps,
+  dryRunSucceeded,
+  hasDryRun,
+  isAppDryRun,
+  recordDryRun,
+  suggestedDryRun,
+} from "./dry-run.js";
+import { extractInvocations } from "./shell-parser.js";
+import type { AppDefinition, ClusterContext, DryRunRecord } from "./types.js";
+
+const invocation = (command: string) => extractInvocations(command)[0];
+
+function app(name: string, dir: string, extra: Partial<AppDefinition> = {}): AppDefinition {
+  return {
+    name,
+    namespace: name,
+    cluster: "prod",
+    chart: { repo: "https://charts.example.com", name, version: "1.2.0" },
+    applicationPath: join(dir, "application.yaml"),
+    valuesPath: join(dir, "values.yaml"),
+    valueFiles: [join(dir, "values.yaml")],
+    inlineValues: null,
+    hasTolerations: false,
+    psaLevel: null,
+    ignoreDifferences: false,
+    ...extra,
+  };
+}
+
+const web = app("web", "/repo/apps/web");
+const db = app("db", "/repo/apps/db", {
+  chart: null,
+  kustomize: { path: "/repo/apps/db/kustomization.yaml", resources: [], generators: [], patches: [], helmCharts: [] },
+});
+const apps = new Map([
+  ["web", web],
+  ["db", db],
+]);
+const context: ClusterContext = {
+  name: "prod",
+  nodes: [],
+  apps,
+  repoRoot: "/repo",
+  clusters: new Map([["prod", { name: "prod", nodes: [], unattributedPatches: [], apps }]]),
+};
+
+describe("isAppDryRun", () => {
+  test.each<[string, boolean]>([
+    ["helm template web ./chart", true],
+    ["argocd app diff web", true],
+    ["kustomize build apps/db", true],
+    ["helm install web ./chart", false],
+    ["argocd app sync web", false],
+  ])("%s", (command, expected) => {
+    expect(isAppDryRun(invocation(command))).toBe(expected);
+  });
+});
+
+describe("dryRunApps", () => {
+  const names = (command: string, cwd = "/repo") =>
+    dryRunApps(invocation(command), context, cwd).map((a) => a.name);
+
+  test("matches helm template by value files, else by release name", () => {
+    expect(names("helm template x chart -f values.yaml", "/repo/apps/web")).toEqual(["web"]);
+    expect(names("helm template web chart")).toEqual(["web"]);
+    expect(names("helm template other chart")).toEqual([]);
+  });
+
+  test("matches argocd app diff by name and kustomize build by directory", () => {
+    expect(names("argocd app diff argocd/web")).toEqual(["web"]);
+    expect(names("kustomize build apps/db")).toEqual(["db"]);
+    expect(names("kustomize build", "/repo/apps/db")).toEqual(["db"]);
+  });
+});
+
+describe("dryRunSucceeded", () => {
+  test.each<[string, Record<string, unknown>, boolean]>([
+    ["helm template web chart", { exitCode: 0 }, true],
+    ["helm template web chart", { exitCode: 1 }, false],
+    ["argocd app diff web", { exitCode: 1 }, true],
+    ["helm template web chart", { stdout: "kind: Deployment", stderr: "" }, true],
+    ["helm template web chart", { stderr: "Error: chart not found" }, false],
+    ["helm template web chart", { exitCode: 0, interrupted: true }, false],
+  ])("%s with %o", (command, response, expected) => {
+    expect(dryRunSucceeded(invocation(command), response)).toBe(expected);
+  });
+});
+
+describe("dry-run records", () => {
+  const record: DryRunRecord = { app: "web", cluster: "prod", hash: "abc", command: "helm template web" };
+
+  test("match by app, cluster and content hash", () => {
+    const records: DryRunRecord[] = [];
+    recordDryRun(records, record);
+    recordDryRun(records, { ...record, command: "argocd app diff web" });
+
+    expect(records).toEqual([{ ...record, command: "argocd app diff web" }]);
+    expect(hasDryRun(records, web, "abc")).toBe(true);
+    expect(hasDryRun(records, web, "def")).toBe(false);
+    expect(hasDryRun(records, { ...web, cluster: "staging" }, "abc")).toBe(false);
+  });
+});
+
+describe("suggestedDryRun", () => {
+  test("builds the command for each kind of app", () => {
+    expect(suggestedDryRun("/repo", web)).toBe(
+      "helm template web web --repo https://charts.example.com --version 1.2.0 -n web -f apps/web/values.yaml"
+    );
+    expect(
+      suggestedDryRun("/repo", { ...web, chart: { repo: "oci://ghcr.io/org/", name: "web", version: "1.2.0" } })
+    ).toBe("helm template web oci://ghcr.io/org/web --version 1.2.0 -n web -f apps/web/values.yaml");
+    expect(suggestedDryRun("/repo", db)).toBe("kustomize build apps/db");
+    const wildcard = { repo: "https://charts.example.com", name: "web", version: "1.2.*" };
+    expect(suggestedDryRun("/repo", { ...web, chart: wildcard })).toBe(
+      "helm template web web --repo https://charts.example.com --version '1.2.*' -n web -f apps/web/values.yaml"
+    );
+    expect(suggestedDryRun("/repo", { ...web, chart: null })).toBe(
+      "argocd app diff web --local apps/web"
+    );
+  });
+});
+
+describe("appContentHash", () => {
+  let repo: string;
+  let gitApp: AppDefinition;
+
+  const git = (args: string) =>
+    execSync(`git ${args}`, { cwd: repo, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "dry-run-test-"));
+    git("init -q -b main");
+    git("config user.email test@example.com");
+    git("config user.name test");
+
+    const dir = join(repo, "apps", "web");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "application.yaml"), "kind: Application\n");
+    await writeFile(join(dir, "values.yaml"), "replicas: 1\n");
+    await writeFile(join(repo, "README.md"), "# gitops\n");
+    gitApp = app("web", dir);
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  test("matches the commit holding the dry-run files", async () => {
+    const before = await appContentHash(repo, gitApp);
+    git("add -A");
+    git("commit -q -m web");
+
+    expect(before).not.toBeNull();
+    expect(await appContentHash(repo, gitApp, "HEAD")).toBe(before);
+  });
+
+  test("changes with the app's files only", async () => {
+    const committed = await appContentHash(repo, gitApp, "HEAD");
+
+    await writeFile(join(repo, "README.md"), "# changed\n");
+    expect(await appContentHash(repo, gitApp)).toBe(committed);
+
+    await writeFile(join(repo, "apps", "web", "values.yaml"), "replicas: 2\n");
+    expect(await appContentHash(repo, gitApp)).not.toBe(committed);
+  });
+
+  test("is null outside a git repo", async () => {
+    expect(await appContentHash(tmpdir(), gitApp, "HEAD")).toBeNull();
+  });
+});
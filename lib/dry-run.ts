@@ -0,0 +1,207 @@
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { promisify } from "node:util";
+import { parseCliArgs } from "./cli-args.js";
+import { allApps } from "./cluster-context.js";
+import { formatInvocation, type Invocation } from "./shell-parser.js";
+import type { AppDefinition, ClusterContext, DryRunRecord } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 5_000;
+
+/**
+ * Whether an invocation renders or diffs apps: helm template, argocd app
+ * diff, kustomize build
+ */
+export function isAppDryRun(invocation: Invocation): boolean {
+  const subcommand = parseCliArgs(invocation).subcommand.join(" ");
+  return (
+    (invocation.program === "helm" && subcommand === "template") ||
+    (invocation.program === "argocd" && subcommand === "app diff") ||
+    (invocation.program === "kustomize" && subcommand === "build")
+  );
+}
+
+/**
+ * Apps a dry-run covers: helm template by the value files it's given (else
+ * by release name), argocd app diff by app name, kustomize build by directory
+ */
+export function dryRunApps(
+  invocation: Invocation,
+  context: ClusterContext,
+  cwd: string
+): AppDefinition[] {
+  const args = parseCliArgs(invocation);
+  const apps = allApps(context);
+
+  if (invocation.program === "helm") {
+    const valueFiles = valuesArgs(invocation.args).map((f) => resolve(cwd, f));
+    const byValues = apps.filter((a) => valueFiles.some((f) => a.valueFiles.includes(f) || f === a.valuesPath));
+    if (byValues.length > 0) return byValues;
+
+    const release = args.positionals.length > 1 ? args.positionals[0] : undefined;
+    return release ? apps.filter((a) => a.name === release) : [];
+  }
+
+  if (invocation.program === "argocd") {
+    // Apps may be given as <namespace>/<name>
+    const name = args.positionals[0]?.split("/").pop();
+    return name ? apps.filter((a) => a.name === name) : [];
+  }
+
+  if (invocation.program === "kustomize") {
+    const dir = resolve(cwd, args.positionals[0] ?? ".");
+    return apps.filter((a) => a.kustomize && dirname(a.kustomize.path) === dir);
+  }
+
+  return [];
+}
+
+/**
+ * Whether a dry-run succeeded, from the Bash tool's response. argocd app
+ * diff exits 1 when there are differences, which is still a success.
+ */
+export function dryRunSucceeded(invocation: Invocation, response: Record<string, unknown>): boolean {
+  if (response.interrupted === true) return false;
+
+  const code = [response.exitCode, response.exit_code, response.returnCode].find(
+    (c): c is number => typeof c === "number"
+  );
+  if (code !== undefined) {
+    return code === 0 || (invocation.program === "argocd" && code === 1);
+  }
+
+  const stderr = typeof response.stderr === "string" ? response.stderr : "";
+  return !/^Error:|level=fatal|FATA\[/m.test(stderr);
+}
+
+/**
+ * Hash of the files an app is made of (its Application, value files and
+ * directory): in the working tree, or at a revision. Both hash git blob ids,
+ * so a dry-run of uncommitted files matches the commit that has them.
+ * null when git fails.
+ */
+export async function appContentHash(
+  repoRoot: string,
+  app: AppDefinition,
+  revision?: string
+): Promise<string | null> {
+  const paths = appContentPaths(repoRoot, app);
+  const blobs: string[] = [];
+
+  try {
+    if (revision) {
+      // <mode> blob <sha>\t<path>
+      const output = await git(repoRoot, ["ls-tree", "-r", "-z", revision, "--", ...paths]);
+      for (const entry of output.split("\0").filter(Boolean)) {
+        const [meta, path] = entry.split("\t");
+        blobs.push(`${path} ${meta.split(" ")[2]}`);
+      }
+    } else {
+      const output = await git(repoRoot, [
+        "ls-files", "-z", "--cached", "--others", "--exclude-standard", "--", ...paths,
+      ]);
+      for (const path of output.split("\0").filter(Boolean)) {
+        try {
+          blobs.push(`${path} ${blobId(await readFile(resolve(repoRoot, path)))}`);
+        } catch {
+          // Deleted, not committed yet
+        }
+      }
+    }
+  } catch {
+    return null;
+  }
+
+  return createHash("sha256").update(blobs.sort().join("\n")).digest("hex").slice(0, 16);
+}
+
+/**
+ * Whether the session has a successful dry-run of an app with this content
+ */
+export function hasDryRun(records: DryRunRecord[], app: AppDefinition, hash: string): boolean {
+  return records.some((r) => r.app === app.name && r.cluster === app.cluster && r.hash === hash);
+}
+
+/**
+ * Record a dry-run, replacing older records of the same app and content
+ */
+export function recordDryRun(records: DryRunRecord[], record: DryRunRecord): void {
+  const index = records.findIndex(
+    (r) => r.app === record.app && r.cluster === record.cluster && r.hash === record.hash
+  );
+  if (index >= 0) records.splice(index, 1);
+  records.push(record);
+}
+
+/**
+ * Command that dry-runs an app from the repo root
+ */
+export function suggestedDryRun(repoRoot: string, app: AppDefinition): string {
+  const rel = (path: string) => relative(repoRoot, path) || ".";
+  // Quoted where the shell would expand them, e.g. --version 1.2.*
+  const command = (program: string, ...args: string[]) => formatInvocation({ program, args, wrappers: [] });
+
+  if (app.kustomize) {
+    const helm = app.kustomize.helmCharts.length > 0 ? ["--enable-helm"] : [];
+    return command("kustomize", "build", ...helm, rel(dirname(app.kustomize.path)));
+  }
+
+  if (app.chart) {
+    const { repo, name, version } = app.chart;
+    const chart = repo.startsWith("oci://") ? [`${repo.replace(/\/+$/, "")}/${name}`] : [name, "--repo", repo];
+    const values = app.valueFiles.flatMap((f) => ["-f", rel(f)]);
+    return command("helm", "template", app.name, ...chart, "--version", version, "-n", app.namespace, ...values);
+  }
+
+  return command("argocd", "app", "diff", app.name, "--local", rel(dirname(app.applicationPath)));
+}
+
+/**
+ * Repo-relative paths an app is made of. Directories shared with the whole
+ * repo are narrowed to the file itself.
+ */
+function appContentPaths(repoRoot: string, app: AppDefinition): string[] {
+  const paths = new Set<string>();
+  const add = (path: string) => {
+    const rel = relative(repoRoot, path);
+    if (rel && !rel.startsWith("..") && !isAbsolute(rel)) paths.add(rel);
+  };
+
+  add(app.applicationPath);
+  for (const file of app.valueFiles) add(file);
+  add(dirname(app.valuesPath) === repoRoot ? app.valuesPath : dirname(app.valuesPath));
+  if (app.kustomize) add(dirname(app.kustomize.path));
+
+  return [...paths];
+}
+
+// -f / --values arguments; helm takes several
+function valuesArgs(args: string[]): string[] {
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if ((args[i] === "-f" || args[i] === "--values") && i + 1 < args.length) {
+      files.push(...args[++i].split(","));
+    } else if (args[i].startsWith("--values=")) {
+      files.push(...args[i].slice("--values=".length).split(","));
+    }
+  }
+  return files;
+}
+
+// The id git gives a file's content
+function blobId(content: Buffer): string {
+  return createHash("sha1").update(`blob ${content.length}\0`).update(content).digest("hex");
+}
+
+async function git(repoRoot: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd: repoRoot,
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout;
+}
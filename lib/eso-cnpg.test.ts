@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { scanSecretIndex, validateEsoCnpg, type SecretIndex } from "./eso-cnpg.js";
+
+const CLUSTER = `apiVersion: postgresql.cnpg.io/v1
+kind: Cluster
+metadata:
+  name: pg
+  namespace: db
+spec:
+  managed:
+    roles:
+      - name: app
+        passwordSecret:
+          name: app-password
+`;
+
+const externalSecret = (template: string) => `apiVersion: external-secrets.io/v1
+kind: ExternalSecret
+metadata:
+  name: app-password
+  namespace: db
+spec:
+  data:
+    - secretKey: password
+      remoteRef:
+        key: pg/app
+  target:
+    name: app-password
+${template}`;
+
+const RELOADING = `    template:
+      metadata:
+        labels:
+          cnpg.io/reload: "true"
+      data:
+        password: "{{ .password }}"
+`;
+
+const emptyIndex = (): SecretIndex => ({ sources: [], roles: [] });
+
+const messages = (content: string, index: SecretIndex, file = "/repo/db.yaml") =>
+  validateEsoCnpg(content, file, index, null).map(
+    (e) => `${e.severity}: ${e.message}`
+  );
+
+describe("validateEsoCnpg", () => {
+  test("accepts a managed role whose Secret an ExternalSecret produces with the reload label", () => {
+    expect(messages(`${CLUSTER}---\n${externalSecret(RELOADING)}`, emptyIndex())).toEqual([]);
+  });
+
+  test("flags a managed role without a Secret", () => {
+    const errors = validateEsoCnpg(CLUSTER, "/repo/db.yaml", emptyIndex(), null);
+
+    expect(errors).toEqual([
+      {
+        file: "/repo/db.yaml",
+        line: 11,
+        severity: "error",
+        message: "Managed role app reads Secret app-password, but no ExternalSecret in db produces it",
+        fix: "Add an ExternalSecret with target.name: app-password in the cluster's namespace",
+      },
+    ]);
+  });
+
+  test("ignores Secrets in other namespaces", () => {
+    const index = emptyIndex();
+    validateEsoCnpg(externalSecret(RELOADING).replace("namespace: db", "namespace: web"), "/repo/es.yaml", index, null);
+
+    expect(messages(CLUSTER, index)).toEqual([
+      "error: Managed role app reads Secret app-password, but no ExternalSecret in db produces it",
+    ]);
+  });
+
+  test("warns from both sides when the Secret has no reload label", () => {
+    const index = emptyIndex();
+    const plain = externalSecret("");
+
+    expect(messages(plain, index, "/repo/secret.yaml")).toEqual([]);
+    expect(messages(CLUSTER, index)).toEqual([
+      "warning: Secret app-password of managed role app has no cnpg.io/reload label",
+    ]);
+    expect(messages(plain, index, "/repo/secret.yaml")).toEqual([
+      "warning: Role app of CNPG cluster pg reads app-password, but the Secret has no " +
+        "cnpg.io/reload label; password changes won't reach PostgreSQL",
+    ]);
+  });
+
+  test("denies the reload label on the ExternalSecret itself", () => {
+    const content = externalSecret(RELOADING).replace(
+      "  namespace: db\n",
+      '  namespace: db\n  labels:\n    cnpg.io/reload: "true"\n'
+    );
+
+    expect(messages(content, emptyIndex())).toEqual([
+      "error: cnpg.io/reload is on the ExternalSecret, where CNPG never sees it",
+    ]);
+  });
+
+  test("checks the template's data", () => {
+    const empty = "    template:\n      type: Opaque\n";
+    const unknownKey = '    template:\n      data:\n        password: "{{ .pass }}"\n';
+
+    expect(messages(externalSecret(empty), emptyIndex())).toEqual([
+      "error: target.template has no data; the generated Secret will have no keys",
+    ]);
+    expect(messages(externalSecret(unknownKey), emptyIndex())).toEqual([
+      "warning: template.data.password uses .pass, which spec.data doesn't fetch",
+    ]);
+  });
+});
+
+describe("scanSecretIndex", () => {
+  let repo: string;
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "eso-cnpg-test-"));
+    await mkdir(join(repo, "apps", "db"), { recursive: true });
+    await mkdir(join(repo, "apps", "db", "charts"), { recursive: true });
+    await writeFile(join(repo, "apps", "db", "cluster.yaml"), CLUSTER);
+    await writeFile(join(repo, "apps", "db", "secret.yaml"), externalSecret(RELOADING));
+    await writeFile(join(repo, "apps", "db", "charts", "vendored.yaml"), externalSecret(""));
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  test("indexes Secrets and managed roles, skipping vendored charts", async () => {
+    const index = await scanSecretIndex(repo, null);
+
+    expect(index.roles).toEqual([
+      {
+        cluster: "pg",
+        role: "app",
+        secret: "app-password",
+        namespace: "db",
+        file: join(repo, "apps", "db", "cluster.yaml"),
+      },
+    ]);
+    expect(index.sources).toEqual([
+      {
+        kind: "ExternalSecret",
+        name: "app-password",
+        namespace: "db",
+        file: join(repo, "apps", "db", "secret.yaml"),
+        reload: true,
+      },
+    ]);
+  });
+});
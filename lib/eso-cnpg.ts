@@ -0,0 +1,361 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isNode, LineCounter, parseAllDocuments, type Document } from "yaml";
+import { resolveAppForFile } from "./cluster-context.js";
+import type { ClusterContext, ValidationError } from "./types.js";
+
+/**
+ * A Secret the repo produces: an ExternalSecret's target or a Secret manifest
+ */
+export interface SecretSource {
+  kind: "ExternalSecret" | "Secret";
+  name: string;
+  // null when neither the manifest nor its app sets one
+  namespace: string | null;
+  file: string;
+  // cnpg.io/reload on the generated Secret
+  reload: boolean;
+}
+
+/**
+ * A CNPG managed role and the Secret holding its password
+ */
+export interface ManagedRole {
+  cluster: string;
+  role: string;
+  secret: string;
+  namespace: string | null;
+  file: string;
+}
+
+export interface SecretIndex {
+  sources: SecretSource[];
+  roles: ManagedRole[];
+}
+
+type Obj = Record<string, unknown>;
+
+const RELOAD_LABEL = "cnpg.io/reload";
+
+// Directories never holding manifests
+const SKIP_DIRS = new Set(["node_modules", "charts", "vendor"]);
+
+/**
+ * Check if a document is an ExternalSecret (external-secrets.io)
+ */
+export function isExternalSecret(doc: unknown): boolean {
+  const d = asObj(doc);
+  return d.kind === "ExternalSecret" && String(d.apiVersion ?? "").startsWith("external-secrets.io/");
+}
+
+/**
+ * Check if a document is a CloudNativePG Cluster
+ */
+export function isCnpgCluster(doc: unknown): boolean {
+  const d = asObj(doc);
+  return d.kind === "Cluster" && String(d.apiVersion ?? "").startsWith("postgresql.cnpg.io/");
+}
+
+/**
+ * Index the Secrets and managed roles of every manifest in the repo.
+ * Namespaces default to the namespace of the app holding the manifest.
+ */
+export async function scanSecretIndex(
+  repoRoot: string,
+  context: ClusterContext | null
+): Promise<SecretIndex> {
+  const index: SecretIndex = { sources: [], roles: [] };
+
+  for (const file of await yamlFiles(repoRoot)) {
+    let content: string;
+    try {
+      content = await readFile(file, "utf-8");
+    } catch {
+      continue;
+    }
+    // Cheap filter before parsing every YAML file in the repo
+    if (!/kind:\s*(ExternalSecret|Secret|Cluster)\b/.test(content)) continue;
+
+    addToIndex(index, content, file, context);
+  }
+
+  return index;
+}
+
+/**
+ * Index the documents of one file (replacing what the index had for it)
+ */
+export function addToIndex(
+  index: SecretIndex,
+  content: string,
+  file: string,
+  context: ClusterContext | null
+): void {
+  index.sources = index.sources.filter((s) => s.file !== file);
+  index.roles = index.roles.filter((r) => r.file !== file);
+
+  const appNamespace = defaultNamespace(file, context);
+
+  for (const { doc } of documents(content)) {
+    const metadata = asObj(doc.metadata);
+    const namespace = typeof metadata.namespace === "string" ? metadata.namespace : appNamespace;
+
+    if (isExternalSecret(doc)) {
+      const target = asObj(asObj(doc.spec).target);
+      const name = typeof target.name === "string" ? target.name : metadata.name;
+      if (typeof name !== "string") continue;
+      index.sources.push({
+        kind: "ExternalSecret",
+        name,
+        namespace,
+        file,
+        reload: hasReloadLabel(asObj(asObj(target.template).metadata)),
+      });
+    } else if (doc.kind === "Secret" && typeof metadata.name === "string") {
+      index.sources.push({
+        kind: "Secret",
+        name: metadata.name,
+        namespace,
+        file,
+        reload: hasReloadLabel(metadata),
+      });
+    } else if (isCnpgCluster(doc)) {
+      for (const role of managedRoles(doc)) {
+        index.roles.push({
+          cluster: String(metadata.name ?? ""),
+          role: role.name,
+          secret: role.secret,
+          namespace,
+          file,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validate the ExternalSecrets and CNPG Clusters of a file against the
+ * eso-cnpg-pattern pitfalls, cross-referencing Secrets through the index.
+ * The content replaces what the index had for the file.
+ */
+export function validateEsoCnpg(
+  content: string,
+  filePath: string,
+  index: SecretIndex,
+  context: ClusterContext | null
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  addToIndex(index, content, filePath, context);
+  const appNamespace = defaultNamespace(filePath, context);
+
+  for (const { doc, line } of documents(content)) {
+    const metadata = asObj(doc.metadata);
+    const namespace = typeof metadata.namespace === "string" ? metadata.namespace : appNamespace;
+
+    if (isExternalSecret(doc)) {
+      errors.push(...checkExternalSecret(doc, namespace, filePath, line, index));
+    } else if (isCnpgCluster(doc)) {
+      errors.push(...checkCnpgCluster(doc, namespace, filePath, line, index));
+    }
+  }
+
+  return errors;
+}
+
+function checkExternalSecret(
+  doc: Obj,
+  namespace: string | null,
+  filePath: string,
+  line: (path: Array<string | number>) => number | undefined,
+  index: SecretIndex
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const metadata = asObj(doc.metadata);
+  const spec = asObj(doc.spec);
+  const target = asObj(spec.target);
+  const template = target.template === undefined ? null : asObj(target.template);
+
+  // CNPG watches Secrets, never ExternalSecrets
+  if (hasReloadLabel(metadata)) {
+    errors.push({
+      file: filePath,
+      line: line(["metadata", "labels", RELOAD_LABEL]),
+      severity: "error",
+      message: `${RELOAD_LABEL} is on the ExternalSecret, where CNPG never sees it`,
+      fix: `Move it to spec.target.template.metadata.labels so it lands on the generated Secret`,
+    });
+  }
+
+  if (template) {
+    const templateData = asObj(template.data);
+    const merges = template.mergePolicy === "Merge" || template.templateFrom !== undefined;
+
+    // A template replaces the Secret's data with template.data
+    if (Object.keys(templateData).length === 0 && !merges) {
+      errors.push({
+        file: filePath,
+        line: line(["spec", "target", "template"]),
+        severity: "error",
+        message: "target.template has no data; the generated Secret will have no keys",
+        fix: 'Map each key in template.data, e.g. password: "{{ .password }}"',
+      });
+    }
+
+    // Template references to keys spec.data doesn't fetch (dataFrom fetches unknown keys)
+    if (spec.dataFrom === undefined) {
+      const fetched = new Set(
+        asList(spec.data)
+          .map((d) => d.secretKey)
+          .filter((k): k is string => typeof k === "string")
+      );
+      for (const [key, value] of Object.entries(templateData)) {
+        const missing = templateKeys(String(value)).filter((k) => !fetched.has(k));
+        if (missing.length > 0) {
+          errors.push({
+            file: filePath,
+            line: line(["spec", "target", "template", "data", key]),
+            severity: "warning",
+            message: `template.data.${key} uses ${missing.map((k) => `.${k}`).join(", ")}, which spec.data doesn't fetch`,
+            fix: "Add a spec.data entry with that secretKey",
+          });
+        }
+      }
+    }
+  }
+
+  // A managed role reads this Secret: CNPG needs the label to pick up changes
+  const name = typeof target.name === "string" ? target.name : metadata.name;
+  const role = index.roles.find(
+    (r) => r.secret === name && sameNamespace(r.namespace, namespace)
+  );
+  if (role && !hasReloadLabel(asObj(template?.metadata))) {
+    errors.push({
+      file: filePath,
+      line: line(["spec", "target"]),
+      severity: "warning",
+      message:
+        `Role ${role.role} of CNPG cluster ${role.cluster} reads ${name}, but the Secret ` +
+        `has no ${RELOAD_LABEL} label; password changes won't reach PostgreSQL`,
+      fix: `Add ${RELOAD_LABEL}: "true" to spec.target.template.metadata.labels`,
+    });
+  }
+
+  return errors;
+}
+
+function checkCnpgCluster(
+  doc: Obj,
+  namespace: string | null,
+  filePath: string,
+  line: (path: Array<string | number>) => number | undefined,
+  index: SecretIndex
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const role of managedRoles(doc)) {
+    const sources = index.sources.filter(
+      (s) => s.name === role.secret && sameNamespace(s.namespace, namespace)
+    );
+    const roleLine = line(["spec", "managed", "roles", role.index, "passwordSecret", "name"]);
+
+    if (sources.length === 0) {
+      errors.push({
+        file: filePath,
+        line: roleLine,
+        severity: "error",
+        message:
+          `Managed role ${role.name} reads Secret ${role.secret}, but no ExternalSecret ` +
+          `in ${namespace ?? "its namespace"} produces it`,
+        fix: `Add an ExternalSecret with target.name: ${role.secret} in the cluster's namespace`,
+      });
+    } else if (!sources.some((s) => s.reload)) {
+      errors.push({
+        file: filePath,
+        line: roleLine,
+        severity: "warning",
+        message: `Secret ${role.secret} of managed role ${role.name} has no ${RELOAD_LABEL} label`,
+        fix: `Add ${RELOAD_LABEL}: "true" to the ExternalSecret's spec.target.template.metadata.labels`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Namespace of the app holding the file (its Argo destination)
+function defaultNamespace(file: string, context: ClusterContext | null): string | null {
+  return context ? (resolveAppForFile(context, file)?.namespace ?? null) : null;
+}
+
+function managedRoles(doc: Obj): Array<{ index: number; name: string; secret: string }> {
+  const roles = asObj(asObj(doc.spec).managed).roles;
+
+  return (Array.isArray(roles) ? roles.map(asObj) : []).flatMap((role, index) => {
+    const secret = asObj(role.passwordSecret).name;
+    return typeof role.name === "string" && typeof secret === "string"
+      ? [{ index, name: role.name, secret }]
+      : [];
+  });
+}
+
+/**
+ * Parsed documents of a file with a line lookup for each
+ */
+function documents(
+  content: string
+): Array<{ doc: Obj; line: (path: Array<string | number>) => number | undefined }> {
+  const lineCounter = new LineCounter();
+  try {
+    return parseAllDocuments(content, { lineCounter })
+      .filter((d): d is Document.Parsed => "contents" in d && d.errors.length === 0)
+      .map((document) => ({
+        doc: asObj(document.toJS()),
+        line: (path: Array<string | number>) => {
+          const node = document.getIn(path, true);
+          return isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+        },
+      }));
+  } catch {
+    return [];
+  }
+}
+
+async function yamlFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || SKIP_DIRS.has(entry.name)) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await yamlFiles(path)));
+    else if (/\.ya?ml$/.test(entry.name)) files.push(path);
+  }
+
+  return files;
+}
+
+// {{ .password }}, {{ .password | b64dec }}
+function templateKeys(value: string): string[] {
+  return [...value.matchAll(/\{\{[^}]*?\.([A-Za-z_]\w*)/g)].map((m) => m[1]);
+}
+
+function hasReloadLabel(metadata: Obj): boolean {
+  return String(asObj(metadata.labels)[RELOAD_LABEL]) === "true";
+}
+
+// A manifest without a known namespace can match any
+function sameNamespace(a: string | null, b: string | null): boolean {
+  return a === null || b === null || a === b;
+}
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Obj) : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
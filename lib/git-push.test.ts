@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseCliArgs } from "./cli-args.js";
+import { changedFiles, parsePushOutput, pushedRanges, rangesToPush } from "./git-push.js";
+import { extractInvocations } from "./shell-parser.js";
+
+describe("parsePushOutput", () => {
+  test("reads fast-forward and forced updates, skipping new branches", () => {
+    const output = [
+      "To github.com:example/gitops.git",
+      "   1a2b3c4..5d6e7f8  main -> main",
+      " + 0a0b0c0...9f9e9d9 feature -> feature (forced update)",
+      " * [new branch]      topic -> topic",
+    ].join("\n");
+
+    expect(parsePushOutput(output)).toEqual([
+      { from: "1a2b3c4", to: "5d6e7f8", ref: "main" },
+      { from: "0a0b0c0", to: "9f9e9d9", ref: "feature" },
+    ]);
+  });
+});
+
+describe("pushedRanges and changedFiles", () => {
+  let repo: string;
+  let first: string;
+  let second: string;
+
+  const git = (args: string) =>
+    execSync(`git ${args}`, { cwd: repo, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "git-push-test-"));
+    git("init -q -b main");
+    git("config user.email test@example.com");
+    git("config user.name test");
+
+    await mkdir(join(repo, "apps", "web"), { recursive: true });
+    await writeFile(join(repo, "apps", "web", "values.yaml"), "replicas: 1\n");
+    git("add -A");
+    git("commit -q -m first");
+    first = git("rev-parse HEAD");
+
+    await writeFile(join(repo, "apps", "web", "values.yaml"), "replicas: 2\n");
+    await writeFile(join(repo, "README.md"), "# gitops\n");
+    git("add -A");
+    git("commit -q -m second");
+    second = git("rev-parse HEAD");
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  test("resolves the abbreviated SHAs of the push output", async () => {
+    const output = `   ${first.slice(0, 7)}..${second.slice(0, 7)}  main -> main`;
+
+    expect(await pushedRanges(repo, output)).toEqual([{ ref: "main", from: first, to: second }]);
+  });
+
+  test("finds nothing without output or an upstream", async () => {
+    expect(await pushedRanges(repo, "Everything up-to-date")).toEqual([]);
+  });
+
+  test("lists the files changed across the range", async () => {
+    const files = await changedFiles(repo, [{ ref: "main", from: first, to: second }]);
+
+    expect(files.sort()).toEqual([join(repo, "README.md"), join(repo, "apps", "web", "values.yaml")]);
+  });
+});
+
+describe("rangesToPush", () => {
+  let root: string;
+  let repo: string;
+  const commits: Record<string, string> = {};
+
+  const git = (args: string) =>
+    execSync(`git ${args}`, { cwd: repo, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+  const commit = async (name: string) => {
+    await writeFile(join(repo, `${name}.yaml`), `name: ${name}\n`);
+    git("add -A");
+    git(`commit -q -m ${name}`);
+    commits[name] = git("rev-parse HEAD");
+  };
+  const ranges = (command: string) => rangesToPush(repo, parseCliArgs(extractInvocations(command)[0]));
+
+  // origin has "first"; main adds "second", topic (new) adds "third" on top
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "git-push-test-"));
+    repo = join(root, "work");
+    await mkdir(repo);
+    execSync(`git init -q --bare -b main ${join(root, "origin.git")}`);
+
+    git("init -q -b main");
+    git("config user.email test@example.com");
+    git("config user.name test");
+    git(`remote add origin ${join(root, "origin.git")}`);
+    await commit("first");
+    git("push -q -u origin main");
+    await commit("second");
+    git("checkout -q -b topic");
+    await commit("third");
+    git("checkout -q main");
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("pushes the current branch to its upstream by default", async () => {
+    expect(await ranges("git push")).toEqual([{ ref: "main", from: commits.first, to: commits.second }]);
+    expect(await ranges("git push origin HEAD:main")).toEqual([
+      { ref: "main", from: commits.first, to: commits.second },
+    ]);
+  });
+
+  test("starts new branches where they leave the remote", async () => {
+    expect(await ranges("git push origin topic")).toEqual([
+      { ref: "topic", from: commits.first, to: commits.third },
+    ]);
+  });
+
+  test("leaves out deletions", async () => {
+    expect(await ranges("git push origin :topic")).toEqual([]);
+  });
+});
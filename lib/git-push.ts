@@ -0,0 +1,145 @@
+import { execFile } from "node:child_process";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import type { CliArgs } from "./cli-args.js";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 5_000;
+
+// Remote names and refspecs handed to git: ref-name characters only, no options
+const SAFE_REF = /^(?!-)[\w./@{}^~+:-]+$/;
+
+/**
+ * Commits a push moved a remote branch across (full SHAs)
+ */
+export interface PushedRange {
+  // Remote branch, as git push printed it
+  ref: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Updated branches from git push output:
+ *    1a2b3c4..5d6e7f8  main -> main
+ *  + 1a2b3c4...5d6e7f8 main -> main (forced update)
+ * New and deleted branches have no range and are left out.
+ */
+export function parsePushOutput(output: string): PushedRange[] {
+  const ranges: PushedRange[] = [];
+
+  for (const line of output.split("\n")) {
+    const match = line.match(/^\s*[+ ]?\s*([0-9a-f]{7,40})\.\.\.?([0-9a-f]{7,40})\s+\S+\s+->\s+(\S+)/);
+    if (match) ranges.push({ from: match[1], to: match[2], ref: match[3] });
+  }
+
+  return ranges;
+}
+
+/**
+ * Ranges a push just updated: from its output when there is any, else from
+ * where the upstream branch was before (its reflog) to where it is now
+ */
+export async function pushedRanges(repoRoot: string, output: string): Promise<PushedRange[]> {
+  const parsed = parsePushOutput(output);
+
+  if (parsed.length > 0) {
+    const ranges: PushedRange[] = [];
+    for (const range of parsed) {
+      const from = await revParse(repoRoot, range.from);
+      const to = await revParse(repoRoot, range.to);
+      if (from && to) ranges.push({ ref: range.ref, from, to });
+    }
+    return ranges;
+  }
+
+  const upstream = await git(repoRoot, ["rev-parse", "--abbrev-ref", "@{upstream}"]);
+  const from = await revParse(repoRoot, "@{upstream}@{1}");
+  const to = await revParse(repoRoot, "@{upstream}");
+  if (!upstream || !from || !to || from === to) return [];
+
+  return [{ ref: upstream.replace(/^[^/]+\//, ""), from, to }];
+}
+
+/**
+ * Ranges a git push is about to send: each refspec (the current branch by
+ * default) from where the remote branch is now to the local commit. New
+ * branches start before the first commit the remote doesn't have;
+ * deletions, remotes given as URLs, and names git wouldn't take as refs
+ * are left out.
+ */
+export async function rangesToPush(repoRoot: string, args: CliArgs): Promise<PushedRange[]> {
+  const upstream = await git(repoRoot, ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"]);
+  const remote = args.positionals[0] ?? upstream?.split("/")[0] ?? "origin";
+  if (!SAFE_REF.test(remote)) return [];
+  const branch = await git(repoRoot, ["symbolic-ref", "--quiet", "--short", "HEAD"]);
+
+  const refspecs = args.positionals.slice(1);
+  if (refspecs.length === 0) {
+    if (!branch) return [];
+    const upstreamBranch = upstream?.startsWith(`${remote}/`) ? upstream.slice(remote.length + 1) : branch;
+    refspecs.push(`${branch}:${upstreamBranch}`);
+  }
+
+  const ranges: PushedRange[] = [];
+  for (const refspec of refspecs) {
+    if (!SAFE_REF.test(refspec)) continue;
+    const [src, dst] = refspec.replace(/^\+/, "").split(":");
+    if (!src) continue;
+
+    const to = await revParse(repoRoot, src);
+    const ref = (dst || (src === "HEAD" ? branch : src) || "").replace(/^refs\/heads\//, "");
+    if (!to || !ref) continue;
+
+    const from =
+      (await revParse(repoRoot, `refs/remotes/${remote}/${ref}`)) ??
+      (await forkPoint(repoRoot, to, remote));
+    if (from && from !== to) ranges.push({ ref, from, to });
+  }
+
+  return ranges;
+}
+
+/**
+ * Files changed across the ranges, as absolute paths (deleted files included)
+ */
+export async function changedFiles(repoRoot: string, ranges: PushedRange[]): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const range of ranges) {
+    const output = await git(repoRoot, ["diff", "--name-only", range.from, range.to]);
+    for (const path of (output ?? "").split("\n").filter(Boolean)) {
+      files.add(join(repoRoot, path));
+    }
+  }
+
+  return [...files];
+}
+
+// Parent of the oldest commit the remote doesn't have yet
+async function forkPoint(repoRoot: string, to: string, remote: string): Promise<string | null> {
+  const commits = await git(repoRoot, [
+    "rev-list", "--topo-order", "--reverse", to, "--not", `--remotes=${remote}`,
+  ]);
+  const oldest = commits?.split("\n")[0];
+  return oldest ? revParse(repoRoot, `${oldest}^`) : to;
+}
+
+async function revParse(repoRoot: string, rev: string): Promise<string | null> {
+  return git(repoRoot, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${rev}^{commit}`]);
+}
+
+// git output, trimmed; null when git fails
+async function git(repoRoot: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: repoRoot,
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { indexUrl, parseHelmIndex, resolveVersion, similarChartNames } from "./helm-index.js";
+
+const INDEX = `
+apiVersion: v1
+entries:
+  cert-manager:
+    - version: v1.10.0
+      appVersion: v1.10.0
+      urls: [https://charts.example.com/cert-manager-v1.10.0.tgz]
+    - version: v1.9.2
+      deprecated: true
+  cert-manager-csi:
+    - version: 0.1.0
+`;
+
+describe("parseHelmIndex", () => {
+  test("keeps versions as strings", () => {
+    const index = parseHelmIndex(INDEX);
+    const entries = index.get("cert-manager")!;
+
+    expect(entries.map((e) => e.version)).toEqual(["v1.10.0", "v1.9.2"]);
+    expect(entries[0].urls).toEqual(["https://charts.example.com/cert-manager-v1.10.0.tgz"]);
+    expect(entries[1].deprecated).toBe(true);
+  });
+
+  test("rejects files without entries", () => {
+    expect(() => parseHelmIndex("apiVersion: v1\n")).toThrow("index.yaml has no entries");
+  });
+
+  test("finds similar chart names", () => {
+    expect(similarChartNames(parseHelmIndex(INDEX), "cert")).toEqual(["cert-manager", "cert-manager-csi"]);
+  });
+});
+
+describe("resolveVersion", () => {
+  const versions = ["v1.10.0", "v1.9.2", "v1.9.1"];
+
+  test("matches exact versions with or without a v prefix", () => {
+    expect(resolveVersion(versions, "1.10.0")).toEqual({ resolved: "v1.10.0", isRange: false, suggestions: [] });
+  });
+
+  test("suggests nearby versions for a missing one", () => {
+    const result = resolveVersion(versions, "1.9.3");
+    expect(result.resolved).toBeNull();
+    expect(result.suggestions.slice(0, 2)).toEqual(["v1.9.2", "v1.9.1"]);
+  });
+
+  test("resolves ranges to the highest match", () => {
+    expect(resolveVersion(versions, "~1.9.0").resolved).toBe("v1.9.2");
+  });
+});
+
+test("indexUrl appends index.yaml", () => {
+  expect(indexUrl("https://charts.example.com/stable/")).toBe("https://charts.example.com/stable/index.yaml");
+});
@@ -0,0 +1,178 @@
+import { parse as parseYaml } from "yaml";
+import { cachedFetch, CACHE_TTL, type CachedValue } from "./cache.js";
+import { isExactVersion, maxSatisfying, nearestVersions, parseRange, sortVersionsDesc } from "./semver.js";
+
+export interface ChartIndexEntry {
+  name: string;
+  version: string;
+  appVersion?: string;
+  deprecated?: boolean;
+  urls: string[];
+}
+
+// Chart name -> published versions
+export type HelmIndex = Map<string, ChartIndexEntry[]>;
+
+export interface HelmIndexResult {
+  ok: boolean;
+  status: number;
+  index: HelmIndex;
+}
+
+interface IndexSnapshot {
+  ok: boolean;
+  status: number;
+  entries: Record<string, ChartIndexEntry[]>;
+}
+
+const TIMEOUT_MS = 5_000;
+
+export interface VersionResolution {
+  // Version ArgoCD will render, or null if none matches
+  resolved: string | null;
+  // True when targetRevision is a range rather than an exact version
+  isRange: boolean;
+  // Nearest existing versions, for "did you mean"
+  suggestions: string[];
+}
+
+/**
+ * Build the index.yaml URL for a classic helm repo
+ */
+export function indexUrl(repoUrl: string): string {
+  return repoUrl.endsWith("/") ? `${repoUrl}index.yaml` : `${repoUrl}/index.yaml`;
+}
+
+/**
+ * Fetch a repo's index.yaml through the on-disk cache (ETag revalidated).
+ * Returns null when offline and the index was never cached.
+ */
+export async function fetchHelmIndex(repoUrl: string): Promise<CachedValue<HelmIndexResult> | null> {
+  const url = indexUrl(repoUrl);
+
+  const result = await cachedFetch<IndexSnapshot>(
+    "helm-index",
+    url,
+    CACHE_TTL.helmIndex,
+    async ({ etag, lastModified }) => {
+      const headers: Record<string, string> = {};
+      if (etag) headers["If-None-Match"] = etag;
+      if (lastModified) headers["If-Modified-Since"] = lastModified;
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+      try {
+        const response = await fetch(url, { headers, signal: controller.signal });
+
+        if (response.status === 304) {
+          return { notModified: true };
+        }
+
+        if (!response.ok) {
+          return {
+            data: { ok: false, status: response.status, entries: {} },
+            ttlMs: CACHE_TTL.failure,
+          };
+        }
+
+        const index = parseHelmIndex(await response.text());
+
+        return {
+          data: { ok: true, status: response.status, entries: Object.fromEntries(index) },
+          etag: response.headers.get("etag") || undefined,
+          lastModified: response.headers.get("last-modified") || undefined,
+        };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  );
+
+  if (!result) return null;
+
+  const { ok, status, entries } = result.data;
+  return {
+    data: { ok, status, index: new Map(Object.entries(entries)) },
+    cache: result.cache,
+  };
+}
+
+/**
+ * Parse a helm repo index.yaml into per-chart entries
+ */
+export function parseHelmIndex(text: string): HelmIndex {
+  // failsafe keeps every scalar a string, so "1.10" doesn't become 1.1
+  const doc = parseYaml(text, { schema: "failsafe", maxAliasCount: -1 });
+  const index: HelmIndex = new Map();
+
+  const entries = doc?.entries;
+  if (!entries || typeof entries !== "object") {
+    throw new Error("index.yaml has no entries");
+  }
+
+  for (const [name, versions] of Object.entries(entries as Record<string, unknown>)) {
+    if (!Array.isArray(versions)) continue;
+
+    index.set(
+      name,
+      versions
+        .filter((v): v is Record<string, unknown> => !!v && typeof v === "object")
+        .map((v) => ({
+          name,
+          version: String(v.version ?? ""),
+          appVersion: v.appVersion !== undefined ? String(v.appVersion) : undefined,
+          deprecated: v.deprecated === "true",
+          urls: Array.isArray(v.urls) ? v.urls.map(String) : [],
+        }))
+        .filter((v) => v.version !== "")
+    );
+  }
+
+  return index;
+}
+
+/**
+ * Resolve a targetRevision (exact version or semver range) against published versions
+ */
+export function resolveVersion(versions: string[], targetRevision: string): VersionResolution {
+  const target = targetRevision.trim();
+
+  if (isExactVersion(target)) {
+    // Exact match on the raw string first, then tolerate a "v" prefix mismatch
+    const normalized = target.replace(/^v/, "");
+    const found = versions.find((v) => v === target || v.replace(/^v/, "") === normalized);
+
+    return {
+      resolved: found ?? null,
+      isRange: false,
+      suggestions: found ? [] : nearestVersions(versions, target),
+    };
+  }
+
+  if (!parseRange(target)) {
+    return { resolved: null, isRange: true, suggestions: sortVersionsDesc(versions).slice(0, 5) };
+  }
+
+  const resolved = maxSatisfying(versions, target);
+
+  return {
+    resolved,
+    isRange: true,
+    suggestions: resolved ? [] : nearestVersions(versions, target.replace(/^[~^<>=!\s]+/, "")),
+  };
+}
+
+/**
+ * Chart names in the index similar to the requested one
+ */
+export function similarChartNames(index: HelmIndex, chartName: string, count = 3): string[] {
+  const wanted = chartName.toLowerCase();
+
+  return [...index.keys()]
+    .filter((name) => {
+      const candidate = name.toLowerCase();
+      return candidate.includes(wanted) || wanted.includes(candidate);
+    })
+    .slice(0, count);
+}
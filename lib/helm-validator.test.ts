@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { checkCommonMistakes } from "./helm-validator.js";
+
+const VALUES = "/repo/apps/db/values.yaml";
+
+describe("checkCommonMistakes", () => {
+  const messages = async (content: string, chart: string | null) =>
+    (await checkCommonMistakes(VALUES, content, chart)).map((e) => `${e.line}: ${e.message}`);
+
+  test("flags master: only for Bitnami charts that renamed it", async () => {
+    const values = "architecture: replication\nmaster:\n  persistence:\n    size: 8Gi\n";
+
+    expect(await messages(values, "postgresql")).toEqual([
+      "2: The Bitnami postgresql chart uses 'primary:' not 'master:'",
+    ]);
+    expect(await messages(values, "oci://registry-1.docker.io/bitnamicharts/mariadb")).toHaveLength(1);
+    expect(await messages(values, "redis")).toEqual([]);
+    expect(await messages(values, null)).toEqual([]);
+  });
+
+  test("flags CPU values that normalize differently", async () => {
+    expect(await messages("resources:\n  limits:\n    cpu: 1000m\n", null)).toEqual([
+      "3: CPU value '1000m' will normalize to '1', may cause drift",
+    ]);
+  });
+});
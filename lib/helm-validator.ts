@@ -1,11 +1,18 @@
-import { exec } from "node:child_process";
+import { execFile } from "node:child_process";
 import { promisify } from "node:util";
-import { readFile } from "node:fs/promises";
-import { parse as parseYaml } from "yaml";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 import type { ValidationError } from "./types.js";
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 const TIMEOUT_MS = 10_000;
+// Rendered manifests of large charts exceed exec's 1MB default
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+// Bitnami charts that renamed master: to primary: (redis still has master)
+export const BITNAMI_PRIMARY_CHARTS = ["postgresql", "mysql", "mariadb"];
 
 /**
  * Run helm template to validate values against chart schema
@@ -14,87 +21,143 @@ export async function validateHelmTemplate(
   repoUrl: string,
   chartName: string,
   version: string,
-  valuesPath: string,
-  namespace: string
+  valueFiles: string[],
+  namespace: string,
+  inlineValues: Record<string, unknown> | null = null
 ): Promise<ValidationError[]> {
-  const errors: ValidationError[] = [];
+  const result = await renderHelmTemplate(
+    repoUrl,
+    chartName,
+    version,
+    valueFiles,
+    namespace,
+    inlineValues
+  );
+  return result.errors;
+}
+
+/**
+ * Render a chart with helm template; manifests is null when rendering failed.
+ * Value files apply in order, inline values (Argo helm.values) last.
+ */
+export async function renderHelmTemplate(
+  repoUrl: string,
+  chartName: string,
+  version: string,
+  valueFiles: string[],
+  namespace: string,
+  inlineValues: Record<string, unknown> | null = null
+): Promise<{ manifests: string | null; errors: ValidationError[] }> {
+  // Errors are reported against the app's own (last) values file
+  const valuesPath = valueFiles[valueFiles.length - 1] ?? "";
+  let inlineDir: string | null = null;
 
   try {
-    // Construct helm template command
+    // Construct helm template arguments; values come from repo YAML, so no shell
     const chart = repoUrl.startsWith("oci://")
       ? `${repoUrl}/${chartName}`
       : `${chartName}`;
 
-    const repoArg = repoUrl.startsWith("oci://") ? "" : `--repo ${repoUrl}`;
+    const repoArgs = repoUrl.startsWith("oci://") ? [] : ["--repo", repoUrl];
 
-    const cmd = `helm template test ${chart} ${repoArg} --version ${version} -f ${valuesPath} -n ${namespace} 2>&1`;
+    const files = [...valueFiles];
+    if (inlineValues) {
+      inlineDir = await mkdtemp(join(tmpdir(), "talos-gitops-values-"));
+      const inlinePath = join(inlineDir, "inline.yaml");
+      await writeFile(inlinePath, stringifyYaml(inlineValues));
+      files.push(inlinePath);
+    }
+    const valuesArgs = files.flatMap((f) => ["-f", f]);
 
-    await execAsync(cmd, { timeout: TIMEOUT_MS });
+    const args = [
+      "template", "test", chart, ...repoArgs, "--version", version, ...valuesArgs, "-n", namespace,
+    ];
+
+    const { stdout } = await execFileAsync("helm", args, {
+      timeout: TIMEOUT_MS,
+      maxBuffer: MAX_OUTPUT_BYTES,
+    });
 
     // If we get here, template succeeded
-    return [];
+    return { manifests: stdout, errors: [] };
   } catch (error) {
     if (error instanceof Error) {
       const message = (error as { stderr?: string }).stderr || error.message;
+      return { manifests: null, errors: parseHelmErrors(message, valuesPath) };
+    }
 
-      // Parse helm errors
-      const lines = message.split("\n");
+    return { manifests: null, errors: [] };
+  } finally {
+    if (inlineDir) await rm(inlineDir, { recursive: true, force: true });
+  }
+}
 
-      for (const line of lines) {
-        // Schema validation error
-        if (line.includes("values don't meet the specifications")) {
-          errors.push({
-            file: valuesPath,
-            severity: "error",
-            message: line.trim(),
-            fix: "Check helm show values for correct schema",
-          });
-        }
+/**
+ * Turn helm template error output into validation errors
+ */
+function parseHelmErrors(message: string, valuesPath: string): ValidationError[] {
+  const errors: ValidationError[] = [];
 
-        // Unknown field
-        const unknownMatch = line.match(/unknown field "([^"]+)"/);
-        if (unknownMatch) {
-          errors.push({
-            file: valuesPath,
-            severity: "error",
-            message: `Unknown field: ${unknownMatch[1]}`,
-            fix: `Remove or rename field "${unknownMatch[1]}"`,
-          });
-        }
+  // Parse helm errors
+  const lines = message.split("\n");
 
-        // Type mismatch
-        const typeMatch = line.match(/expected (.+), got (.+)/);
-        if (typeMatch) {
-          errors.push({
-            file: valuesPath,
-            severity: "error",
-            message: `Type mismatch: expected ${typeMatch[1]}, got ${typeMatch[2]}`,
-          });
-        }
-      }
+  for (const line of lines) {
+    // Schema validation error
+    if (line.includes("values don't meet the specifications")) {
+      errors.push({
+        file: valuesPath,
+        severity: "error",
+        message: line.trim(),
+        fix: "Check helm show values for correct schema",
+      });
+    }
 
-      // If no specific errors found, add generic one
-      if (errors.length === 0) {
-        errors.push({
-          file: valuesPath,
-          severity: "error",
-          message: `Helm template failed: ${message.slice(0, 200)}`,
-        });
-      }
+    // Unknown field
+    const unknownMatch = line.match(/unknown field "([^"]+)"/);
+    if (unknownMatch) {
+      errors.push({
+        file: valuesPath,
+        severity: "error",
+        message: `Unknown field: ${unknownMatch[1]}`,
+        fix: `Remove or rename field "${unknownMatch[1]}"`,
+      });
     }
 
-    return errors;
+    // Type mismatch
+    const typeMatch = line.match(/expected (.+), got (.+)/);
+    if (typeMatch) {
+      errors.push({
+        file: valuesPath,
+        severity: "error",
+        message: `Type mismatch: expected ${typeMatch[1]}, got ${typeMatch[2]}`,
+      });
+    }
+  }
+
+  // If no specific errors found, add generic one
+  if (errors.length === 0) {
+    errors.push({
+      file: valuesPath,
+      severity: "error",
+      message: `Helm template failed: ${message.slice(0, 200)}`,
+    });
   }
+
+  return errors;
 }
 
 /**
- * Check if values.yaml has control-plane tolerations
+ * Check if values.yaml has control-plane tolerations.
+ * Pass content to check proposed (not yet written) values.
  */
-export async function checkTolerations(valuesPath: string): Promise<ValidationError[]> {
+export async function checkTolerations(
+  valuesPath: string,
+  content?: string
+): Promise<ValidationError[]> {
   const errors: ValidationError[] = [];
 
   try {
-    const content = await readFile(valuesPath, "utf-8");
+    content ??= await readFile(valuesPath, "utf-8");
     const doc = parseYaml(content);
 
     if (!doc) return [];
@@ -145,22 +208,34 @@ export async function checkTolerations(valuesPath: string): Promise<ValidationEr
 }
 
 /**
- * Check for common schema mistakes
+ * Check for common schema mistakes.
+ * Pass content to check proposed (not yet written) values, and the chart
+ * they're for when known.
  */
-export async function checkCommonMistakes(valuesPath: string): Promise<ValidationError[]> {
+export async function checkCommonMistakes(
+  valuesPath: string,
+  content?: string,
+  chart: string | null = null
+): Promise<ValidationError[]> {
   const errors: ValidationError[] = [];
 
   try {
-    const content = await readFile(valuesPath, "utf-8");
+    content ??= await readFile(valuesPath, "utf-8");
     const lines = content.split("\n");
+    // bitnami/postgresql, oci://.../bitnamicharts/postgresql
+    const chartName = chart?.split("/").pop() ?? "";
 
     // Check for common mistakes
     const mistakes: Array<{ pattern: RegExp; message: string; fix: string }> = [
-      {
-        pattern: /^\s*master:/m,
-        message: "Bitnami charts use 'primary:' not 'master:'",
-        fix: "Replace 'master:' with 'primary:'",
-      },
+      ...(BITNAMI_PRIMARY_CHARTS.includes(chartName)
+        ? [
+            {
+              pattern: /^\s*master:/m,
+              message: `The Bitnami ${chartName} chart uses 'primary:' not 'master:'`,
+              fix: "Replace 'master:' with 'primary:'",
+            },
+          ]
+        : []),
       {
         pattern: /cpu:\s*1000m/,
         message: "CPU value '1000m' will normalize to '1', may cause drift",
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  findKustomization,
+  isKustomizationFile,
+  loadKustomization,
+  parseKustomization,
+  validateKustomization,
+} from "./kustomize.js";
+
+// Fixture app: apps/web with a deployment, a base directory and a plain directory
+let repo: string;
+let app: string;
+
+beforeAll(async () => {
+  repo = await mkdtemp(join(tmpdir(), "kustomize-test-"));
+  app = join(repo, "apps", "web");
+  await mkdir(join(app, "base"), { recursive: true });
+  await mkdir(join(app, "raw"));
+  await writeFile(join(app, "deployment.yaml"), "kind: Deployment\n");
+  await writeFile(join(app, "base", "kustomization.yml"), "resources: []\n");
+  await writeFile(join(app, "kustomization.yaml"), "resources:\n  - deployment.yaml\n");
+});
+
+afterAll(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe("parseKustomization", () => {
+  test("resolves local references and keeps remote ones", () => {
+    const content = `resources:
+  - deployment.yaml
+  - https://github.com/org/repo/deploy?ref=v1
+patches:
+  - path: patch.yaml
+  - patch: |-
+      - op: remove
+        path: /spec/replicas
+generators:
+  - secret-generator.yaml
+helmCharts:
+  - name: redis
+    repo: https://charts.example.com
+    version: 1.0.0
+    valuesFile: redis-values.yaml
+`;
+    const { kustomization, refs, errors } = parseKustomization(content, "/repo/apps/web/kustomization.yaml");
+
+    expect(errors).toEqual([]);
+    expect(kustomization).toMatchObject({
+      resources: ["/repo/apps/web/deployment.yaml", "https://github.com/org/repo/deploy?ref=v1"],
+      patches: ["/repo/apps/web/patch.yaml"],
+      generators: ["/repo/apps/web/secret-generator.yaml"],
+    });
+    expect(kustomization.helmCharts[0]).toMatchObject({
+      name: "redis",
+      version: "1.0.0",
+      valuesFile: "/repo/apps/web/redis-values.yaml",
+    });
+    expect(refs.map((r) => [r.field, r.line])).toEqual([
+      ["resources", 2],
+      ["patches", 5],
+      ["generators", 10],
+      ["helmCharts", 15],
+    ]);
+  });
+
+  test("warns about deprecated fields", () => {
+    const { errors } = parseKustomization("bases:\n  - ../base\n", "/repo/kustomization.yaml");
+    expect(errors).toEqual([
+      expect.objectContaining({ line: 2, severity: "warning", message: "bases is deprecated" }),
+    ]);
+  });
+});
+
+describe("validateKustomization", () => {
+  test("reports missing files, directories without a kustomization and duplicates", async () => {
+    const content = `resources:
+  - deployment.yaml
+  - base
+  - raw
+  - missing.yaml
+  - deployment.yaml
+`;
+    const errors = await validateKustomization(content, join(app, "kustomization.yaml"));
+
+    expect(errors.map((e) => [e.line, e.message])).toEqual([
+      [4, "resources entry raw is a directory without a kustomization.yaml"],
+      [5, "resources entry missing.yaml does not exist"],
+      [6, "Resource deployment.yaml is listed more than once"],
+    ]);
+  });
+});
+
+describe("finding kustomizations", () => {
+  test("by any of kustomize's file names", async () => {
+    expect(await findKustomization(join(app, "base"))).toBe(join(app, "base", "kustomization.yml"));
+    expect(await findKustomization(join(app, "raw"))).toBeNull();
+    expect((await loadKustomization(app))?.resources).toEqual([join(app, "deployment.yaml")]);
+    expect(isKustomizationFile("/repo/apps/web/Kustomization")).toBe(true);
+    expect(isKustomizationFile("/repo/apps/web/values.yaml")).toBe(false);
+  });
+});
@@ -0,0 +1,309 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { isNode, LineCounter, parseDocument, type Document } from "yaml";
+import { validateChartRepo, validateChartVersion } from "./url-checker.js";
+import type { Kustomization, KustomizeHelmChart, ValidationError } from "./types.js";
+
+/**
+ * A kustomization with the source lines validation points at
+ */
+export interface ParsedKustomization {
+  kustomization: Kustomization;
+  // Local files and directories it references, with the line of each reference
+  refs: Array<{ file: string; path: string; field: string; line?: number }>;
+  errors: ValidationError[];
+}
+
+type Obj = Record<string, unknown>;
+
+// File names kustomize looks for in a directory
+export const KUSTOMIZATION_FILES = ["kustomization.yaml", "kustomization.yml", "Kustomization"];
+
+// Fields listing resources: files, or directories with their own kustomization
+const RESOURCE_FIELDS = ["resources", "bases", "components"];
+
+// Fields kustomize still reads but has replaced
+const DEPRECATED_FIELDS: Record<string, string> = {
+  bases: "Move the entries to resources",
+  patchesStrategicMerge: "Move the entries to patches (path: ...)",
+  patchesJson6902: "Move the entries to patches (path: ..., target: ...)",
+};
+
+/**
+ * Check if a file is a kustomization (kustomization.yaml, .yml or Kustomization)
+ */
+export function isKustomizationFile(filePath: string): boolean {
+  return KUSTOMIZATION_FILES.includes(basename(filePath));
+}
+
+/**
+ * The kustomization file of a directory, if it has one
+ */
+export async function findKustomization(dir: string): Promise<string | null> {
+  for (const name of KUSTOMIZATION_FILES) {
+    try {
+      await stat(join(dir, name));
+      return join(dir, name);
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a kustomization: resources, patches, generators and helmCharts, with
+ * local paths resolved against its directory
+ */
+export function parseKustomization(content: string, filePath: string): ParsedKustomization {
+  const dir = dirname(filePath);
+  const kustomization: Kustomization = {
+    path: filePath,
+    resources: [],
+    patches: [],
+    generators: [],
+    helmCharts: [],
+  };
+  const parsed: ParsedKustomization = { kustomization, refs: [], errors: [] };
+
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, { lineCounter });
+  if (document.errors.length > 0) {
+    parsed.errors.push({
+      file: filePath,
+      severity: "error",
+      message: `Invalid YAML: ${document.errors[0].message}`,
+    });
+    return parsed;
+  }
+
+  const doc = asObj(document.toJS());
+  const line = (path: Array<string | number>) => lineAt(document, path, lineCounter);
+
+  // Local references; remote resources (URLs, git refs) are left as written
+  const reference = (value: unknown, path: Array<string | number>, into: string[]) => {
+    if (typeof value !== "string") return;
+    if (isRemote(value)) {
+      into.push(value);
+      return;
+    }
+    const file = join(dir, value);
+    into.push(file);
+    parsed.refs.push({ file, path: value, field: String(path[0]), line: line(path) });
+  };
+
+  for (const field of RESOURCE_FIELDS) {
+    items(doc[field]).forEach((r, i) => reference(r, [field, i], kustomization.resources));
+  }
+
+  // patches: [{ path } | { patch }], patchesStrategicMerge: [path | inline],
+  // patchesJson6902: [{ path }]
+  asList(doc.patches).forEach((p, i) =>
+    reference(p.path, ["patches", i, "path"], kustomization.patches)
+  );
+  items(doc.patchesStrategicMerge).forEach((p, i) => {
+    if (!isInline(p)) reference(p, ["patchesStrategicMerge", i], kustomization.patches);
+  });
+  asList(doc.patchesJson6902).forEach((p, i) =>
+    reference(p.path, ["patchesJson6902", i, "path"], kustomization.patches)
+  );
+
+  // Generator plugins (KSOPS and friends) and configMap/secret generator inputs
+  for (const field of ["generators", "transformers"]) {
+    items(doc[field]).forEach((g, i) => {
+      if (!isInline(g)) reference(g, [field, i], kustomization.generators);
+    });
+  }
+  for (const field of ["configMapGenerator", "secretGenerator"]) {
+    asList(doc[field]).forEach((generator, i) => {
+      for (const key of ["files", "envs"]) {
+        items(generator[key]).forEach((entry, j) => {
+          if (typeof entry !== "string") return;
+          // files: [key=path]
+          const path = entry.includes("=") ? entry.slice(entry.indexOf("=") + 1) : entry;
+          reference(path, [field, i, key, j], []);
+        });
+      }
+    });
+  }
+
+  asList(doc.helmCharts).forEach((chart, i) => {
+    const helmChart: KustomizeHelmChart = {
+      name: typeof chart.name === "string" ? chart.name : "",
+      repo: typeof chart.repo === "string" ? chart.repo : undefined,
+      version: chart.version !== undefined ? String(chart.version) : undefined,
+      releaseName: typeof chart.releaseName === "string" ? chart.releaseName : undefined,
+      namespace: typeof chart.namespace === "string" ? chart.namespace : undefined,
+      valuesInline: isPlainObject(chart.valuesInline) ? chart.valuesInline : null,
+    };
+    if (typeof chart.valuesFile === "string") {
+      const files: string[] = [];
+      reference(chart.valuesFile, ["helmCharts", i, "valuesFile"], files);
+      helmChart.valuesFile = files[0];
+    }
+    kustomization.helmCharts.push(helmChart);
+  });
+
+  for (const [field, fix] of Object.entries(DEPRECATED_FIELDS)) {
+    if (doc[field] !== undefined) {
+      parsed.errors.push({
+        file: filePath,
+        line: line([field]),
+        severity: "warning",
+        message: `${field} is deprecated`,
+        fix,
+      });
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Validate a kustomization: missing files, duplicate resources, helmCharts repo and version
+ */
+export async function validateKustomization(
+  content: string,
+  filePath: string
+): Promise<ValidationError[]> {
+  const { kustomization, refs, errors } = parseKustomization(content, filePath);
+
+  // Missing files; directories must hold a kustomization themselves
+  for (const ref of refs) {
+    let isDirectory: boolean;
+    try {
+      isDirectory = (await stat(ref.file)).isDirectory();
+    } catch {
+      errors.push({
+        file: filePath,
+        line: ref.line,
+        severity: "error",
+        message: `${ref.field} entry ${ref.path} does not exist`,
+      });
+      continue;
+    }
+
+    if (isDirectory && !RESOURCE_FIELDS.includes(ref.field)) {
+      errors.push({
+        file: filePath,
+        line: ref.line,
+        severity: "error",
+        message: `${ref.field} entry ${ref.path} is a directory, not a file`,
+      });
+    } else if (isDirectory && !(await findKustomization(ref.file))) {
+      errors.push({
+        file: filePath,
+        line: ref.line,
+        severity: "error",
+        message: `${ref.field} entry ${ref.path} is a directory without a kustomization.yaml`,
+        fix: "Add a kustomization.yaml there, or list its files instead",
+      });
+    }
+  }
+
+  // Same resource twice: kustomize refuses to build
+  const seen = new Set<string>();
+  for (const ref of refs.filter((r) => RESOURCE_FIELDS.includes(r.field))) {
+    if (seen.has(ref.file)) {
+      errors.push({
+        file: filePath,
+        line: ref.line,
+        severity: "error",
+        message: `Resource ${ref.path} is listed more than once`,
+        fix: "Remove the duplicate entry",
+      });
+    }
+    seen.add(ref.file);
+  }
+
+  for (const chart of kustomization.helmCharts) {
+    errors.push(...(await validateHelmChart(chart, filePath)));
+  }
+
+  return errors;
+}
+
+/**
+ * Read and parse the kustomization of a directory
+ */
+export async function loadKustomization(dir: string): Promise<Kustomization | null> {
+  const file = await findKustomization(dir);
+  if (!file) return null;
+
+  try {
+    return parseKustomization(await readFile(file, "utf-8"), file).kustomization;
+  } catch {
+    return null;
+  }
+}
+
+async function validateHelmChart(
+  chart: KustomizeHelmChart,
+  filePath: string
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  if (!chart.repo) return errors;
+
+  const repoError = await validateChartRepo(chart.repo, chart.name);
+  if (repoError) {
+    repoError.file = filePath;
+    errors.push(repoError);
+  }
+
+  if (!chart.version) {
+    errors.push({
+      file: filePath,
+      severity: "warning",
+      message: `helmCharts ${chart.name} has no version; kustomize pulls the latest`,
+      fix: "Pin the chart version",
+    });
+    return errors;
+  }
+
+  const versionError = await validateChartVersion(chart.repo, chart.name, chart.version);
+  if (versionError) {
+    versionError.file = filePath;
+    errors.push(versionError);
+  }
+
+  return errors;
+}
+
+function isRemote(path: string): boolean {
+  return (
+    /^[a-z][a-z0-9+.-]*:\/\//i.test(path) ||
+    /^(github\.com|gitlab\.com|git@)/.test(path) ||
+    path.includes("?ref=")
+  );
+}
+
+// Inline patch or generator config instead of a path
+function isInline(value: unknown): boolean {
+  return typeof value !== "string" || value.includes("\n");
+}
+
+function lineAt(
+  document: Document.Parsed,
+  path: Array<string | number>,
+  lineCounter: LineCounter
+): number | undefined {
+  const node = document.getIn(path, true);
+  return isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+}
+
+function items(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isPlainObject(value: unknown): value is Obj {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function asObj(value: unknown): Obj {
+  return isPlainObject(value) ? value : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
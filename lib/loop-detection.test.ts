@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import {
+  clearFailures,
+  commandKeys,
+  commandOutcome,
+  errorSignature,
+  recordOutcome,
+  repeatedFailure,
+} from "./loop-detection.js";
+import { SessionStateSchema, type HookInput, type LoopConfig } from "./types.js";
+
+const CONFIG: LoopConfig = { failures: 2, window: 1800 };
+
+const bash = (command: string, extra: Partial<HookInput> = {}): HookInput => ({
+  tool_name: "Bash",
+  tool_input: { command },
+  ...extra,
+});
+
+const failed = (command: string, stderr: string, at: number) =>
+  commandOutcome(bash(command, { tool_response: { exitCode: 1, stdout: "", stderr } }), at);
+
+describe("commandKeys", () => {
+  test("ignores whitespace and flag order in the variant, flags in the family", () => {
+    const a = commandKeys("helm  template web ./chart --debug -n web");
+    const b = commandKeys("helm template web ./chart -n web --debug");
+    const c = commandKeys("helm template web ./chart -n web");
+
+    expect(a.variant).toBe(b.variant);
+    expect(a.variant).not.toBe(c.variant);
+    expect(a.family).toBe(c.family);
+    expect(commandKeys("helm template db ./chart").family).not.toBe(a.family);
+  });
+
+  test("keeps the values of target flags in the family", () => {
+    const a = commandKeys("helm template web ./chart -f a.yaml");
+    const b = commandKeys("helm template web ./chart -f b.yaml");
+
+    expect(a.family).not.toBe(b.family);
+    expect(commandKeys("helm template web ./chart --debug -f a.yaml").family).toBe(a.family);
+    expect(commandKeys("kubectl get pods -n web").family).not.toBe(
+      commandKeys("kubectl get pods -n db").family
+    );
+  });
+});
+
+describe("commandOutcome", () => {
+  test("takes the error line from the output", () => {
+    const outcome = failed(
+      "helm template web ./chart",
+      "walk.go:74: found symbolic link\nError: chart requires kubeVersion: >=1.30.0\n",
+      1000
+    );
+
+    expect(outcome).toEqual({
+      command: "helm template web ./chart",
+      at: 1000,
+      exitCode: 1,
+      failed: true,
+      signature: "error: chart requires kubeversion: >=<n>.<n>.<n>",
+      error: "Error: chart requires kubeVersion: >=1.30.0",
+    });
+  });
+
+  test.each<[string, HookInput, boolean]>([
+    ["grep exiting 1", bash("kubectl get pods | grep web", { tool_response: { exitCode: 1 } }), false],
+    ["argocd app diff exiting 1", bash("argocd app diff web", { tool_response: { exitCode: 1 } }), false],
+    ["a PostToolUseFailure", bash("helm lint", { error: "Exit code 2\nError: no chart found" }), true],
+    [
+      "fatal stderr without an exit code",
+      bash("talosctl get members", { tool_response: { stderr: "level=fatal msg=x" } }),
+      true,
+    ],
+    ["clean output", bash("ls", { tool_response: { stdout: "a\n", stderr: "" } }), false],
+  ])("%s", (_, input, expected) => {
+    expect(commandOutcome(input).failed).toBe(expected);
+  });
+});
+
+describe("errorSignature", () => {
+  test("masks timestamps, hashes and numbers", () => {
+    expect(errorSignature("2026-01-02T10:11:12Z  pod web-5d8f9c7b6 failed after 30s")).toBe(
+      "<time> pod web-<hash> failed after <n>s"
+    );
+  });
+});
+
+describe("repeatedFailure", () => {
+  const command = "helm template web ./chart";
+  const error = "Error: chart requires kubeVersion: >=1.30.0";
+
+  test("reports the same error across flag variants once it reaches the threshold", () => {
+    const state = SessionStateSchema.parse({});
+    recordOutcome(state, command, failed(command, error, 1000), CONFIG);
+    expect(repeatedFailure(state, command, CONFIG, 1000)).toBeNull();
+
+    const variant = `${command} --debug`;
+    recordOutcome(state, variant, failed(variant, error, 2000), CONFIG);
+
+    expect(repeatedFailure(state, command, CONFIG, 2000)).toEqual({ error, count: 2, variants: 2 });
+  });
+
+  test("doesn't count different errors together", () => {
+    const state = SessionStateSchema.parse({});
+    recordOutcome(state, command, failed(command, error, 1000), CONFIG);
+    recordOutcome(state, command, failed(command, "Error: no repo named bitnami", 2000), CONFIG);
+
+    expect(repeatedFailure(state, command, CONFIG, 2000)).toBeNull();
+  });
+
+  test("forgets failures after a success, outside the window and when cleared", () => {
+    const success = commandOutcome(bash(command, { tool_response: { exitCode: 0 } }), 2000);
+    const state = SessionStateSchema.parse({});
+    recordOutcome(state, command, failed(command, error, 1000), CONFIG);
+    recordOutcome(state, command, success, CONFIG);
+    recordOutcome(state, command, failed(command, error, 3000), CONFIG);
+    expect(repeatedFailure(state, command, CONFIG, 3000)).toBeNull();
+
+    recordOutcome(state, command, failed(command, error, 4000), CONFIG);
+    expect(repeatedFailure(state, command, CONFIG, 4000)?.count).toBe(2);
+    expect(repeatedFailure(state, command, CONFIG, 3000 + CONFIG.window * 1000 + 1)).toBeNull();
+
+    clearFailures(state, command);
+    expect(repeatedFailure(state, command, CONFIG, 4000)).toBeNull();
+  });
+});
@@ -0,0 +1,224 @@
+import { parseCliArgs } from "./cli-args.js";
+import { extractInvocations, type Invocation } from "./shell-parser.js";
+import type { CommandOutcome, HookInput, LoopConfig, SessionState } from "./types.js";
+
+// Outcomes kept per command family
+const MAX_OUTCOMES = 20;
+
+// Lines that say what went wrong, preferred over the last line of output
+const ERROR_LINE =
+  /\b(error|fatal|failed|failure|denied|forbidden|not found|no such|invalid|cannot|can't|unable|refused|timed out|timeout)\b/i;
+
+// Programs whose exit code 1 is an answer, not a failure
+const EXIT_1_ANSWERS = ["grep", "egrep", "fgrep", "rg", "diff", "test", "["];
+
+// Flags whose value picks what a command acts on (files, namespaces, nodes,
+// clusters): a different value is a different command, not a variant
+const TARGET_FLAGS = new Set([
+  "-f",
+  "--filename",
+  "--values",
+  "--file",
+  "-k",
+  "--kustomize",
+  "-n",
+  "--namespace",
+  "--nodes",
+  "-e",
+  "--endpoints",
+  "--context",
+  "--kube-context",
+  "--cluster",
+  "-l",
+  "--selector",
+  "--patch",
+  "--patch-file",
+  "-C",
+]);
+
+/**
+ * A repeated failure that should stop the command
+ */
+export interface RepeatedFailure {
+  error: string;
+  count: number;
+  // Distinct variants (flags) of the command that failed this way
+  variants: number;
+}
+
+/**
+ * Keys for a command line: variant is the command modulo whitespace and
+ * flag order, family also ignores the flags (except TARGET_FLAGS), so
+ * flipping one doesn't make it a different command
+ */
+export function commandKeys(command: string): { family: string; variant: string } {
+  const invocations = extractInvocations(command);
+  if (invocations.length === 0) {
+    const normalized = command.trim().replace(/\s+/g, " ");
+    return { family: normalized, variant: normalized };
+  }
+
+  const parsed = invocations.map((inv) => ({ inv, args: parseCliArgs(inv) }));
+  const family = parsed.map(({ inv, args }) => {
+    const targets = flagList(args.flags, (name, value) => value !== true && TARGET_FLAGS.has(name));
+    return [inv.program, ...args.subcommand, ...targets, ...args.positionals].join(" ");
+  });
+  const variant = parsed.map(({ inv, args }) =>
+    [inv.program, ...args.subcommand, ...flagList(args.flags), ...args.positionals].join(" ")
+  );
+
+  return { family: family.join(" | "), variant: variant.join(" | ") };
+}
+
+// Flags as sorted name or name=value strings
+function flagList(
+  flags: Map<string, string | true>,
+  keep: (name: string, value: string | true) => boolean = () => true
+): string[] {
+  return [...flags.entries()]
+    .filter(([name, value]) => keep(name, value))
+    .map(([name, value]) => (value === true ? name : `${name}=${value}`))
+    .sort();
+}
+
+/**
+ * Outcome of a Bash command from PostToolUse (tool_response) or
+ * PostToolUseFailure (error) input
+ */
+export function commandOutcome(hookInput: HookInput, now = Date.now()): CommandOutcome {
+  const command = (hookInput.tool_input.command as string) || "";
+  const response = hookInput.tool_response ?? {};
+  const text = (key: string) => (typeof response[key] === "string" ? (response[key] as string) : "");
+
+  const failureText = hookInput.error ?? "";
+  const exitCode =
+    [response.exitCode, response.exit_code, response.returnCode].find(
+      (c): c is number => typeof c === "number"
+    ) ?? numberOrNull(failureText.match(/^Exit code (\d+)/m)?.[1]);
+
+  const output = [failureText.replace(/^Exit code \d+\n?/m, ""), text("stderr"), text("stdout")]
+    .filter(Boolean)
+    .join("\n");
+
+  let failed: boolean;
+  if (exitCode !== null) {
+    failed = exitCode !== 0 && !(exitCode === 1 && answersWithExit1(command));
+  } else {
+    failed =
+      hookInput.error !== undefined ||
+      response.interrupted === true ||
+      /^(Error|error|fatal|FATA\[)|level=fatal/m.test(text("stderr"));
+  }
+
+  const error = failed ? errorLine(output) ?? `exit code ${exitCode ?? "unknown"}` : null;
+
+  return {
+    command: commandKeys(command).variant,
+    at: now,
+    exitCode,
+    failed,
+    signature: error && errorSignature(error),
+    error,
+  };
+}
+
+/**
+ * Record an outcome under its command family. A success clears the
+ * family's failures; outcomes older than the window are dropped.
+ */
+export function recordOutcome(
+  state: SessionState,
+  command: string,
+  outcome: CommandOutcome,
+  config: LoopConfig
+): void {
+  const { family } = commandKeys(command);
+  const cutoff = outcome.at - config.window * 1000;
+
+  for (const [key, outcomes] of Object.entries(state.loopDetection)) {
+    const recent = outcomes.filter((o) => o.at >= cutoff);
+    if (recent.length > 0) state.loopDetection[key] = recent;
+    else delete state.loopDetection[key];
+  }
+
+  const outcomes = outcome.failed ? (state.loopDetection[family] ?? []) : [];
+  state.loopDetection[family] = [...outcomes, outcome].slice(-MAX_OUTCOMES);
+}
+
+/**
+ * The error a command's family has failed with at least config.failures
+ * times within the window since its last success; null when none has
+ */
+export function repeatedFailure(
+  state: SessionState,
+  command: string,
+  config: LoopConfig,
+  now = Date.now()
+): RepeatedFailure | null {
+  const { family } = commandKeys(command);
+  const cutoff = now - config.window * 1000;
+  const failures = (state.loopDetection[family] ?? []).filter((o) => o.failed && o.at >= cutoff);
+
+  const bySignature = new Map<string, CommandOutcome[]>();
+  for (const failure of failures) {
+    const key = failure.signature ?? "";
+    bySignature.set(key, [...(bySignature.get(key) ?? []), failure]);
+  }
+
+  let worst: CommandOutcome[] = [];
+  for (const group of bySignature.values()) {
+    if (group.length > worst.length) worst = group;
+  }
+  if (worst.length < config.failures) return null;
+
+  return {
+    error: worst[worst.length - 1].error ?? "unknown error",
+    count: worst.length,
+    variants: new Set(worst.map((o) => o.command)).size,
+  };
+}
+
+/**
+ * Forget a command family's failures once it has been blocked
+ */
+export function clearFailures(state: SessionState, command: string): void {
+  delete state.loopDetection[commandKeys(command).family];
+}
+
+/**
+ * Error line with what varies between runs masked: timestamps, hashes,
+ * numbers, whitespace
+ */
+export function errorSignature(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/\d{4}-\d{2}-\d{2}[t ][\d:.]+z?/g, "<time>")
+    .replace(/\b[0-9a-f]{7,}\b/g, "<hash>")
+    .replace(/\d+/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 200);
+}
+
+// First line saying what went wrong, else the last line of output
+function errorLine(output: string): string | null {
+  const lines = output
+    .replace(/\x1b\[[0-9;]*m/g, "")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+  const line = lines.find((l) => ERROR_LINE.test(l)) ?? lines[lines.length - 1];
+  return line ? line.slice(0, 300) : null;
+}
+
+// Last program of the line decides the exit code
+function answersWithExit1(command: string): boolean {
+  const last: Invocation | undefined = extractInvocations(command).at(-1);
+  if (!last) return false;
+  if (EXIT_1_ANSWERS.includes(last.program)) return true;
+  return last.program === "argocd" && parseCliArgs(last).subcommand.join(" ") === "app diff";
+}
+
+function numberOrNull(value: string | undefined): number | null {
+  return value === undefined ? null : Number(value);
+}
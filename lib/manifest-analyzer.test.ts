@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import { analyzeManifests, parseRenderedManifests, podSpecOf } from "./manifest-analyzer.js";
+import type { Node } from "./types.js";
+
+const RENDERED = `---
+# Source: app/templates/controller/deployment.yaml
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: app-controller
+  namespace: app
+spec:
+  template:
+    spec:
+      hostNetwork: true
+      containers: [{ name: c, image: app:1 }]
+---
+# Source: app/templates/agent/daemonset.yaml
+apiVersion: apps/v1
+kind: DaemonSet
+metadata:
+  name: app-agent
+spec:
+  template:
+    spec:
+      tolerations: [{ operator: Exists }]
+      containers: [{ name: c, image: app:1 }]
+---
+# Source: app/templates/configmap.yaml
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: app-config
+---
+`;
+
+const VALUES = `controller:
+  replicas: 1
+  hostNetwork: true
+agent:
+  image: app:1
+`;
+
+describe("parseRenderedManifests", () => {
+  test("reads objects and their template sources", () => {
+    const objects = parseRenderedManifests(RENDERED);
+
+    expect(objects.map((o) => [o.kind, o.name, o.source])).toEqual([
+      ["Deployment", "app-controller", "app/templates/controller/deployment.yaml"],
+      ["DaemonSet", "app-agent", "app/templates/agent/daemonset.yaml"],
+      ["ConfigMap", "app-config", "app/templates/configmap.yaml"],
+    ]);
+    expect(podSpecOf(objects[0])?.hostNetwork).toBe(true);
+    expect(podSpecOf(objects[2])).toBeNull();
+  });
+});
+
+function node(name: string, ip: string, role: Node["role"]): Node {
+  return { name, ip, role, addresses: [`${ip}/24`], vips: [], labels: {}, taints: {}, patches: [] };
+}
+
+const controlPlane = [node("cp1", "10.0.0.1", "control-plane")];
+const withWorkers = [...controlPlane, node("w1", "10.0.0.11", "worker")];
+
+describe("analyzeManifests", () => {
+  const objects = parseRenderedManifests(RENDERED);
+  const errors = analyzeManifests(objects, "/repo/values.yaml", VALUES, { nodes: controlPlane });
+
+  test("flags workloads without a control-plane toleration in their values section", () => {
+    const missing = errors.filter((e) => e.message.includes("no control-plane toleration"));
+
+    expect(missing).toHaveLength(1);
+    expect(missing[0]).toMatchObject({
+      line: 1,
+      message: "Deployment/app-controller (app/templates/controller/deployment.yaml) has no control-plane toleration",
+    });
+    expect(missing[0].fix).toContain("to controller.tolerations");
+  });
+
+  test("doesn't ask for tolerations when the cluster has workers", () => {
+    const withWorkerErrors = analyzeManifests(objects, "/repo/values.yaml", VALUES, { nodes: withWorkers });
+    expect(withWorkerErrors.some((e) => e.message.includes("toleration"))).toBe(false);
+  });
+
+  test("flags hostNetwork under the Talos default baseline level, on the hostNetwork line", () => {
+    const hostNetwork = errors.filter((e) => e.message.includes("hostNetwork"));
+
+    expect(hostNetwork.map((e) => [e.severity, e.line])).toEqual([
+      ["error", 3],
+      ["warning", 3],
+      ["warning", 3],
+    ]);
+    expect(hostNetwork.map((e) => e.fix)).toEqual([
+      "Change the values so the pod meets baseline, or label the namespace pod-security.kubernetes.io/enforce: privileged",
+      "Set the Deployment strategy to Recreate (e.g. controller.strategy.type: Recreate)",
+      "Set controller.dnsPolicy: ClusterFirstWithHostNet",
+    ]);
+    expect(errors.at(-1)?.message).toBe(
+      "Namespace needs privileged Pod Security Standard; it has no PSA label (Talos default baseline)"
+    );
+  });
+
+  test("accepts hostNetwork in a privileged namespace", () => {
+    const privileged = analyzeManifests(objects, "/repo/values.yaml", VALUES, {
+      psaLevel: "privileged",
+      nodes: controlPlane,
+    });
+    expect(privileged.filter((e) => e.severity !== "warning")).toEqual([]);
+  });
+
+  test("reports without lines when the values don't parse", () => {
+    const unparsed = analyzeManifests(objects, "/repo/values.yaml", "a: [", { nodes: controlPlane });
+    expect(unparsed.length).toBe(errors.length);
+    expect(unparsed.every((e) => e.line === undefined)).toBe(true);
+  });
+});
+
+describe("analyzeManifests Secret restarts", () => {
+  const rendered = (podAnnotations: string) => `---
+# Source: app/templates/worker/deployment.yaml
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: app-worker
+spec:
+  template:
+    metadata:
+      annotations: {${podAnnotations}}
+    spec:
+      tolerations: [{ operator: Exists }]
+      containers:
+        - name: c
+          image: app:1
+          envFrom: [{ secretRef: { name: app-env } }]
+`;
+  const values = "worker:\n  podAnnotations: {}\n";
+  const restartWarnings = (podAnnotations: string) =>
+    analyzeManifests(parseRenderedManifests(rendered(podAnnotations)), "/repo/values.yaml", values, {
+      nodes: controlPlane,
+    }).filter((e) => e.message.includes("restarts"));
+
+  test("warns when nothing restarts a workload using a Secret", () => {
+    expect(restartWarnings("")).toEqual([
+      {
+        file: "/repo/values.yaml",
+        line: 2,
+        severity: "warning",
+        message:
+          "Deployment/app-worker (app/templates/worker/deployment.yaml) uses Secret app-env " +
+          "but nothing restarts it when the Secret changes",
+        fix:
+          'Add worker.podAnnotations: { secret-version: "1" } and bump it with the Secret, ' +
+          'or annotate the workload reloader.stakater.com/auto: "true"',
+      },
+    ]);
+  });
+
+  test("accepts a checksum pod annotation", () => {
+    expect(restartWarnings("checksum/secret: abc")).toEqual([]);
+  });
+});
@@ -0,0 +1,425 @@
+import {
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  LineCounter,
+  parseAllDocuments,
+  parseDocument,
+  type Document,
+} from "yaml";
+import { renderHelmTemplate } from "./helm-validator.js";
+import {
+  comparePsaLevels,
+  evaluatePodSecurity,
+  requiredPsaLevel,
+  violationsAt,
+  TALOS_DEFAULT_PSA_LEVEL,
+  type PsaViolation,
+} from "./pod-security.js";
+import { isControlPlaneOnly } from "./cluster-context.js";
+import { LONG_RUNNING_KINDS, restartMechanism, secretsConsumed } from "./secret-restart.js";
+import type { AppDefinition, Node, PsaLevel, ValidationError } from "./types.js";
+
+/**
+ * A Kubernetes object from rendered chart output
+ */
+export interface RenderedObject {
+  kind: string;
+  name: string;
+  namespace?: string;
+  // Template that produced it, from helm's "# Source:" comment
+  source?: string;
+  doc: Record<string, unknown>;
+}
+
+type PodSpec = Record<string, unknown>;
+
+const CONTROL_PLANE_TAINT = "node-role.kubernetes.io/control-plane";
+
+// Where each workload kind keeps its pod spec
+const POD_SPEC_PATHS: Record<string, string[]> = {
+  Deployment: ["spec", "template", "spec"],
+  StatefulSet: ["spec", "template", "spec"],
+  DaemonSet: ["spec", "template", "spec"],
+  ReplicaSet: ["spec", "template", "spec"],
+  Job: ["spec", "template", "spec"],
+  CronJob: ["spec", "jobTemplate", "spec", "template", "spec"],
+  Pod: ["spec"],
+};
+
+/**
+ * Render an app's chart with its values and check the rendered workloads.
+ * Helm errors are returned instead when the chart doesn't render.
+ * valueFiles defaults to all of the app's value files.
+ */
+export async function analyzeRenderedApp(
+  app: AppDefinition,
+  valuesContent: string,
+  nodes: Node[] = [],
+  valueFiles: string[] = app.valueFiles
+): Promise<ValidationError[]> {
+  // Kustomize apps aren't rendered
+  if (!app.chart) return [];
+
+  const { manifests, errors } = await renderHelmTemplate(
+    app.chart.repo,
+    app.chart.name,
+    app.chart.version,
+    valueFiles,
+    app.namespace,
+    app.inlineValues
+  );
+  if (manifests === null) return errors;
+
+  return analyzeManifests(parseRenderedManifests(manifests), app.valuesPath, valuesContent, {
+    psaLevel: app.psaLevel,
+    nodes,
+  });
+}
+
+/**
+ * Parse helm template output into objects, skipping empty documents
+ */
+export function parseRenderedManifests(output: string): RenderedObject[] {
+  const objects: RenderedObject[] = [];
+
+  for (const document of parseAllDocuments(output)) {
+    if (!("contents" in document) || document.errors.length > 0) continue;
+
+    const doc = document.toJS();
+    if (!doc || typeof doc !== "object" || typeof doc.kind !== "string") continue;
+
+    // The comment after "---" belongs to the document or its first node
+    const comment =
+      document.commentBefore ??
+      (isMap(document.contents) ? document.contents.commentBefore : null);
+    const source = comment?.match(/Source:\s*(\S+)/)?.[1];
+
+    objects.push({
+      kind: doc.kind,
+      name: doc.metadata?.name ?? "(unnamed)",
+      namespace: doc.metadata?.namespace,
+      source,
+      doc,
+    });
+  }
+
+  return objects;
+}
+
+/**
+ * Pod spec of a workload object; null for other kinds
+ */
+export function podSpecOf(object: RenderedObject): PodSpec | null {
+  const path = POD_SPEC_PATHS[object.kind];
+  if (!path) return null;
+
+  const spec = getPath(object.doc, path);
+  return spec && typeof spec === "object" ? (spec as PodSpec) : null;
+}
+
+/**
+ * Pod template annotations of a workload object
+ */
+export function podAnnotationsOf(object: RenderedObject): Record<string, unknown> {
+  const path = POD_SPEC_PATHS[object.kind];
+  if (!path) return {};
+
+  // Pod template metadata sits next to its spec
+  const annotations = getPath(object.doc, [...path.slice(0, -1), "metadata", "annotations"]);
+  return annotations && typeof annotations === "object"
+    ? (annotations as Record<string, unknown>)
+    : {};
+}
+
+export interface AnalyzeOptions {
+  // Namespace enforce level; null means the Talos default
+  psaLevel?: PsaLevel | null;
+  // Target cluster's nodes; tolerations only matter without workers
+  nodes?: Node[];
+}
+
+/**
+ * Check rendered workloads: control-plane tolerations, Pod Security Standards
+ * against the namespace level, Secret restart mechanism, hostNetwork strategy.
+ * Problems are attributed to the values file, on the line that sets them when found.
+ */
+export function analyzeManifests(
+  objects: RenderedObject[],
+  valuesPath: string,
+  valuesContent: string,
+  options: AnalyzeOptions = {}
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const psaLevel = options.psaLevel ?? null;
+  const needsTolerations = isControlPlaneOnly({ nodes: options.nodes ?? [] });
+  const values = parseValuesSource(valuesContent);
+  const enforced = psaLevel ?? TALOS_DEFAULT_PSA_LEVEL;
+  const allViolations: PsaViolation[] = [];
+
+  for (const object of objects) {
+    const podSpec = podSpecOf(object);
+    if (!podSpec) continue;
+
+    const ref = describeObject(object);
+    const section = componentFor(values, object);
+    const prefix = section ? `${section}.` : "";
+
+    // 1. Control-plane tolerations
+    if (needsTolerations && !toleratesControlPlane(podSpec)) {
+      errors.push({
+        file: valuesPath,
+        line: findLine(values, section, "tolerations") ?? sectionLine(values, section),
+        severity: "warning",
+        message: `${ref} has no control-plane toleration`,
+        fix:
+          `Add { key: "${CONTROL_PLANE_TAINT}", operator: "Exists", effect: "NoSchedule" } ` +
+          `to ${prefix}tolerations (check helm show values for the exact path)`,
+      });
+    }
+
+    // 2. Pod Security Standards: fields the namespace level rejects
+    const violations = evaluatePodSecurity(podSpec, podAnnotationsOf(object));
+    allViolations.push(...violations);
+
+    for (const violation of violationsAt(violations, enforced)) {
+      errors.push({
+        file: valuesPath,
+        line: violationLine(values, section, violation),
+        severity: "error",
+        message:
+          `${ref} violates ${enforced} Pod Security Standard (${violation.control}): ` +
+          `${violation.field} ${violation.detail}`,
+        fix:
+          `Change the values so the pod meets ${enforced}, or label the namespace ` +
+          `pod-security.kubernetes.io/enforce: ${requiredPsaLevel(violations)}`,
+      });
+    }
+
+    // 3. Secrets only reach running pods through something that restarts them
+    if (LONG_RUNNING_KINDS.includes(object.kind)) {
+      const uses = secretsConsumed(podSpec);
+      const workloadAnnotations = getPath(object.doc, ["metadata", "annotations"]);
+      const mechanism = restartMechanism(
+        workloadAnnotations && typeof workloadAnnotations === "object"
+          ? (workloadAnnotations as Record<string, unknown>)
+          : {},
+        podAnnotationsOf(object),
+        podSpec,
+        uses
+      );
+
+      if (uses.length > 0 && !mechanism) {
+        const names = [...new Set(uses.map((u) => u.name))].join(", ");
+        errors.push({
+          file: valuesPath,
+          line: findLine(values, section, "podAnnotations") ?? sectionLine(values, section),
+          severity: "warning",
+          message: `${ref} uses Secret ${names} but nothing restarts it when the Secret changes`,
+          fix:
+            `Add ${prefix}podAnnotations: { secret-version: "1" } and bump it with the Secret, ` +
+            `or annotate the workload reloader.stakater.com/auto: "true"`,
+        });
+      }
+    }
+
+    if (podSpec.hostNetwork !== true) continue;
+
+    const hostNetworkLine = findLine(values, section, "hostNetwork", true);
+
+    // 4. Rolling updates can't start a second pod on the same host ports
+    if (object.kind === "Deployment") {
+      const strategy = getPath(object.doc, ["spec", "strategy", "type"]) ?? "RollingUpdate";
+      if (strategy !== "Recreate") {
+        errors.push({
+          file: valuesPath,
+          line: findLine(values, section, /strategy/i) ?? hostNetworkLine,
+          severity: "warning",
+          message: `${ref} uses hostNetwork with ${strategy} strategy; new pods can't bind host ports held by old ones`,
+          fix: `Set the Deployment strategy to Recreate (e.g. ${prefix}strategy.type: Recreate)`,
+        });
+      }
+    }
+
+    // 5. hostNetwork pods use the node's resolver unless told otherwise
+    if (podSpec.dnsPolicy !== "ClusterFirstWithHostNet") {
+      errors.push({
+        file: valuesPath,
+        line: hostNetworkLine,
+        severity: "warning",
+        message: `${ref} uses hostNetwork without dnsPolicy ClusterFirstWithHostNet; cluster DNS names won't resolve`,
+        fix: `Set ${prefix}dnsPolicy: ClusterFirstWithHostNet`,
+      });
+    }
+  }
+
+  // Minimum namespace level for all workloads together
+  const hasWorkloads = objects.some((object) => podSpecOf(object) !== null);
+  const required = requiredPsaLevel(allViolations);
+
+  if (hasWorkloads && required !== enforced) {
+    const current = psaLevel
+      ? `enforces ${psaLevel}`
+      : `has no PSA label (Talos default ${enforced})`;
+    const direction = comparePsaLevels(required, enforced) < 0 ? "needs" : "could be tightened to";
+
+    errors.push({
+      file: valuesPath,
+      severity: "info",
+      message: `Namespace ${direction} ${required} Pod Security Standard; it ${current}`,
+      fix: `Label the namespace pod-security.kubernetes.io/enforce: ${required}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Values line for a violation: the key named by the field's last segment
+ */
+function violationLine(
+  values: ValuesSource | null,
+  section: string | undefined,
+  violation: PsaViolation
+): number | undefined {
+  const key = violation.field.split(".").pop()!.replace(/\[.*\]$/, "");
+  const value = violation.detail === "true" ? true : undefined;
+
+  return findLine(values, section, key, value);
+}
+
+function toleratesControlPlane(podSpec: PodSpec): boolean {
+  const tolerations = Array.isArray(podSpec.tolerations) ? podSpec.tolerations : [];
+
+  return tolerations.some((t: Record<string, unknown>) => {
+    if (!t || typeof t !== "object") return false;
+    if (t.effect && t.effect !== "NoSchedule") return false;
+
+    // Empty key with Exists tolerates every taint
+    if (!t.key) return t.operator === "Exists";
+    return t.key === CONTROL_PLANE_TAINT;
+  });
+}
+
+function describeObject(object: RenderedObject): string {
+  const source = object.source ? ` (${object.source})` : "";
+  return `${object.kind}/${object.name}${source}`;
+}
+
+function getPath(obj: unknown, path: string[]): unknown {
+  return path.reduce((current: unknown, key) => {
+    if (current && typeof current === "object") {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, obj);
+}
+
+/**
+ * Parsed values file, for finding the lines that set rendered properties
+ */
+interface ValuesSource {
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+function parseValuesSource(content: string): ValuesSource | null {
+  const lineCounter = new LineCounter();
+
+  try {
+    const doc = parseDocument(content, { lineCounter });
+    return doc.errors.length === 0 ? { doc, lineCounter } : null;
+  } catch {
+    // Unattributable: problems are reported without lines
+    return null;
+  }
+}
+
+/**
+ * Top-level values section that configures an object, matched against its
+ * name and template path (e.g. "controller" for templates/controller/deployment.yaml)
+ */
+function componentFor(values: ValuesSource | null, object: RenderedObject): string | undefined {
+  const root = values?.doc.contents;
+  if (!isMap(root)) return undefined;
+
+  const haystack = `${object.name} ${object.source ?? ""}`.toLowerCase();
+  let best: string | undefined;
+
+  for (const pair of root.items) {
+    const key = isScalar(pair.key) ? String(pair.key.value) : "";
+    if (!key || !isMap(pair.value)) continue;
+
+    const kebab = key.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+    if (haystack.includes(kebab) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Line of the first key matching (and value equal to, when given), searched
+ * in the section first and then the whole file
+ */
+function findLine(
+  values: ValuesSource | null,
+  section: string | undefined,
+  key: string | RegExp,
+  value?: unknown
+): number | undefined {
+  if (!values) return undefined;
+
+  const root = values.doc.contents;
+  const scoped = section && isMap(root) ? root.get(section, true) : undefined;
+
+  const pair = (scoped ? findPair(scoped, key, value) : undefined) ?? findPair(root, key, value);
+  return lineOf(values, pair?.key);
+}
+
+/**
+ * Line of a top-level section's key
+ */
+function sectionLine(values: ValuesSource | null, section: string | undefined): number | undefined {
+  const root = values?.doc.contents;
+  if (!section || !isMap(root)) return undefined;
+
+  const pair = root.items.find((p) => isScalar(p.key) && p.key.value === section);
+  return lineOf(values, pair?.key);
+}
+
+function findPair(
+  node: unknown,
+  key: string | RegExp,
+  value?: unknown
+): { key: unknown } | undefined {
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      if (!isPair(pair) || !isScalar(pair.key)) continue;
+
+      const name = String(pair.key.value);
+      const keyMatches = typeof key === "string" ? name === key : key.test(name);
+      const valueMatches =
+        value === undefined || (isScalar(pair.value) && pair.value.value === value);
+
+      if (keyMatches && valueMatches) return pair;
+
+      const nested = findPair(pair.value, key, value);
+      if (nested) return nested;
+    }
+  } else if (isSeq(node)) {
+    for (const item of node.items) {
+      const nested = findPair(item, key, value);
+      if (nested) return nested;
+    }
+  }
+
+  return undefined;
+}
+
+function lineOf(values: ValuesSource | null, node: unknown): number | undefined {
+  const offset = isScalar(node) ? node.range?.[0] : undefined;
+  return values && offset !== undefined ? values.lineCounter.linePos(offset).line : undefined;
+}
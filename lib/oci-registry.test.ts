@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  chartVersionToTag,
+  headOciManifest,
+  listOciTags,
+  parseOciUrl,
+  tagToChartVersion,
+  type OciReference,
+} from "./oci-registry.js";
+
+// Stand-in registry: anonymous bearer tokens, two pages of tags for
+// charts/app, one published manifest
+let server: ReturnType<typeof Bun.serve>;
+let registry: string;
+let cacheDir: string;
+const originalCacheDir = process.env.TALOS_GITOPS_CACHE_DIR;
+let tokenRequests = 0;
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+
+      if (url.pathname === "/token") {
+        tokenRequests++;
+        return Response.json({ token: `token-for-${url.searchParams.get("scope")}` });
+      }
+
+      const scope = url.pathname.match(/^\/v2\/(.+?)\/(tags|manifests)\//)?.[1];
+      if (request.headers.get("authorization") !== `Bearer token-for-repository:${scope}:pull`) {
+        return new Response(null, {
+          status: 401,
+          headers: { "WWW-Authenticate": `Bearer realm="${url.origin}/token",service="test"` },
+        });
+      }
+
+      if (url.pathname === "/v2/charts/app/tags/list") {
+        return url.searchParams.get("last")
+          ? Response.json({ name: "charts/app", tags: ["1.1.0"] })
+          : Response.json(
+              { name: "charts/app", tags: ["1.0.0", "1.0.1_build.1"] },
+              { headers: { Link: '</v2/charts/app/tags/list?last=1.0.1_build.1>; rel="next"' } }
+            );
+      }
+
+      if (url.pathname === "/v2/charts/app/manifests/1.0.0") {
+        return new Response(null, { headers: { "Docker-Content-Digest": "sha256:abc" } });
+      }
+
+      return Response.json(
+        { errors: [{ code: "NAME_UNKNOWN", message: "repository name not known to registry" }] },
+        { status: 404 }
+      );
+    },
+  });
+  registry = `localhost:${server.port}`;
+
+  cacheDir = await mkdtemp(join(tmpdir(), "oci-registry-test-"));
+  process.env.TALOS_GITOPS_CACHE_DIR = cacheDir;
+});
+
+afterAll(async () => {
+  server.stop(true);
+  if (originalCacheDir === undefined) delete process.env.TALOS_GITOPS_CACHE_DIR;
+  else process.env.TALOS_GITOPS_CACHE_DIR = originalCacheDir;
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+function ref(repository: string): OciReference {
+  return parseOciUrl(`oci://${registry}/${repository}`)!;
+}
+
+describe("parseOciUrl", () => {
+  test("splits registry and repository, appending the chart name", () => {
+    expect(parseOciUrl("oci://ghcr.io/org/charts/", "app")).toEqual({
+      registry: "ghcr.io",
+      repository: "org/charts/app",
+    });
+    expect(parseOciUrl("oci://ghcr.io")).toBeNull();
+    expect(parseOciUrl("https://charts.example.com")).toBeNull();
+  });
+
+  test("maps build metadata to tags and back", () => {
+    expect(chartVersionToTag("1.0.1+build.1")).toBe("1.0.1_build.1");
+    expect(tagToChartVersion("1.0.1_build.1")).toBe("1.0.1+build.1");
+  });
+});
+
+describe("listOciTags", () => {
+  test("follows the token handshake and pagination", async () => {
+    const result = await listOciTags(ref("charts/app"));
+
+    expect(result).toMatchObject({ ok: true, status: 200, tags: ["1.0.0", "1.0.1_build.1", "1.1.0"] });
+    expect(result.cache).toBeUndefined();
+    // The token is reused for the second page
+    expect(tokenRequests).toBe(1);
+  });
+
+  test("answers from the cache the second time", async () => {
+    const result = await listOciTags(ref("charts/app"));
+
+    expect(result.tags).toHaveLength(3);
+    expect(result.cache?.stale).toBe(false);
+  });
+
+  test("reports the registry's error", async () => {
+    const result = await listOciTags(ref("charts/missing"));
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 404,
+      tags: [],
+      error: "NAME_UNKNOWN: repository name not known to registry",
+    });
+  });
+});
+
+describe("headOciManifest", () => {
+  test("returns the digest of a published tag", async () => {
+    const result = await headOciManifest(ref("charts/app"), "1.0.0");
+    expect(result).toMatchObject({ ok: true, status: 200, digest: "sha256:abc" });
+  });
+
+  test("reports a tag that isn't published", async () => {
+    const result = await headOciManifest(ref("charts/app"), "9.9.9");
+    expect(result).toMatchObject({ ok: false, status: 404 });
+  });
+});
@@ -0,0 +1,337 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { cachedFetch, CACHE_TTL, type CacheInfo } from "./cache.js";
+
+const TIMEOUT_MS = 5_000;
+
+// Manifest types a Helm chart can be published as
+const MANIFEST_ACCEPT = [
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+].join(", ");
+
+export interface OciReference {
+  registry: string;
+  repository: string;
+}
+
+export interface OciTagsResult {
+  ok: boolean;
+  status?: number;
+  tags: string[];
+  error?: string;
+  cache?: CacheInfo;
+  // Offline with nothing cached
+  skipped?: boolean;
+}
+
+export interface OciManifestResult {
+  ok: boolean;
+  status?: number;
+  digest?: string;
+  error?: string;
+  cache?: CacheInfo;
+  skipped?: boolean;
+}
+
+interface Challenge {
+  scheme: string;
+  params: Record<string, string>;
+}
+
+// Bearer tokens per registry + scope, reused within the process
+const tokenCache = new Map<string, string>();
+
+/**
+ * Split oci://registry/path into registry host and repository.
+ * When chartName is given, it's appended the way helm does it.
+ */
+export function parseOciUrl(repoUrl: string, chartName?: string): OciReference | null {
+  const match = repoUrl.match(/^oci:\/\/([^/]+)\/?(.*?)\/?$/);
+  if (!match) return null;
+
+  const path = [match[2], chartName].filter(Boolean).join("/");
+  if (!path) return null;
+
+  return { registry: match[1], repository: path };
+}
+
+/**
+ * Helm stores "+" (semver build metadata) as "_" in OCI tags
+ */
+export function chartVersionToTag(version: string): string {
+  return version.replace(/\+/g, "_");
+}
+
+export function tagToChartVersion(tag: string): string {
+  return tag.replace(/_/g, "+");
+}
+
+/**
+ * List every tag in a repository, through the on-disk cache
+ */
+export async function listOciTags(ref: OciReference): Promise<OciTagsResult> {
+  return throughCache(
+    "oci-tags",
+    `${ref.registry}/${ref.repository}`,
+    CACHE_TTL.ociTags,
+    () => fetchOciTags(ref),
+    (error) => ({ ok: false, tags: [], error })
+  );
+}
+
+/**
+ * HEAD a manifest to confirm a tag is actually published, through the on-disk cache
+ */
+export async function headOciManifest(ref: OciReference, tag: string): Promise<OciManifestResult> {
+  return throughCache(
+    "oci-manifests",
+    `${ref.registry}/${ref.repository}:${tag}`,
+    CACHE_TTL.ociManifest,
+    () => fetchOciManifest(ref, tag),
+    (error) => ({ ok: false, error })
+  );
+}
+
+/**
+ * Cache registry answers; network errors (no status) fall back to stale entries
+ */
+async function throughCache<T extends OciTagsResult | OciManifestResult>(
+  namespace: string,
+  key: string,
+  ttlMs: number,
+  fetcher: () => Promise<T>,
+  failed: (error: string) => T
+): Promise<T> {
+  try {
+    const result = await cachedFetch<T>(namespace, key, ttlMs, async () => {
+      const live = await fetcher();
+      if (!live.ok && live.status === undefined) {
+        throw new Error(live.error || "Registry unreachable");
+      }
+      return { data: live, ttlMs: live.ok ? ttlMs : CACHE_TTL.failure };
+    });
+
+    if (!result) {
+      return { ...failed("offline, not cached"), skipped: true };
+    }
+
+    return { ...result.data, cache: result.cache };
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : "Unknown error");
+  }
+}
+
+/**
+ * List every tag in a repository (follows Link pagination)
+ */
+async function fetchOciTags(ref: OciReference): Promise<OciTagsResult> {
+  const tags: string[] = [];
+  let url: string | null = `${registryBaseUrl(ref.registry)}/v2/${ref.repository}/tags/list`;
+
+  try {
+    while (url) {
+      const response = await registryFetch(ref, url, { method: "GET" });
+
+      if (!response.ok) {
+        return { ok: false, status: response.status, tags, error: await registryError(response) };
+      }
+
+      const body = (await response.json()) as { tags?: string[] | null };
+      tags.push(...(body.tags || []));
+
+      url = nextPageUrl(response, ref.registry);
+    }
+
+    return { ok: true, status: 200, tags };
+  } catch (error) {
+    return {
+      ok: false,
+      tags,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * HEAD a manifest to confirm a tag is actually published
+ */
+async function fetchOciManifest(ref: OciReference, tag: string): Promise<OciManifestResult> {
+  const url = `${registryBaseUrl(ref.registry)}/v2/${ref.repository}/manifests/${tag}`;
+
+  try {
+    const response = await registryFetch(ref, url, {
+      method: "HEAD",
+      headers: { Accept: MANIFEST_ACCEPT },
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      digest: response.headers.get("docker-content-digest") || undefined,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Registries on localhost (or with TALOS_GITOPS_OCI_PLAIN_HTTP=true) are
+ * spoken to over plain HTTP, like helm --plain-http
+ */
+function registryBaseUrl(registry: string): string {
+  const host = registry.replace(/:\d+$/, "");
+  const plainHttp =
+    process.env.TALOS_GITOPS_OCI_PLAIN_HTTP === "true" ||
+    host === "localhost" ||
+    host === "127.0.0.1";
+
+  return `${plainHttp ? "http" : "https"}://${registry}`;
+}
+
+/**
+ * Fetch with the distribution token handshake: on 401, follow the
+ * WWW-Authenticate challenge and retry once with credentials
+ */
+async function registryFetch(
+  ref: OciReference,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  const scope = `repository:${ref.repository}:pull`;
+  const cacheKey = `${ref.registry}|${scope}`;
+  const headers = new Headers(init.headers);
+
+  const cached = tokenCache.get(cacheKey);
+  if (cached) headers.set("Authorization", cached);
+
+  const response = await timedFetch(url, { ...init, headers });
+  if (response.status !== 401) return response;
+
+  const challenge = parseChallenge(response.headers.get("www-authenticate"));
+  if (!challenge) return response;
+
+  const credentials = await loadRegistryCredentials(ref.registry);
+  let authorization: string | null = null;
+
+  if (challenge.scheme === "bearer") {
+    const token = await fetchBearerToken(challenge, scope, credentials);
+    if (token) authorization = `Bearer ${token}`;
+  } else if (challenge.scheme === "basic" && credentials) {
+    authorization = `Basic ${credentials}`;
+  }
+
+  if (!authorization) return response;
+
+  tokenCache.set(cacheKey, authorization);
+  headers.set("Authorization", authorization);
+  return timedFetch(url, { ...init, headers });
+}
+
+async function fetchBearerToken(
+  challenge: Challenge,
+  scope: string,
+  credentials: string | null
+): Promise<string | null> {
+  const realm = challenge.params.realm;
+  if (!realm) return null;
+
+  const tokenUrl = new URL(realm);
+  if (challenge.params.service) {
+    tokenUrl.searchParams.set("service", challenge.params.service);
+  }
+  tokenUrl.searchParams.set("scope", challenge.params.scope || scope);
+
+  const response = await timedFetch(tokenUrl.toString(), {
+    headers: credentials ? { Authorization: `Basic ${credentials}` } : {},
+  });
+
+  if (!response.ok) return null;
+
+  const body = (await response.json()) as { token?: string; access_token?: string };
+  return body.token || body.access_token || null;
+}
+
+/**
+ * Parse `Bearer realm="...",service="...",scope="..."`
+ */
+function parseChallenge(header: string | null): Challenge | null {
+  if (!header) return null;
+
+  const match = header.match(/^(\w+)\s*(.*)$/);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/(\w+)="([^"]*)"/g)) {
+    params[param[1]] = param[2];
+  }
+
+  return { scheme: match[1].toLowerCase(), params };
+}
+
+/**
+ * Base64 user:password for a registry from helm's registry config
+ * (docker config.json format) or TALOS_GITOPS_OCI_USERNAME/PASSWORD
+ */
+async function loadRegistryCredentials(registry: string): Promise<string | null> {
+  const { TALOS_GITOPS_OCI_USERNAME: user, TALOS_GITOPS_OCI_PASSWORD: password } = process.env;
+  if (user && password) {
+    return Buffer.from(`${user}:${password}`).toString("base64");
+  }
+
+  const configPaths = [
+    process.env.HELM_REGISTRY_CONFIG,
+    join(homedir(), ".config", "helm", "registry", "config.json"),
+    join(homedir(), ".docker", "config.json"),
+  ].filter((p): p is string => !!p);
+
+  for (const path of configPaths) {
+    try {
+      const config = JSON.parse(await readFile(path, "utf-8"));
+      const auth = config?.auths?.[registry]?.auth || config?.auths?.[`https://${registry}`]?.auth;
+      if (auth) return auth;
+    } catch {
+      // No config at this path
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next page from a `Link: </v2/...?last=x>; rel="next"` header
+ */
+function nextPageUrl(response: Response, registry: string): string | null {
+  const link = response.headers.get("link");
+  const match = link?.match(/<([^>]+)>;\s*rel="?next"?/);
+  if (!match) return null;
+
+  return match[1].startsWith("http") ? match[1] : `${registryBaseUrl(registry)}${match[1]}`;
+}
+
+async function registryError(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as { errors?: Array<{ code?: string; message?: string }> };
+    const first = body.errors?.[0];
+    if (first) return [first.code, first.message].filter(Boolean).join(": ");
+  } catch {
+    // Not a distribution error body
+  }
+  return `HTTP ${response.status}`;
+}
+
+async function timedFetch(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
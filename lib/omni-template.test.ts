@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  isClusterTemplate,
+  machineRole,
+  parseClusterTemplate,
+  validateClusterTemplate,
+} from "./omni-template.js";
+
+const TEMPLATE = `kind: Cluster
+name: prod
+talos:
+  version: v1.10.3
+kubernetes:
+  version: v1.33.1
+patches:
+  - file: patches/cluster.yaml
+---
+kind: ControlPlane
+machines:
+  - 4c4c4544-0001
+  - 4c4c4544-0002
+---
+kind: Workers
+name: gpu
+machines:
+  - 4c4c4544-0011
+---
+kind: Machine
+name: 4c4c4544-0011
+install:
+  disk: /dev/nvme0n1
+patches:
+  - name: gpu
+    inline:
+      machine: {}
+`;
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "omni-template-test-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("isClusterTemplate", () => {
+  test("matches template kinds without an apiVersion", () => {
+    expect(isClusterTemplate(TEMPLATE)).toBe(true);
+    expect(isClusterTemplate("apiVersion: v1\nkind: Cluster\n")).toBe(false);
+    expect(isClusterTemplate("kind: [")).toBe(false);
+  });
+});
+
+describe("parseClusterTemplate", () => {
+  test("reads versions, machine sets, machines and patch files", () => {
+    const { template, fileRefs, errors } = parseClusterTemplate(TEMPLATE, "/repo/omni/cluster.yaml");
+
+    expect(errors).toEqual([]);
+    expect(template).toMatchObject({ name: "prod", talosVersion: "v1.10.3", kubernetesVersion: "v1.33.1" });
+    expect(template.machineSets.map((s) => [s.name, s.role, s.machines])).toEqual([
+      ["control-planes", "control-plane", ["4c4c4544-0001", "4c4c4544-0002"]],
+      ["gpu", "worker", ["4c4c4544-0011"]],
+    ]);
+    expect(template.machines[0]).toMatchObject({ id: "4c4c4544-0011", installDisk: "/dev/nvme0n1" });
+    expect(fileRefs).toEqual([{ file: "/repo/omni/patches/cluster.yaml", path: "patches/cluster.yaml", line: 8 }]);
+    expect(machineRole(template, "4c4c4544-0002")).toBe("control-plane");
+    expect(machineRole(template, "unknown")).toBeUndefined();
+  });
+
+  test("reports structural problems", () => {
+    const content = `kind: Cluster
+name: prod
+talos: { version: v1.10.0 }
+kubernetes: { version: v1.27.0 }
+---
+kind: Workers
+machines: [m1, m1]
+---
+kind: Machine
+name: m2
+---
+kind: LoadBalancer
+`;
+    const { errors } = parseClusterTemplate(content, "/repo/cluster.yaml");
+
+    expect(errors.map((e) => `${e.severity}: ${e.message}`)).toEqual([
+      "error: Machine m1 is assigned to workers twice",
+      "error: Unknown template document kind LoadBalancer",
+      "error: Talos v1.10.0 does not support Kubernetes v1.27.0",
+      "error: Template has no ControlPlane machine set",
+      "warning: Machine m2 is not in any machine set",
+    ]);
+  });
+});
+
+describe("validateClusterTemplate", () => {
+  test("reports patch files that don't exist", async () => {
+    const file = join(dir, "cluster.yaml");
+    expect((await validateClusterTemplate(TEMPLATE, file)).map((e) => [e.line, e.message])).toEqual([
+      [8, "Patch file patches/cluster.yaml does not exist"],
+    ]);
+
+    await mkdir(join(dir, "patches"));
+    await writeFile(join(dir, "patches", "cluster.yaml"), "cluster: {}\n");
+    expect(await validateClusterTemplate(TEMPLATE, file)).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+import { stat } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { isNode, LineCounter, parseAllDocuments, type Document } from "yaml";
+import type {
+  ClusterTemplate,
+  MachineSet,
+  TemplateMachine,
+  TemplatePatch,
+  ValidationError,
+} from "./types.js";
+
+/**
+ * An Omni cluster template with what validation needs beyond ClusterContext
+ */
+export interface ParsedTemplate {
+  template: ClusterTemplate;
+  // File patches referenced: resolved file, path as written, line of the reference
+  fileRefs: Array<{ file: string; path: string; line?: number }>;
+  errors: ValidationError[];
+}
+
+type Obj = Record<string, unknown>;
+
+// Document kinds of `omnictl cluster template` files (they have no apiVersion)
+const TEMPLATE_KINDS = ["Cluster", "ControlPlane", "Workers", "Machine"];
+
+// Kubernetes minors each Talos minor supports (Talos support matrix)
+const KUBERNETES_SUPPORT: Record<string, [number, number]> = {
+  "1.5": [23, 28],
+  "1.6": [24, 29],
+  "1.7": [25, 30],
+  "1.8": [26, 31],
+  "1.9": [27, 32],
+  "1.10": [28, 33],
+  "1.11": [29, 34],
+};
+
+/**
+ * Check if a file is an Omni cluster template: kind Cluster, ControlPlane,
+ * Workers or Machine without an apiVersion
+ */
+export function isClusterTemplate(content: string): boolean {
+  try {
+    return parseAllDocuments(content).some((document) => {
+      if (!("contents" in document)) return false;
+      const doc = asObj(document.toJS());
+      return typeof doc.kind === "string" && TEMPLATE_KINDS.includes(doc.kind) && !doc.apiVersion;
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a cluster template: versions, machine sets, machines, patches and
+ * system extensions. Patch file paths are resolved against the template's directory.
+ */
+export function parseClusterTemplate(content: string, file: string): ParsedTemplate {
+  const template: ClusterTemplate = {
+    file,
+    name: "",
+    patches: [],
+    systemExtensions: [],
+    machineSets: [],
+    machines: [],
+  };
+  const parsed: ParsedTemplate = { template, fileRefs: [], errors: [] };
+  const lineCounter = new LineCounter();
+  const error = (message: string, line?: number, fix?: string) =>
+    parsed.errors.push({ file, line, severity: "error", message, fix });
+
+  // Machine ID -> machine set it was first assigned to
+  const assigned = new Map<string, string>();
+  let clusterLine: number | undefined;
+
+  for (const document of parseAllDocuments(content, { lineCounter })) {
+    if (!("contents" in document)) continue;
+
+    if (document.errors.length > 0) {
+      error(`Invalid YAML: ${document.errors[0].message}`);
+      continue;
+    }
+
+    const doc = asObj(document.toJS());
+    const line = lineAt(document, [], lineCounter);
+    const patches = (): TemplatePatch[] =>
+      asList(doc.patches).map((patch, i) => {
+        const ref: TemplatePatch = {
+          name: typeof patch.name === "string" ? patch.name : undefined,
+        };
+        if (typeof patch.file === "string") {
+          ref.file = resolve(dirname(file), patch.file);
+          parsed.fileRefs.push({
+            file: ref.file,
+            path: patch.file,
+            line: lineAt(document, ["patches", i, "file"], lineCounter),
+          });
+        } else if (patch.inline === undefined) {
+          error(
+            "Template patch has neither file nor inline",
+            lineAt(document, ["patches", i], lineCounter)
+          );
+        }
+        return ref;
+      });
+
+    switch (doc.kind) {
+      case "Cluster": {
+        if (template.name) {
+          error("Template has more than one Cluster document", line);
+          break;
+        }
+        clusterLine = line;
+        template.name = typeof doc.name === "string" ? doc.name : "";
+        template.talosVersion = versionOf(asObj(doc.talos).version);
+        template.kubernetesVersion = versionOf(asObj(doc.kubernetes).version);
+        template.patches = patches();
+        template.systemExtensions = strings(doc.systemExtensions);
+
+        if (!template.name) error("Cluster document has no name", line);
+        break;
+      }
+
+      case "ControlPlane":
+      case "Workers": {
+        const role = doc.kind === "ControlPlane" ? "control-plane" : "worker";
+        const name =
+          typeof doc.name === "string"
+            ? doc.name
+            : doc.kind === "ControlPlane"
+              ? "control-planes"
+              : "workers";
+
+        if (template.machineSets.some((s) => s.name === name)) {
+          error(`Machine set ${name} is defined more than once`, line);
+          break;
+        }
+
+        const set: MachineSet = {
+          role,
+          name,
+          machines: strings(doc.machines),
+          patches: patches(),
+          systemExtensions: strings(doc.systemExtensions),
+        };
+
+        set.machines.forEach((id, i) => {
+          const previous = assigned.get(id);
+          if (previous) {
+            error(
+              `Machine ${id} is assigned to ${previous}` +
+                (previous === name ? " twice" : ` and ${name}`),
+              lineAt(document, ["machines", i], lineCounter),
+              "A machine can only be in one machine set"
+            );
+          } else {
+            assigned.set(id, name);
+          }
+        });
+
+        template.machineSets.push(set);
+        break;
+      }
+
+      case "Machine": {
+        if (typeof doc.name !== "string") {
+          error("Machine document has no name (the machine ID)", line);
+          break;
+        }
+
+        const install = asObj(doc.install);
+        const machine: TemplateMachine = {
+          id: doc.name,
+          installDisk: typeof install.disk === "string" ? install.disk : undefined,
+          patches: patches(),
+          systemExtensions: strings(doc.systemExtensions),
+        };
+
+        if (template.machines.some((m) => m.id === machine.id)) {
+          error(`Machine ${machine.id} is defined more than once`, line);
+        }
+        template.machines.push(machine);
+        break;
+      }
+
+      default:
+        error(
+          `Unknown template document kind ${String(doc.kind)}`,
+          line,
+          `Use one of ${TEMPLATE_KINDS.join(", ")}`
+        );
+    }
+  }
+
+  if (!template.name) {
+    error("Template has no Cluster document");
+  } else {
+    checkVersions(template, clusterLine, parsed.errors);
+  }
+
+  if (!template.machineSets.some((s) => s.role === "control-plane")) {
+    error("Template has no ControlPlane machine set");
+  }
+
+  // Machine documents configure machines some set uses
+  for (const machine of template.machines) {
+    if (!assigned.has(machine.id)) {
+      parsed.errors.push({
+        file,
+        severity: "warning",
+        message: `Machine ${machine.id} is not in any machine set`,
+        fix: "Add it to the machines of a ControlPlane or Workers document",
+      });
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Validate a cluster template file: structure, version pair and patch files
+ */
+export async function validateClusterTemplate(
+  content: string,
+  filePath: string
+): Promise<ValidationError[]> {
+  const { fileRefs, errors } = parseClusterTemplate(content, filePath);
+
+  for (const ref of fileRefs) {
+    try {
+      await stat(ref.file);
+    } catch {
+      errors.push({
+        file: filePath,
+        line: ref.line,
+        severity: "error",
+        message: `Patch file ${ref.path} does not exist`,
+        fix: "Paths are relative to the template file",
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Role an Omni machine ID has in the template, from its machine set
+ */
+export function machineRole(
+  template: ClusterTemplate,
+  machineId: string
+): MachineSet["role"] | undefined {
+  return template.machineSets.find((s) => s.machines.includes(machineId))?.role;
+}
+
+function checkVersions(
+  template: ClusterTemplate,
+  line: number | undefined,
+  errors: ValidationError[]
+): void {
+  const { file, talosVersion, kubernetesVersion } = template;
+
+  if (!talosVersion) {
+    errors.push({ file, line, severity: "error", message: "Cluster has no talos.version" });
+  }
+  if (!kubernetesVersion) {
+    errors.push({ file, line, severity: "error", message: "Cluster has no kubernetes.version" });
+  }
+  if (!talosVersion || !kubernetesVersion) return;
+
+  const talos = talosVersion.match(/^v?(\d+\.\d+)/)?.[1];
+  const kubernetes = kubernetesVersion.match(/^v?1\.(\d+)/)?.[1];
+  const range = talos ? KUBERNETES_SUPPORT[talos] : undefined;
+
+  if (!range || !kubernetes) {
+    errors.push({
+      file,
+      line,
+      severity: "info",
+      message: `No compatibility data for Talos ${talosVersion} and Kubernetes ${kubernetesVersion}`,
+    });
+    return;
+  }
+
+  const minor = Number(kubernetes);
+  if (minor < range[0] || minor > range[1]) {
+    errors.push({
+      file,
+      line,
+      severity: "error",
+      message: `Talos ${talosVersion} does not support Kubernetes ${kubernetesVersion}`,
+      fix: `Talos ${talos} supports Kubernetes 1.${range[0]} to 1.${range[1]}`,
+    });
+  }
+}
+
+function lineAt(
+  document: Document.Parsed,
+  path: Array<string | number>,
+  lineCounter: LineCounter
+): number | undefined {
+  const node = path.length > 0 ? document.getIn(path, true) : document.contents;
+  return isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+}
+
+function versionOf(value: unknown): string | undefined {
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Obj) : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import {
+  comparePsaLevels,
+  evaluatePodSecurity,
+  requiredPsaLevel,
+  violationsAt,
+} from "./pod-security.js";
+
+// Meets restricted
+const restrictedPod = {
+  securityContext: { runAsNonRoot: true, seccompProfile: { type: "RuntimeDefault" } },
+  containers: [
+    {
+      name: "app",
+      securityContext: { allowPrivilegeEscalation: false, capabilities: { drop: ["ALL"] } },
+    },
+  ],
+  volumes: [{ name: "data", persistentVolumeClaim: { claimName: "data" } }],
+};
+
+describe("evaluatePodSecurity", () => {
+  test("a hardened pod meets restricted", () => {
+    expect(evaluatePodSecurity(restrictedPod)).toEqual([]);
+    expect(requiredPsaLevel([])).toBe("restricted");
+  });
+
+  test("a plain pod needs baseline", () => {
+    const violations = evaluatePodSecurity({ containers: [{ name: "app", image: "app:1" }] });
+
+    expect(violations.every((v) => v.level === "restricted")).toBe(true);
+    expect(violations.map((v) => v.control)).toEqual([
+      "Privilege Escalation",
+      "Running as Non-root",
+      "Seccomp",
+      "Capabilities",
+    ]);
+    expect(requiredPsaLevel(violations)).toBe("baseline");
+  });
+
+  test("host access and privileged containers need privileged", () => {
+    const violations = evaluatePodSecurity({
+      ...restrictedPod,
+      hostNetwork: true,
+      volumes: [{ name: "dev", hostPath: { path: "/dev" } }],
+      initContainers: [
+        {
+          name: "setup",
+          securityContext: {
+            privileged: true,
+            allowPrivilegeEscalation: false,
+            capabilities: { add: ["SYS_ADMIN"], drop: ["ALL"] },
+          },
+          ports: [{ containerPort: 80, hostPort: 80 }],
+        },
+      ],
+    });
+
+    expect(violationsAt(violations, "baseline").map((v) => `${v.control}: ${v.field} ${v.detail}`)).toEqual([
+      "Host Namespaces: hostNetwork true",
+      "HostPath Volumes: volumes[dev].hostPath /dev",
+      "Privileged Containers: initContainers[setup].securityContext.privileged true",
+      "Capabilities: initContainers[setup].securityContext.capabilities.add SYS_ADMIN",
+      "Host Ports: initContainers[setup].ports.hostPort 80",
+    ]);
+    expect(requiredPsaLevel(violations)).toBe("privileged");
+  });
+
+  test("checks AppArmor annotations, sysctls and volume types", () => {
+    const violations = evaluatePodSecurity(
+      {
+        ...restrictedPod,
+        securityContext: {
+          ...restrictedPod.securityContext,
+          sysctls: [{ name: "net.ipv4.tcp_syncookies" }, { name: "net.core.somaxconn" }],
+        },
+        volumes: [{ name: "nfs", nfs: { server: "nas", path: "/" } }],
+      },
+      { "container.apparmor.security.beta.kubernetes.io/app": "unconfined" }
+    );
+
+    expect(violations.map((v) => [v.level, v.control, v.detail])).toEqual([
+      ["baseline", "Sysctls", "net.core.somaxconn"],
+      ["baseline", "AppArmor", "unconfined"],
+      ["restricted", "Volume Types", "nfs"],
+    ]);
+  });
+});
+
+describe("levels", () => {
+  test("violationsAt filters by what a level rejects", () => {
+    const violations = evaluatePodSecurity({ hostPID: true, containers: [{ name: "app" }] });
+
+    expect(violationsAt(violations, "privileged")).toEqual([]);
+    expect(violationsAt(violations, "baseline")).toHaveLength(1);
+    expect(violationsAt(violations, "restricted")).toEqual(violations);
+  });
+
+  test("comparePsaLevels orders privileged < baseline < restricted", () => {
+    expect(comparePsaLevels("privileged", "baseline")).toBeLessThan(0);
+    expect(comparePsaLevels("restricted", "baseline")).toBeGreaterThan(0);
+    expect(comparePsaLevels("baseline", "baseline")).toBe(0);
+  });
+});
@@ -0,0 +1,273 @@
+import type { PsaLevel } from "./types.js";
+
+/**
+ * A pod spec field that a Pod Security Standards level forbids
+ */
+export interface PsaViolation {
+  // Least strict level that forbids it
+  level: "baseline" | "restricted";
+  // PSS control name, e.g. "Privileged Containers"
+  control: string;
+  // Path within the pod spec, e.g. containers[app].securityContext.privileged
+  field: string;
+  // The offending value, or what's missing
+  detail: string;
+}
+
+type Obj = Record<string, unknown>;
+type AddViolation = (
+  level: PsaViolation["level"],
+  control: string,
+  field: string,
+  detail: string
+) => void;
+
+// Talos enables PSA admission with enforce: baseline for unlabelled namespaces
+export const TALOS_DEFAULT_PSA_LEVEL: PsaLevel = "baseline";
+
+const LEVEL_ORDER: PsaLevel[] = ["privileged", "baseline", "restricted"];
+
+const BASELINE_CAPABILITIES = [
+  "AUDIT_WRITE", "CHOWN", "DAC_OVERRIDE", "FOWNER", "FSETID", "KILL", "MKNOD",
+  "NET_BIND_SERVICE", "SETFCAP", "SETGID", "SETPCAP", "SETUID", "SYS_CHROOT",
+];
+
+const SAFE_SYSCTLS = [
+  "kernel.shm_rmid_forced", "net.ipv4.ip_local_port_range", "net.ipv4.ip_unprivileged_port_start",
+  "net.ipv4.tcp_syncookies", "net.ipv4.ping_group_range", "net.ipv4.ip_local_reserved_ports",
+  "net.ipv4.tcp_keepalive_time", "net.ipv4.tcp_fin_timeout", "net.ipv4.tcp_keepalive_intvl",
+  "net.ipv4.tcp_keepalive_probes",
+];
+
+const SELINUX_TYPES = ["", "container_t", "container_init_t", "container_kvm_t", "container_engine_t"];
+
+const RESTRICTED_VOLUME_TYPES = [
+  "configMap", "csi", "downwardAPI", "emptyDir", "ephemeral", "persistentVolumeClaim",
+  "projected", "secret",
+];
+
+const APPARMOR_ANNOTATION = "container.apparmor.security.beta.kubernetes.io/";
+
+/**
+ * Evaluate a pod spec (and its pod template annotations) against the
+ * baseline and restricted Pod Security Standards
+ */
+export function evaluatePodSecurity(podSpec: Obj, annotations: Obj = {}): PsaViolation[] {
+  const violations: PsaViolation[] = [];
+  const add: AddViolation = (level, control, field, detail) =>
+    violations.push({ level, control, field, detail });
+
+  const podContext = asObj(podSpec.securityContext);
+  const containers = allContainers(podSpec);
+
+  // --- Baseline ---
+
+  // Host namespaces
+  for (const field of ["hostNetwork", "hostPID", "hostIPC"]) {
+    if (podSpec[field] === true) add("baseline", "Host Namespaces", field, "true");
+  }
+
+  // HostProcess
+  if (asObj(podContext.windowsOptions).hostProcess === true) {
+    add("baseline", "HostProcess", "securityContext.windowsOptions.hostProcess", "true");
+  }
+
+  // HostPath volumes
+  for (const volume of asList(podSpec.volumes)) {
+    if (volume.hostPath) {
+      add(
+        "baseline",
+        "HostPath Volumes",
+        `volumes[${volume.name}].hostPath`,
+        String(asObj(volume.hostPath).path ?? "")
+      );
+    }
+  }
+
+  // Sysctls
+  for (const sysctl of asList(podContext.sysctls)) {
+    if (!SAFE_SYSCTLS.includes(String(sysctl.name))) {
+      add("baseline", "Sysctls", "securityContext.sysctls", String(sysctl.name));
+    }
+  }
+
+  checkSeLinux(asObj(podContext.seLinuxOptions), "securityContext.seLinuxOptions", add);
+  checkAppArmor(podContext, "securityContext", add);
+
+  // Seccomp: Unconfined is never allowed
+  if (asObj(podContext.seccompProfile).type === "Unconfined") {
+    add("baseline", "Seccomp", "securityContext.seccompProfile.type", "Unconfined");
+  }
+
+  // AppArmor annotations (pre-1.30 style)
+  for (const [key, value] of Object.entries(annotations)) {
+    if (!key.startsWith(APPARMOR_ANNOTATION)) continue;
+    if (value !== "runtime/default" && !String(value).startsWith("localhost/")) {
+      add("baseline", "AppArmor", `metadata.annotations[${key}]`, String(value));
+    }
+  }
+
+  for (const { path, container } of containers) {
+    const context = asObj(container.securityContext);
+    const at = `${path}.securityContext`;
+
+    if (context.privileged === true) {
+      add("baseline", "Privileged Containers", `${at}.privileged`, "true");
+    }
+
+    if (asObj(context.windowsOptions).hostProcess === true) {
+      add("baseline", "HostProcess", `${at}.windowsOptions.hostProcess`, "true");
+    }
+
+    const capabilities = asObj(context.capabilities);
+    const added = Array.isArray(capabilities.add) ? capabilities.add.map(String) : [];
+    for (const capability of added) {
+      if (!BASELINE_CAPABILITIES.includes(capability.replace(/^CAP_/, ""))) {
+        add("baseline", "Capabilities", `${at}.capabilities.add`, capability);
+      }
+    }
+
+    for (const port of asList(container.ports)) {
+      if (port.hostPort && port.hostPort !== 0) {
+        add("baseline", "Host Ports", `${path}.ports.hostPort`, String(port.hostPort));
+      }
+    }
+
+    if (context.procMount !== undefined && context.procMount !== "Default") {
+      add("baseline", "/proc Mount Type", `${at}.procMount`, String(context.procMount));
+    }
+
+    if (asObj(context.seccompProfile).type === "Unconfined") {
+      add("baseline", "Seccomp", `${at}.seccompProfile.type`, "Unconfined");
+    }
+
+    checkSeLinux(asObj(context.seLinuxOptions), `${at}.seLinuxOptions`, add);
+    checkAppArmor(context, at, add);
+
+    // --- Restricted (per container) ---
+
+    if (context.allowPrivilegeEscalation !== false) {
+      add(
+        "restricted",
+        "Privilege Escalation",
+        `${at}.allowPrivilegeEscalation`,
+        context.allowPrivilegeEscalation === undefined ? "not set to false" : "true"
+      );
+    }
+
+    if (context.runAsNonRoot === false) {
+      add("restricted", "Running as Non-root", `${at}.runAsNonRoot`, "false");
+    } else if (context.runAsNonRoot !== true && podContext.runAsNonRoot !== true) {
+      add("restricted", "Running as Non-root", `${at}.runAsNonRoot`, "not set to true");
+    }
+
+    if (context.runAsUser === 0) {
+      add("restricted", "Running as Non-root user", `${at}.runAsUser`, "0");
+    }
+
+    const seccomp = asObj(context.seccompProfile).type ?? asObj(podContext.seccompProfile).type;
+    if (seccomp !== "RuntimeDefault" && seccomp !== "Localhost" && seccomp !== "Unconfined") {
+      add(
+        "restricted",
+        "Seccomp",
+        `${at}.seccompProfile.type`,
+        "not set to RuntimeDefault or Localhost"
+      );
+    }
+
+    const dropped = Array.isArray(capabilities.drop) ? capabilities.drop.map(String) : [];
+    if (!dropped.includes("ALL")) {
+      add("restricted", "Capabilities", `${at}.capabilities.drop`, "does not drop ALL");
+    }
+    for (const capability of added) {
+      const name = capability.replace(/^CAP_/, "");
+      if (name !== "NET_BIND_SERVICE" && BASELINE_CAPABILITIES.includes(name)) {
+        add("restricted", "Capabilities", `${at}.capabilities.add`, capability);
+      }
+    }
+  }
+
+  // --- Restricted (pod level) ---
+
+  for (const volume of asList(podSpec.volumes)) {
+    const type = Object.keys(volume).find((k) => k !== "name");
+    if (type && type !== "hostPath" && !RESTRICTED_VOLUME_TYPES.includes(type)) {
+      add("restricted", "Volume Types", `volumes[${volume.name}]`, type);
+    }
+  }
+
+  if (podContext.runAsNonRoot === false) {
+    add("restricted", "Running as Non-root", "securityContext.runAsNonRoot", "false");
+  }
+
+  if (podContext.runAsUser === 0) {
+    add("restricted", "Running as Non-root user", "securityContext.runAsUser", "0");
+  }
+
+  return violations;
+}
+
+/**
+ * Least strict level a namespace needs to admit pods with these violations
+ */
+export function requiredPsaLevel(violations: PsaViolation[]): PsaLevel {
+  if (violations.some((v) => v.level === "baseline")) return "privileged";
+  if (violations.some((v) => v.level === "restricted")) return "baseline";
+  return "restricted";
+}
+
+/**
+ * Violations a namespace at this level rejects
+ */
+export function violationsAt(violations: PsaViolation[], level: PsaLevel): PsaViolation[] {
+  if (level === "privileged") return [];
+  if (level === "baseline") return violations.filter((v) => v.level === "baseline");
+  return violations;
+}
+
+/**
+ * Compare levels: negative when a is less strict than b
+ */
+export function comparePsaLevels(a: PsaLevel, b: PsaLevel): number {
+  return LEVEL_ORDER.indexOf(a) - LEVEL_ORDER.indexOf(b);
+}
+
+function checkSeLinux(
+  options: Obj,
+  at: string,
+  add: AddViolation
+): void {
+  if (options.type !== undefined && !SELINUX_TYPES.includes(String(options.type))) {
+    add("baseline", "SELinux", `${at}.type`, String(options.type));
+  }
+  if (options.user !== undefined) add("baseline", "SELinux", `${at}.user`, String(options.user));
+  if (options.role !== undefined) add("baseline", "SELinux", `${at}.role`, String(options.role));
+}
+
+function checkAppArmor(
+  context: Obj,
+  at: string,
+  add: AddViolation
+): void {
+  const type = asObj(context.appArmorProfile).type;
+  if (type !== undefined && type !== "RuntimeDefault" && type !== "Localhost") {
+    add("baseline", "AppArmor", `${at}.appArmorProfile.type`, String(type));
+  }
+}
+
+function allContainers(podSpec: Obj): Array<{ path: string; container: Obj }> {
+  return ["initContainers", "containers", "ephemeralContainers"].flatMap((kind) =>
+    asList(podSpec[kind]).map((container) => ({
+      path: `${kind}[${container.name ?? "?"}]`,
+      container,
+    }))
+  );
+}
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Obj) : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
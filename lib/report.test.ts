@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { formatReport, formatText, summarize } from "./report.js";
+import type { ValidationError } from "./types.js";
+
+const errors: ValidationError[] = [
+  { file: "/repo/apps/web/values.yaml", line: 4, severity: "error", message: "Bad value", fix: "Fix it" },
+  { file: "/repo/apps/web/values.yaml", severity: "warning", message: "Odd value" },
+  { file: "/repo/apps/db/application.yaml", severity: "info", message: "Note" },
+];
+
+describe("summarize", () => {
+  test("counts by severity", () => {
+    expect(summarize(errors)).toEqual({ errors: 1, warnings: 1, info: 1 });
+  });
+});
+
+describe("formatText", () => {
+  test("groups problems by repo-relative file", () => {
+    const text = formatText(errors, "/repo");
+
+    expect(text).toContain("apps/web/values.yaml\n  error    line 4: Bad value\n    Fix: Fix it");
+    expect(text).toContain("apps/db/application.yaml\n  info     Note");
+    expect(text.endsWith("1 error(s), 1 warning(s)")).toBe(true);
+  });
+
+  test("says so when there is nothing to report", () => {
+    expect(formatText([], "/repo")).toBe("No problems found.");
+  });
+});
+
+describe("formatReport", () => {
+  test("json has relative files and a summary", () => {
+    const report = JSON.parse(formatReport(errors, "/repo", "json"));
+
+    expect(report.summary).toEqual({ errors: 1, warnings: 1, info: 1 });
+    expect(report.results[0]).toMatchObject({ file: "apps/web/values.yaml", line: 4 });
+  });
+
+  test("sarif maps severities to levels and lines to regions", () => {
+    const report = JSON.parse(formatReport(errors, "/repo", "sarif"));
+    const [first, , third] = report.runs[0].results;
+
+    expect(report.version).toBe("2.1.0");
+    expect(first.level).toBe("error");
+    expect(first.message.text).toBe("Bad value\nFix: Fix it");
+    expect(first.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "apps/web/values.yaml", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 4 },
+    });
+    expect(third.level).toBe("note");
+  });
+});
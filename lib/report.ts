@@ -0,0 +1,154 @@
+import { relative } from "node:path";
+import type { ValidationError } from "./types.js";
+
+export type ReportFormat = "text" | "json" | "sarif";
+
+const TOOL_NAME = "talos-gitops-ops";
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_LEVELS: Record<ValidationError["severity"], string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+/**
+ * Summarize errors by severity
+ */
+export function summarize(
+  errors: ValidationError[]
+): { errors: number; warnings: number; info: number } {
+  return {
+    errors: errors.filter((e) => e.severity === "error").length,
+    warnings: errors.filter((e) => e.severity === "warning").length,
+    info: errors.filter((e) => e.severity === "info").length,
+  };
+}
+
+/**
+ * Human-readable report, grouped by file
+ */
+export function formatText(errors: ValidationError[], repoRoot: string): string {
+  if (errors.length === 0) {
+    return "No problems found.";
+  }
+
+  const byFile = new Map<string, ValidationError[]>();
+  for (const error of errors) {
+    const file = error.file ? relative(repoRoot, error.file) : "(repo)";
+    const list = byFile.get(file) || [];
+    list.push(error);
+    byFile.set(file, list);
+  }
+
+  const lines: string[] = [];
+  for (const [file, fileErrors] of byFile) {
+    lines.push(file);
+    for (const e of fileErrors) {
+      const loc = e.line ? `line ${e.line}: ` : "";
+      lines.push(`  ${e.severity.padEnd(7)}  ${loc}${e.message}`);
+      if (e.fix) {
+        lines.push(`    Fix: ${e.fix}`);
+      }
+    }
+    lines.push("");
+  }
+
+  const { errors: errorCount, warnings } = summarize(errors);
+  lines.push(`${errorCount} error(s), ${warnings} warning(s)`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Machine-readable report
+ */
+export function formatJson(errors: ValidationError[], repoRoot: string): string {
+  return JSON.stringify(
+    {
+      repoRoot,
+      summary: summarize(errors),
+      results: errors.map((e) => ({
+        ...e,
+        file: e.file ? relative(repoRoot, e.file) : "",
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * SARIF 2.1.0 report for code-scanning tools
+ */
+export function formatSarif(errors: ValidationError[], repoRoot: string): string {
+  const results = errors.map((e) => ({
+    ruleId: `${TOOL_NAME}/${e.severity}`,
+    level: SARIF_LEVELS[e.severity],
+    message: { text: e.fix ? `${e.message}\nFix: ${e.fix}` : e.message },
+    locations: e.file
+      ? [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: relative(repoRoot, e.file), uriBaseId: "%SRCROOT%" },
+              ...(e.line ? { region: { startLine: e.line } } : {}),
+            },
+          },
+        ]
+      : [],
+  }));
+
+  return JSON.stringify(
+    {
+      $schema: SARIF_SCHEMA,
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              rules: [
+                {
+                  id: `${TOOL_NAME}/error`,
+                  shortDescription: { text: "GitOps validation error" },
+                  defaultConfiguration: { level: "error" },
+                },
+                {
+                  id: `${TOOL_NAME}/warning`,
+                  shortDescription: { text: "GitOps validation warning" },
+                  defaultConfiguration: { level: "warning" },
+                },
+                {
+                  id: `${TOOL_NAME}/info`,
+                  shortDescription: { text: "GitOps validation note" },
+                  defaultConfiguration: { level: "note" },
+                },
+              ],
+            },
+          },
+          originalUriBaseIds: { "%SRCROOT%": { uri: `file://${repoRoot}/` } },
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Format a report in the requested format
+ */
+export function formatReport(
+  errors: ValidationError[],
+  repoRoot: string,
+  format: ReportFormat
+): string {
+  switch (format) {
+    case "json":
+      return formatJson(errors, repoRoot);
+    case "sarif":
+      return formatSarif(errors, repoRoot);
+    default:
+      return formatText(errors, repoRoot);
+  }
+}
@@ -0,0 +1,275 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  checkKustomizeRestarts,
+  checkSecretChangeBumps,
+  isRestartAnnotation,
+  parseUnifiedDiff,
+  restartMechanism,
+  secretsConsumed,
+  type FileChange,
+} from "./secret-restart.js";
+import type { AppDefinition, ClusterContext } from "./types.js";
+
+const POD_SPEC = {
+  volumes: [
+    { name: "tls", secret: { secretName: "web-tls" } },
+    { name: "creds", projected: { sources: [{ secret: { name: "web-creds" } }] } },
+  ],
+  containers: [
+    {
+      name: "web",
+      image: "web:1.0",
+      envFrom: [{ secretRef: { name: "web-env" } }],
+      env: [{ name: "TOKEN", valueFrom: { secretKeyRef: { name: "web-env", key: "token" } } }],
+    },
+  ],
+};
+
+describe("secretsConsumed", () => {
+  test("collects mounted and environment Secrets once each", () => {
+    expect(secretsConsumed(POD_SPEC)).toEqual([
+      { name: "web-tls", via: "volume" },
+      { name: "web-creds", via: "volume" },
+      { name: "web-env", via: "env" },
+    ]);
+  });
+});
+
+describe("restartMechanism", () => {
+  const mounted = [{ name: "web-tls", via: "volume" as const }];
+  const env = [{ name: "web-env", via: "env" as const }];
+  const reloading = { containers: [{ name: "reload", image: "ghcr.io/x/config-reloader:1" }] };
+
+  test.each<[string, Record<string, unknown>, Record<string, unknown>, string | null]>([
+    ["a checksum pod annotation", {}, { "checksum/secret": "abc" }, "pod annotation checksum/secret"],
+    [
+      "Reloader on the workload",
+      { "reloader.stakater.com/auto": "true" },
+      {},
+      "reloader.stakater.com/auto annotation",
+    ],
+    [
+      "the Vault injector",
+      {},
+      { "vault.hashicorp.com/agent-inject": "true", "vault.hashicorp.com/role": "web" },
+      "vault.hashicorp.com/agent-inject annotation",
+    ],
+    ["nothing", { "checksum/secret": "abc" }, {}, null],
+  ])("finds %s", (_, workloadAnnotations, podAnnotations, expected) => {
+    expect(restartMechanism(workloadAnnotations, podAnnotations, {}, env)).toBe(expected);
+  });
+
+  test("counts self-reloading containers only for mounted Secrets", () => {
+    expect(restartMechanism({}, {}, reloading, mounted)).toBe(
+      "self-reloading container ghcr.io/x/config-reloader:1"
+    );
+    expect(restartMechanism({}, {}, reloading, env)).toBeNull();
+  });
+});
+
+describe("isRestartAnnotation", () => {
+  test.each<[string, boolean]>([
+    ["checksum/secret", true],
+    ["kubectl.kubernetes.io/restartedAt", true],
+    ["rollme", true],
+    ["secret-version", true],
+    ["example.com/config-hash", true],
+    ["vault.hashicorp.com/agent-inject", false],
+    ["app.kubernetes.io/version", false],
+  ])("%s: %p", (key, expected) => {
+    expect(isRestartAnnotation(key)).toBe(expected);
+  });
+});
+
+describe("parseUnifiedDiff", () => {
+  test("splits added and removed lines per file", () => {
+    const diff = [
+      "diff --git a/apps/web/secret.yaml b/apps/web/secret.yaml",
+      "--- a/apps/web/secret.yaml",
+      "+++ b/apps/web/secret.yaml",
+      "@@ -5 +5 @@",
+      "-  password: ENC[old]",
+      "+  password: ENC[new]",
+      "diff --git a/gone.yaml b/gone.yaml",
+      "--- a/gone.yaml",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-kind: ConfigMap",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(diff, "/repo")).toEqual([
+      {
+        file: "/repo/apps/web/secret.yaml",
+        added: ["  password: ENC[new]"],
+        removed: ["  password: ENC[old]"],
+      },
+    ]);
+  });
+});
+
+describe("checkSecretChangeBumps", () => {
+  let repo: string;
+  let context: ClusterContext;
+  let secret: string;
+  let values: string;
+
+  const app = (name: string, dir: string): AppDefinition => ({
+    name,
+    namespace: name,
+    cluster: "prod",
+    chart: { repo: "https://charts.example.com", name, version: "1.0.0" },
+    applicationPath: join(dir, "application.yaml"),
+    valuesPath: join(dir, "values.yaml"),
+    valueFiles: [join(dir, "values.yaml")],
+    inlineValues: null,
+    hasTolerations: false,
+    psaLevel: null,
+    ignoreDifferences: false,
+  });
+
+  const secretChange = (): FileChange => ({ file: secret, added: ["  token: ENC[new]"], removed: [] });
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "secret-restart-test-"));
+    const web = join(repo, "apps", "web");
+    const api = join(repo, "apps", "api");
+    await mkdir(web, { recursive: true });
+    await mkdir(api, { recursive: true });
+
+    secret = join(web, "secret.yaml");
+    values = join(web, "values.yaml");
+    await writeFile(secret, "apiVersion: v1\nkind: Secret\nmetadata:\n  name: web\n");
+    await writeFile(values, 'podAnnotations:\n  secret-version: "1"\n');
+    await writeFile(join(api, "secret.yaml"), "apiVersion: v1\nkind: Secret\nmetadata:\n  name: api\n");
+    await writeFile(join(api, "values.yaml"), 'podAnnotations:\n  reloader.stakater.com/auto: "true"\n');
+
+    const apps = new Map([
+      ["web", app("web", web)],
+      ["api", app("api", api)],
+    ]);
+    context = {
+      name: "prod",
+      nodes: [],
+      apps,
+      repoRoot: repo,
+      clusters: new Map([["prod", { name: "prod", nodes: [], unattributedPatches: [], apps }]]),
+    };
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  test("warns when the app's restart annotation isn't bumped", async () => {
+    const errors = await checkSecretChangeBumps([secretChange()], context);
+
+    expect(errors).toEqual([
+      {
+        file: secret,
+        severity: "warning",
+        message: "Secret changed without bumping secret-version of web; its pods keep the old value",
+        fix: "Bump secret-version in apps/web/values.yaml in this commit",
+      },
+    ]);
+  });
+
+  test("accepts a bump in the same commit", async () => {
+    const bump = { file: values, added: ['  secret-version: "2"'], removed: ['  secret-version: "1"'] };
+
+    expect(await checkSecretChangeBumps([secretChange(), bump], context)).toEqual([]);
+  });
+
+  test("accepts apps restarted by Reloader", async () => {
+    const change = { file: join(repo, "apps", "api", "secret.yaml"), added: ["x"], removed: [] };
+
+    expect(await checkSecretChangeBumps([change], context)).toEqual([]);
+  });
+
+  test("ignores files that aren't Secrets", async () => {
+    expect(await checkSecretChangeBumps([{ file: values, added: ["x"], removed: [] }], context)).toEqual([]);
+  });
+});
+
+describe("checkKustomizeRestarts", () => {
+  let dir: string;
+
+  const deployment = (podAnnotations: string) => `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    metadata:
+      annotations: {${podAnnotations}}
+    spec:
+      containers:
+        - name: web
+          image: web:1.0
+          envFrom:
+            - secretRef:
+                name: web-env
+`;
+
+  const kustomizeApp = (patches: string[] = []): AppDefinition => ({
+    name: "web",
+    namespace: "web",
+    cluster: "prod",
+    chart: null,
+    kustomize: {
+      path: join(dir, "kustomization.yaml"),
+      resources: [join(dir, "deployment.yaml"), join(dir, "base")],
+      patches,
+      generators: [],
+      helmCharts: [],
+    },
+    applicationPath: join(dir, "application.yaml"),
+    valuesPath: join(dir, "values.yaml"),
+    valueFiles: [],
+    inlineValues: null,
+    hasTolerations: false,
+    psaLevel: null,
+    ignoreDifferences: false,
+  });
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "secret-restart-kustomize-test-"));
+    await mkdir(join(dir, "base"));
+    await writeFile(join(dir, "kustomization.yaml"), "resources:\n  - deployment.yaml\n");
+    await writeFile(
+      join(dir, "patch.yaml"),
+      "kind: Deployment\nmetadata:\n  name: web\nspec:\n  template:\n    metadata:\n" +
+        '      annotations:\n        secret-version: "2"\n'
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("warns about workloads using Secrets that nothing restarts", async () => {
+    await writeFile(join(dir, "deployment.yaml"), deployment(""));
+
+    expect(await checkKustomizeRestarts(kustomizeApp())).toEqual([
+      {
+        file: join(dir, "deployment.yaml"),
+        line: 2,
+        severity: "warning",
+        message: "Deployment/web uses Secret web-env but nothing restarts it when the Secret changes",
+        fix:
+          'Add spec.template.metadata.annotations: { secret-version: "1" } and bump it with the ' +
+          'Secret, or annotate the workload reloader.stakater.com/auto: "true"',
+      },
+    ]);
+  });
+
+  test("accepts restart annotations on the workload or in a patch", async () => {
+    await writeFile(join(dir, "deployment.yaml"), deployment("checksum/secret: abc"));
+    expect(await checkKustomizeRestarts(kustomizeApp())).toEqual([]);
+
+    await writeFile(join(dir, "deployment.yaml"), deployment(""));
+    expect(await checkKustomizeRestarts(kustomizeApp([join(dir, "patch.yaml")]))).toEqual([]);
+  });
+});
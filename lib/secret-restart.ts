@@ -0,0 +1,370 @@
+import { exec } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { dirname, join, relative } from "node:path";
+import { promisify } from "node:util";
+import { isNode, LineCounter, parseAllDocuments } from "yaml";
+import { resolveAppForFile } from "./cluster-context.js";
+import type { AppDefinition, ClusterContext, ValidationError } from "./types.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * A Secret a pod consumes, and how: mounted files can be reloaded in place,
+ * environment variables only by a restart
+ */
+export interface SecretUse {
+  name: string;
+  via: "volume" | "env";
+}
+
+/**
+ * Lines a commit adds and removes in one file
+ */
+export interface FileChange {
+  file: string;
+  added: string[];
+  removed: string[];
+}
+
+type Obj = Record<string, unknown>;
+
+// Workloads whose pods outlive a Secret change (Jobs and bare Pods start fresh)
+export const LONG_RUNNING_KINDS = ["Deployment", "StatefulSet", "DaemonSet"];
+
+// Pod annotations that roll the pods when bumped or recomputed: checksum/secret,
+// kubectl's restartedAt, rollme, and counters like secret-version or config-hash
+const RESTART_ANNOTATION =
+  /^checksum\/|(^|\/)(restartedAt|rollme)$|(^|[/.-])(secrets?|configs?|configmaps?|certs?)[-_.]?(version|hash|checksum|revision)$/i;
+
+// Controllers that restart workloads when their Secrets change
+const RELOADER_ANNOTATIONS = [
+  /^reloader\.stakater\.com\//,
+  /^secret\.reloader\.stakater\.com\//,
+  /^wave\.pusher\.com\/update-on-config-change$/,
+];
+
+// Secrets injected at runtime instead of mounted from Kubernetes
+const INJECTOR_ANNOTATIONS = [/^vault\.hashicorp\.com\/agent-inject$/];
+
+// Containers that watch mounted files and reload their process: config-reloader
+// sidecars, and apps known to re-read mounted certificates and credentials
+const SELF_RELOADING_IMAGES = [
+  /config-?reloader/,
+  /configmap-reload/,
+  /k8s-sidecar/,
+  /cert-manager/,
+  /external-secrets/,
+  /stakater\/reloader/,
+];
+
+/**
+ * Secrets a pod spec consumes through volumes, envFrom.secretRef and secretKeyRef
+ */
+export function secretsConsumed(podSpec: Obj): SecretUse[] {
+  const uses: SecretUse[] = [];
+  const add = (name: unknown, via: SecretUse["via"]) => {
+    if (typeof name === "string" && !uses.some((u) => u.name === name && u.via === via)) {
+      uses.push({ name, via });
+    }
+  };
+
+  for (const volume of asList(podSpec.volumes)) {
+    add(asObj(volume.secret).secretName, "volume");
+    for (const source of asList(asObj(volume.projected).sources)) {
+      add(asObj(source.secret).name, "volume");
+    }
+  }
+
+  for (const container of containersOf(podSpec)) {
+    for (const envFrom of asList(container.envFrom)) {
+      add(asObj(envFrom.secretRef).name, "env");
+    }
+    for (const env of asList(container.env)) {
+      add(asObj(asObj(env.valueFrom).secretKeyRef).name, "env");
+    }
+  }
+
+  return uses;
+}
+
+/**
+ * What makes a workload pick up changed Secrets, or null when nothing does
+ */
+export function restartMechanism(
+  workloadAnnotations: Obj,
+  podAnnotations: Obj,
+  podSpec: Obj,
+  uses: SecretUse[]
+): string | null {
+  const checksum = Object.keys(podAnnotations).find((key) => RESTART_ANNOTATION.test(key));
+  if (checksum) return `pod annotation ${checksum}`;
+
+  const annotations = { ...workloadAnnotations, ...podAnnotations };
+  const reloader = Object.keys(annotations).find((key) =>
+    RELOADER_ANNOTATIONS.some((pattern) => pattern.test(key))
+  );
+  if (reloader) return `${reloader} annotation`;
+
+  const injector = Object.keys(annotations).find((key) =>
+    INJECTOR_ANNOTATIONS.some((pattern) => pattern.test(key))
+  );
+  if (injector && String(annotations[injector]) === "true") return `${injector} annotation`;
+
+  // File watchers only help with mounted Secrets; environment is fixed at start
+  if (uses.every((u) => u.via === "volume")) {
+    const image = containersOf(podSpec)
+      .map((c) => String(c.image ?? ""))
+      .find((i) => SELF_RELOADING_IMAGES.some((pattern) => pattern.test(i)));
+    if (image) return `self-reloading container ${image}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check if an annotation key is one that rolls pods when bumped
+ */
+export function isRestartAnnotation(key: string): boolean {
+  return RESTART_ANNOTATION.test(key);
+}
+
+/**
+ * Files a commit would include (staged, or all tracked changes for commit -a)
+ * with their added and removed lines
+ */
+export async function commitChanges(repoRoot: string, all: boolean): Promise<FileChange[]> {
+  const { stdout } = await execAsync(`git diff ${all ? "HEAD" : "--cached"} -U0 --no-color`, {
+    cwd: repoRoot,
+    timeout: 5_000,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+
+  return parseUnifiedDiff(stdout, repoRoot);
+}
+
+/**
+ * Split a unified diff into per-file added and removed lines
+ */
+export function parseUnifiedDiff(diff: string, repoRoot: string): FileChange[] {
+  const changes: FileChange[] = [];
+  let current: FileChange | null = null;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      current = null;
+    } else if (line.startsWith("+++ ")) {
+      const path = line.slice(4).replace(/^b\//, "");
+      if (path === "/dev/null") continue;
+      current = { file: join(repoRoot, path), added: [], removed: [] };
+      changes.push(current);
+    } else if (line.startsWith("--- ")) {
+      continue;
+    } else if (current && line.startsWith("+")) {
+      current.added.push(line.slice(1));
+    } else if (current && line.startsWith("-")) {
+      current.removed.push(line.slice(1));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Secret changes in a commit whose app doesn't roll its pods: no restart
+ * annotation bumped in the same commit and no Reloader
+ */
+export async function checkSecretChangeBumps(
+  changes: FileChange[],
+  context: ClusterContext
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const reported = new Set<string>();
+
+  for (const change of changes) {
+    if (!(await definesSecret(change.file))) continue;
+
+    const app = resolveAppForFile(context, change.file);
+    if (!app || reported.has(app.name)) continue;
+
+    // The bump can be in any file of the app: values, kustomization patches, manifests
+    const appFiles = changes.filter((c) => c.file !== change.file && isAppFile(app, c.file));
+    const bumped = appFiles.some((c) =>
+      c.added.some((line) => {
+        const key = line.match(/^\s*-?\s*["']?([\w./-]+)["']?\s*:/)?.[1];
+        return key !== undefined && isRestartAnnotation(key);
+      })
+    );
+    if (bumped) continue;
+
+    const configured = await appAnnotations(app);
+    if (configured.reloader) continue;
+
+    reported.add(app.name);
+    errors.push({
+      file: change.file,
+      severity: "warning",
+      message: configured.restart
+        ? `Secret changed without bumping ${configured.restart} of ${app.name}; its pods keep the old value`
+        : `Secret changed, but ${app.name} has no restart annotation or Reloader; its pods keep the old value`,
+      fix: configured.restart
+        ? `Bump ${configured.restart} in ${relative(context.repoRoot, app.valuesPath)} in this commit`
+        : 'Add podAnnotations: { secret-version: "1" } to the app\'s values and bump it with ' +
+          'Secret changes, or annotate the workload reloader.stakater.com/auto: "true"',
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Deployments, StatefulSets and DaemonSets among a Kustomize app's resources
+ * that use Secrets with nothing to restart them. A restart annotation or
+ * Reloader in the kustomization or its patches counts for every workload.
+ */
+export async function checkKustomizeRestarts(app: AppDefinition): Promise<ValidationError[]> {
+  if (!app.kustomize) return [];
+
+  const configured = await appAnnotations(app);
+  if (configured.restart || configured.reloader) return [];
+
+  const errors: ValidationError[] = [];
+  for (const file of app.kustomize.resources) {
+    let content: string;
+    try {
+      content = await readFile(file, "utf-8");
+    } catch {
+      // Directory or remote resource
+      continue;
+    }
+
+    const lineCounter = new LineCounter();
+    for (const document of parseAllDocuments(content, { lineCounter })) {
+      if (!("contents" in document) || document.errors.length > 0) continue;
+
+      const doc = asObj(document.toJS());
+      if (!LONG_RUNNING_KINDS.includes(String(doc.kind))) continue;
+
+      const template = asObj(asObj(doc.spec).template);
+      const podSpec = asObj(template.spec);
+      const uses = secretsConsumed(podSpec);
+      const workloadAnnotations = asObj(asObj(doc.metadata).annotations);
+      const podAnnotations = asObj(asObj(template.metadata).annotations);
+      if (uses.length === 0 || restartMechanism(workloadAnnotations, podAnnotations, podSpec, uses)) {
+        continue;
+      }
+
+      const kind = document.getIn(["kind"], true);
+      const names = [...new Set(uses.map((u) => u.name))].join(", ");
+      errors.push({
+        file,
+        line: isNode(kind) && kind.range ? lineCounter.linePos(kind.range[0]).line : undefined,
+        severity: "warning",
+        message:
+          `${doc.kind}/${String(asObj(doc.metadata).name ?? "")} uses Secret ${names} ` +
+          "but nothing restarts it when the Secret changes",
+        fix:
+          'Add spec.template.metadata.annotations: { secret-version: "1" } and bump it with the ' +
+          'Secret, or annotate the workload reloader.stakater.com/auto: "true"',
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check if a file holds a Secret or ExternalSecret
+ */
+async function definesSecret(file: string): Promise<boolean> {
+  let content: string;
+  try {
+    content = await readFile(file, "utf-8");
+  } catch {
+    return false;
+  }
+
+  try {
+    return parseAllDocuments(content).some((document) => {
+      if (!("contents" in document)) return false;
+      const kind = asObj(document.toJS()).kind;
+      return kind === "Secret" || kind === "ExternalSecret";
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Restart annotation (on pod templates) and Reloader (anywhere) set in the
+ * app's values, kustomization or kustomization patches
+ */
+async function appAnnotations(
+  app: AppDefinition
+): Promise<{ restart?: string; reloader: boolean }> {
+  const files = [
+    ...app.valueFiles,
+    ...(app.kustomize ? [app.kustomize.path, ...app.kustomize.patches] : []),
+  ];
+  const podKeys: string[] = [];
+  const keys: string[] = [];
+
+  for (const file of files) {
+    try {
+      for (const document of parseAllDocuments(await readFile(file, "utf-8"))) {
+        if (!("contents" in document)) continue;
+        podKeys.push(...annotationKeys(document.toJS(), true));
+        keys.push(...annotationKeys(document.toJS(), false));
+      }
+    } catch {
+      // Missing or unparseable; the values checks report it
+    }
+  }
+
+  return {
+    restart: podKeys.find(isRestartAnnotation),
+    reloader: keys.some((key) => RELOADER_ANNOTATIONS.some((pattern) => pattern.test(key))),
+  };
+}
+
+/**
+ * Keys of the annotation maps in a document. Pod annotations are chart
+ * podAnnotations, kustomize commonAnnotations (which reach pod templates too)
+ * and template.metadata.annotations.
+ */
+function annotationKeys(value: unknown, podOnly: boolean, parents: string[] = []): string[] {
+  if (Array.isArray(value)) return value.flatMap((item) => annotationKeys(item, podOnly, parents));
+  if (!value || typeof value !== "object") return [];
+
+  return Object.entries(value).flatMap(([key, child]) => {
+    const podAnnotations =
+      /^(pod|common)Annotations$/i.test(key) ||
+      (key === "annotations" && parents.slice(-2).join(".") === "template.metadata");
+    const annotations = podOnly ? podAnnotations : /annotations$/i.test(key);
+    return [
+      ...(annotations ? Object.keys(asObj(child)) : []),
+      ...annotationKeys(child, podOnly, [...parents, key]),
+    ];
+  });
+}
+
+function isAppFile(app: AppDefinition, file: string): boolean {
+  const dirs = [dirname(app.applicationPath), dirname(app.valuesPath)];
+  if (app.kustomize) dirs.push(dirname(app.kustomize.path));
+
+  return (
+    app.valueFiles.includes(file) ||
+    dirs.some((dir) => !relative(dir, file).startsWith(".."))
+  );
+}
+
+function containersOf(podSpec: Obj): Obj[] {
+  return [...asList(podSpec.initContainers), ...asList(podSpec.containers)];
+}
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Obj) : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import {
+  compareVersions,
+  isExactVersion,
+  maxSatisfying,
+  nearestVersions,
+  parseVersion,
+  satisfies,
+  sortVersionsDesc,
+} from "./semver.js";
+
+const compare = (a: string, b: string) => Math.sign(compareVersions(parseVersion(a)!, parseVersion(b)!));
+
+describe("parseVersion", () => {
+  test("fills in missing minor and patch", () => {
+    expect(parseVersion("v1.2")).toMatchObject({ major: 1, minor: 2, patch: 0, prerelease: [] });
+  });
+
+  test("rejects ranges and junk", () => {
+    expect(parseVersion("1.2.*")).toBeNull();
+    expect(parseVersion("latest")).toBeNull();
+  });
+
+  test("tells exact versions from ranges", () => {
+    expect(isExactVersion("1.2.3-rc.1+build")).toBe(true);
+    expect(isExactVersion("1.2")).toBe(false);
+    expect(isExactVersion("^1.2.3")).toBe(false);
+  });
+});
+
+describe("compareVersions", () => {
+  test("orders by precedence", () => {
+    expect(compare("1.10.0", "1.9.0")).toBe(1);
+    expect(compare("1.0.0-rc.1", "1.0.0")).toBe(-1);
+    expect(compare("1.0.0-rc.2", "1.0.0-rc.10")).toBe(-1);
+    expect(compare("1.0.0-alpha", "1.0.0-1")).toBe(1);
+    expect(compare("1.0.0+a", "1.0.0+b")).toBe(0);
+  });
+});
+
+describe("satisfies", () => {
+  test.each([
+    ["1.2.9", "1.2.*", true],
+    ["1.3.0", "1.2.x", false],
+    ["1.5.0", "^1.2", true],
+    ["2.0.0", "^1.2", false],
+    ["0.2.5", "^0.2.3", true],
+    ["0.3.0", "^0.2.3", false],
+    ["1.2.9", "~1.2.3", true],
+    ["1.3.0", "~1.2.3", false],
+    ["1.5.0", ">=1.0 <2.0", true],
+    ["1.5.0", ">= 1.0, < 1.4", false],
+    ["3.1.0", "^1.0 || ^3.0", true],
+    ["1.3.0", "1.2 - 1.4", true],
+    ["1.4.5", "1.2 - 1.4.4", false],
+    ["1.5.0", "!=1.5.0", false],
+  ])("%s against %s", (version, constraint, expected) => {
+    expect(satisfies(version, constraint)).toBe(expected);
+  });
+
+  test("prereleases only match constraints that name one", () => {
+    expect(satisfies("1.3.0-rc.1", "^1.2")).toBe(false);
+    expect(satisfies("1.3.0-rc.2", ">=1.3.0-rc.1")).toBe(true);
+  });
+});
+
+describe("version lists", () => {
+  const versions = ["1.0.0", "1.2.3", "1.2.10", "1.3.0-rc.1", "2.0.0", "garbage"];
+
+  test("maxSatisfying picks the highest match", () => {
+    expect(maxSatisfying(versions, "1.2.*")).toBe("1.2.10");
+    expect(maxSatisfying(versions, ">=3")).toBeNull();
+  });
+
+  test("sortVersionsDesc drops what doesn't parse", () => {
+    expect(sortVersionsDesc(versions)).toEqual(["2.0.0", "1.3.0-rc.1", "1.2.10", "1.2.3", "1.0.0"]);
+  });
+
+  test("nearestVersions prefers the same minor", () => {
+    expect(nearestVersions(versions, "1.2.5", 2)).toEqual(["1.2.3", "1.2.10"]);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Semver parsing and constraint resolution compatible with the
+ * Masterminds/semver rules Helm (and therefore ArgoCD) uses for targetRevision
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  raw: string;
+}
+
+type Operator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+interface Comparator {
+  op: Operator;
+  version: SemVer;
+}
+
+// OR of ANDs: "a b || c" => [[a, b], [c]]
+type Range = Comparator[][];
+
+const VERSION_PATTERN =
+  /^v?(0|[1-9]\d*)(?:\.(0|[1-9]\d*))?(?:\.(0|[1-9]\d*))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const CONSTRAINT_PATTERN = /^(~>|~|\^|!=|>=|=>|<=|=<|>|<|=)?\s*(.+)$/;
+
+/**
+ * Parse a version; missing minor/patch default to 0
+ */
+export function parseVersion(raw: string): SemVer | null {
+  const match = raw.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split(".") : [],
+    raw,
+  };
+}
+
+/**
+ * Check if a string is a full, exact version (not a range)
+ */
+export function isExactVersion(raw: string): boolean {
+  return /^v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/.test(raw.trim());
+}
+
+/**
+ * Compare two versions per semver precedence (build metadata ignored)
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  if (a.patch !== b.patch) return a.patch - b.patch;
+
+  // A version without prerelease has higher precedence
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+
+    const xNum = /^\d+$/.test(x);
+    const yNum = /^\d+$/.test(y);
+    if (xNum && yNum) {
+      const diff = Number(x) - Number(y);
+      if (diff !== 0) return diff;
+    } else if (xNum !== yNum) {
+      return xNum ? -1 : 1;
+    } else if (x !== y) {
+      return x < y ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Parse a constraint string ("1.2.*", ">=1.0 <2.0", "^1.2 || ~2.0")
+ */
+export function parseRange(raw: string): Range | null {
+  const range: Range = [];
+
+  for (const alternative of raw.split("||")) {
+    const comparators: Comparator[] = [];
+    const text = alternative.trim();
+
+    // Hyphen range: "1.2 - 1.4.5"
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      const lower = expandPartial(hyphen[1]);
+      const upper = expandPartial(hyphen[2]);
+      if (!lower || !upper) return null;
+
+      comparators.push({ op: ">=", version: lower.min });
+      comparators.push(
+        upper.wildcard
+          ? { op: "<", version: upper.max }
+          : { op: "<=", version: upper.min }
+      );
+      range.push(comparators);
+      continue;
+    }
+
+    // Comparators are separated by commas and/or whitespace; an operator
+    // may be separated from its version by spaces (">= 1.0")
+    const tokens = text
+      .replace(/(~>|~|\^|!=|>=|=>|<=|=<|>|<|=)\s+/g, "$1")
+      .split(/[\s,]+/)
+      .filter(Boolean);
+
+    if (tokens.length === 0) tokens.push("*");
+
+    for (const token of tokens) {
+      const parsed = parseComparator(token);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+
+    range.push(comparators);
+  }
+
+  return range;
+}
+
+/**
+ * Check if a version satisfies a constraint
+ */
+export function satisfies(version: string, constraint: string): boolean {
+  const parsed = parseVersion(version);
+  const range = parseRange(constraint);
+  if (!parsed || !range) return false;
+
+  return matchesRange(parsed, range);
+}
+
+/**
+ * Highest version satisfying the constraint, or null
+ */
+export function maxSatisfying(versions: string[], constraint: string): string | null {
+  const range = parseRange(constraint);
+  if (!range) return null;
+
+  let best: SemVer | null = null;
+  for (const raw of versions) {
+    const version = parseVersion(raw);
+    if (!version || !matchesRange(version, range)) continue;
+    if (!best || compareVersions(version, best) > 0) {
+      best = version;
+    }
+  }
+
+  return best?.raw ?? null;
+}
+
+/**
+ * Sort versions descending; unparseable versions are dropped
+ */
+export function sortVersionsDesc(versions: string[]): string[] {
+  return versions
+    .map(parseVersion)
+    .filter((v): v is SemVer => v !== null)
+    .sort((a, b) => compareVersions(b, a))
+    .map((v) => v.raw);
+}
+
+/**
+ * Existing versions closest to the target, nearest first
+ */
+export function nearestVersions(versions: string[], target: string, count = 5): string[] {
+  const wanted = parseVersion(target) ?? expandPartial(target)?.min ?? null;
+  const parsed = versions
+    .map(parseVersion)
+    .filter((v): v is SemVer => v !== null);
+
+  if (!wanted) {
+    return sortVersionsDesc(versions).slice(0, count);
+  }
+
+  // Distance weighted by component so 1.2.9 is nearer to 1.2.3 than 1.3.0
+  const distance = (v: SemVer): number =>
+    Math.abs(v.major - wanted.major) * 1e8 +
+    Math.abs(v.minor - wanted.minor) * 1e4 +
+    Math.abs(v.patch - wanted.patch) +
+    (v.prerelease.length > 0 ? 0.5 : 0);
+
+  return parsed
+    .sort((a, b) => distance(a) - distance(b) || compareVersions(b, a))
+    .slice(0, count)
+    .map((v) => v.raw);
+}
+
+function matchesRange(version: SemVer, range: Range): boolean {
+  return range.some((comparators) => {
+    // Prereleases only match when the constraint itself names a prerelease
+    if (
+      version.prerelease.length > 0 &&
+      !comparators.some((c) => c.version.prerelease.length > 0)
+    ) {
+      return false;
+    }
+
+    return comparators.every((c) => compare(version, c));
+  });
+}
+
+function compare(version: SemVer, comparator: Comparator): boolean {
+  const cmp = compareVersions(version, comparator.version);
+
+  switch (comparator.op) {
+    case "=":
+      return cmp === 0;
+    case "!=":
+      return cmp !== 0;
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+  }
+}
+
+interface PartialVersion {
+  min: SemVer;
+  max: SemVer;
+  wildcard: boolean;
+  // Number of components explicitly given (1 = "1", 2 = "1.2", 3 = "1.2.3")
+  given: number;
+}
+
+/**
+ * Expand a partial or wildcard version into its [min, max) bounds
+ */
+function expandPartial(raw: string): PartialVersion | null {
+  const match = raw.trim().match(PARTIAL_PATTERN);
+  if (!match) return null;
+
+  const isX = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+  const prerelease = match[4] ? match[4].split(".") : [];
+
+  const parts = [match[1], match[2], match[3]];
+  let given = 0;
+  for (const part of parts) {
+    if (isX(part)) break;
+    given++;
+  }
+
+  const wildcard = parts.some((p) => p !== undefined && isX(p));
+  const nums = parts.map((p, i) => (i < given ? Number(p) : 0));
+  const min: SemVer = { major: nums[0], minor: nums[1], patch: nums[2], prerelease, raw };
+
+  let max: SemVer;
+  if (given === 0) {
+    max = { major: Infinity, minor: 0, patch: 0, prerelease: [], raw: "" };
+  } else if (given === 1) {
+    max = { major: nums[0] + 1, minor: 0, patch: 0, prerelease: [], raw: "" };
+  } else if (given === 2) {
+    max = { major: nums[0], minor: nums[1] + 1, patch: 0, prerelease: [], raw: "" };
+  } else {
+    max = min;
+  }
+
+  return { min, max, wildcard, given };
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const match = token.match(CONSTRAINT_PATTERN);
+  if (!match) return null;
+
+  const op = match[1] || "=";
+  const partial = expandPartial(match[2]);
+  if (!partial) return null;
+
+  const { min, max, wildcard, given } = partial;
+
+  switch (op) {
+    case "=":
+      if (given === 0) return [{ op: ">=", version: min }];
+      return wildcard
+        ? [
+            { op: ">=", version: min },
+            { op: "<", version: max },
+          ]
+        : [{ op: "=", version: min }];
+    case "!=":
+      return wildcard ? null : [{ op: "!=", version: min }];
+    case ">":
+      return wildcard ? [{ op: ">=", version: max }] : [{ op: ">", version: min }];
+    case ">=":
+    case "=>":
+      return [{ op: ">=", version: min }];
+    case "<":
+      return [{ op: "<", version: min }];
+    case "<=":
+    case "=<":
+      return wildcard ? [{ op: "<", version: max }] : [{ op: "<=", version: min }];
+    case "~":
+    case "~>": {
+      // ~1.2.3 => >=1.2.3 <1.3.0, ~1 => >=1.0.0 <2.0.0
+      const upper =
+        given <= 1
+          ? { ...min, major: min.major + 1, minor: 0, patch: 0, prerelease: [] }
+          : { ...min, minor: min.minor + 1, patch: 0, prerelease: [] };
+      return [
+        { op: ">=", version: min },
+        { op: "<", version: upper },
+      ];
+    }
+    case "^": {
+      // ^1.2.3 => <2.0.0, ^0.2.3 => <0.3.0, ^0.0.3 => <0.0.4
+      let upper: SemVer;
+      if (min.major > 0 || given <= 1) {
+        upper = { ...min, major: min.major + 1, minor: 0, patch: 0, prerelease: [] };
+      } else if (min.minor > 0 || given === 2) {
+        upper = { ...min, minor: min.minor + 1, patch: 0, prerelease: [] };
+      } else {
+        upper = { ...min, patch: min.patch + 1, prerelease: [] };
+      }
+      return [
+        { op: ">=", version: min },
+        { op: "<", version: upper },
+      ];
+    }
+    default:
+      return null;
+  }
+}
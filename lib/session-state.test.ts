@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  readSessionState,
+  remember,
+  SESSION_TTL_MS,
+  sessionKey,
+  updateSessionState,
+} from "./session-state.js";
+
+let dir: string;
+const original = process.env.TALOS_GITOPS_STATE_DIR;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "session-state-test-"));
+  process.env.TALOS_GITOPS_STATE_DIR = dir;
+});
+
+afterAll(async () => {
+  if (original === undefined) delete process.env.TALOS_GITOPS_STATE_DIR;
+  else process.env.TALOS_GITOPS_STATE_DIR = original;
+  await rm(dir, { recursive: true, force: true });
+});
+
+// State file of a key: the only one an update of a new key creates
+async function stateFileOf(update: () => Promise<unknown>): Promise<string> {
+  const sessions = join(dir, "sessions");
+  const before = new Set(await readdir(sessions).catch(() => []));
+  await update();
+  const created = (await readdir(sessions)).filter((f) => f.endsWith(".json") && !before.has(f));
+  if (created.length !== 1) throw new Error(`Expected one new state file, got ${created.length}`);
+  return join(sessions, created[0]);
+}
+
+describe("session state", () => {
+  test("starts fresh", async () => {
+    expect(await readSessionState(sessionKey("new", "/repo"))).toEqual({
+      validatedApps: [],
+      diffedApps: [],
+      configDryRuns: [],
+      dryRuns: [],
+      loopDetection: {},
+    });
+  });
+
+  test("keeps updates per session and repo", async () => {
+    const key = sessionKey("s1", "/repo");
+    await updateSessionState(key, (state) => remember(state.validatedApps, "web"));
+    await updateSessionState(key, (state) => remember(state.validatedApps, "web"));
+
+    expect((await readSessionState(key)).validatedApps).toEqual(["web"]);
+    expect((await readSessionState(sessionKey("s2", "/repo"))).validatedApps).toEqual([]);
+    expect((await readSessionState(sessionKey("s1", "/other"))).validatedApps).toEqual([]);
+  });
+
+  test("shares one state between hooks without a session ID", async () => {
+    await updateSessionState(sessionKey(undefined, "/repo"), (state) => remember(state.diffedApps, "db"));
+
+    expect((await readSessionState(sessionKey("", "/repo"))).diffedApps).toEqual(["db"]);
+  });
+
+  test("doesn't lose concurrent updates", async () => {
+    const key = sessionKey("concurrent", "/repo");
+    const apps = ["a", "b", "c", "d", "e"];
+    await Promise.all(
+      apps.map((app) => updateSessionState(key, (state) => remember(state.validatedApps, app)))
+    );
+
+    expect((await readSessionState(key)).validatedApps.sort()).toEqual(apps);
+  });
+
+  test("forgets expired sessions", async () => {
+    const key = sessionKey("expired", "/repo");
+    const path = await stateFileOf(() =>
+      updateSessionState(key, (state) => remember(state.configDryRuns, "talosctl patch"))
+    );
+    const file = JSON.parse(await readFile(path, "utf-8"));
+    await writeFile(path, JSON.stringify({ ...file, updatedAt: Date.now() - SESSION_TTL_MS - 1 }));
+
+    expect((await readSessionState(key)).configDryRuns).toEqual([]);
+  });
+
+  test("prunes expired state files on write", async () => {
+    const path = await stateFileOf(() =>
+      updateSessionState(sessionKey("stale", "/repo"), (state) => remember(state.diffedApps, "x"))
+    );
+    const old = new Date(Date.now() - SESSION_TTL_MS - 60_000);
+    await utimes(path, old, old);
+
+    await updateSessionState(sessionKey("s1", "/repo"), () => undefined);
+    expect(await readdir(join(dir, "sessions"))).not.toContain(path.split("/").pop());
+  });
+
+  test("falls back to a fresh state for files that don't match the schema", async () => {
+    const key = sessionKey("corrupt", "/repo");
+    const path = await stateFileOf(() => updateSessionState(key, () => undefined));
+    const file = JSON.parse(await readFile(path, "utf-8"));
+    await writeFile(path, JSON.stringify({ ...file, state: { validatedApps: "web" } }));
+
+    expect((await readSessionState(key)).validatedApps).toEqual([]);
+  });
+});
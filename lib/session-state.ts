@@ -0,0 +1,182 @@
+import { createHash } from "node:crypto";
+import { mkdir, open, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { SessionStateSchema, type SessionState } from "./types.js";
+
+// Sessions untouched for this long are forgotten
+export const SESSION_TTL_MS = 24 * 60 * 60_000;
+
+// How long to wait for another hook to release the state, and when a lock
+// is old enough to have been left behind by a killed hook
+const LOCK_WAIT_MS = 3_000;
+const LOCK_STALE_MS = 15_000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Whose state: Claude Code session and repository
+ */
+export interface SessionKey {
+  sessionId: string;
+  repoRoot: string;
+}
+
+interface SessionFile {
+  sessionId: string;
+  repoRoot: string;
+  updatedAt: number;
+  state: unknown;
+}
+
+/**
+ * State directory: TALOS_GITOPS_STATE_DIR, else $XDG_STATE_HOME/talos-gitops-ops
+ */
+export function stateDir(): string {
+  if (process.env.TALOS_GITOPS_STATE_DIR) {
+    return process.env.TALOS_GITOPS_STATE_DIR;
+  }
+  const base = process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+  return join(base, "talos-gitops-ops");
+}
+
+/**
+ * Key for a hook invocation; hooks run without a session ID share "default"
+ */
+export function sessionKey(sessionId: string | undefined, repoRoot: string): SessionKey {
+  return { sessionId: sessionId || "default", repoRoot };
+}
+
+/**
+ * A session's state; fresh when there is none, it expired, or it doesn't
+ * match the schema
+ */
+export async function readSessionState(key: SessionKey): Promise<SessionState> {
+  try {
+    const file = JSON.parse(await readFile(statePath(key), "utf-8")) as SessionFile;
+    // Guard against hash collisions
+    if (file.sessionId !== key.sessionId || file.repoRoot !== key.repoRoot) return freshState();
+    if (typeof file.updatedAt !== "number" || Date.now() - file.updatedAt > SESSION_TTL_MS) {
+      return freshState();
+    }
+
+    const parsed = SessionStateSchema.safeParse(file.state);
+    return parsed.success ? parsed.data : freshState();
+  } catch {
+    return freshState();
+  }
+}
+
+/**
+ * Read-modify-write a session's state under a lock, so concurrent hooks of
+ * the same session don't lose each other's updates. When the lock can't be
+ * had in time, update runs on a snapshot that isn't saved.
+ */
+export async function updateSessionState<T>(
+  key: SessionKey,
+  update: (state: SessionState) => T | Promise<T>
+): Promise<T> {
+  const release = await acquireLock(key);
+  try {
+    const state = await readSessionState(key);
+    const result = await update(state);
+    if (release) await writeSessionState(key, state);
+    return result;
+  } finally {
+    await release?.();
+  }
+}
+
+/**
+ * Add a value to a state list unless it's already there
+ */
+export function remember(list: string[], value: string): void {
+  if (!list.includes(value)) list.push(value);
+}
+
+function freshState(): SessionState {
+  return SessionStateSchema.parse({});
+}
+
+function statePath(key: SessionKey): string {
+  const hash = createHash("sha256")
+    .update(`${key.sessionId}\0${key.repoRoot}`)
+    .digest("hex")
+    .slice(0, 32);
+  return join(stateDir(), "sessions", `${hash}.json`);
+}
+
+async function writeSessionState(key: SessionKey, state: SessionState): Promise<void> {
+  const path = statePath(key);
+  const file: SessionFile = { ...key, updatedAt: Date.now(), state };
+
+  try {
+    await mkdir(join(stateDir(), "sessions"), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(file, null, 2));
+    await rename(tmp, path);
+    await pruneExpired();
+  } catch {
+    // State is best-effort
+  }
+}
+
+/**
+ * Exclusive lock file next to the state; returns its release, or null when
+ * it couldn't be had within LOCK_WAIT_MS
+ */
+async function acquireLock(key: SessionKey): Promise<(() => Promise<void>) | null> {
+  const lockPath = `${statePath(key)}.lock`;
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  try {
+    await mkdir(join(stateDir(), "sessions"), { recursive: true });
+  } catch {
+    return null;
+  }
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.close();
+      return () => rm(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") return null;
+    }
+
+    if (await isStale(lockPath)) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) return null;
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+async function isStale(lockPath: string): Promise<boolean> {
+  try {
+    return Date.now() - (await stat(lockPath)).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Released meanwhile
+    return false;
+  }
+}
+
+/**
+ * Delete state files of sessions past the TTL
+ */
+async function pruneExpired(): Promise<void> {
+  const dir = join(stateDir(), "sessions");
+
+  for (const name of await readdir(dir)) {
+    if (!name.endsWith(".json")) continue;
+    try {
+      const path = join(dir, name);
+      if (Date.now() - (await stat(path)).mtimeMs > SESSION_TTL_MS) {
+        await rm(path, { force: true });
+      }
+    } catch {
+      // Removed by another hook
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { extractInvocations, formatInvocation, tokenize } from "./shell-parser.js";
+
+// "program args..." of every invocation, in order
+const run = (source: string) => extractInvocations(source).map(formatInvocation);
+const programs = (source: string) => extractInvocations(source).map((i) => i.program);
+
+describe("tokenize", () => {
+  test("removes quotes and keeps escaped characters", () => {
+    const words = tokenize(`echo "a b" 'c d' e\\ f`)
+      .filter((t) => t.type === "word")
+      .map((t) => (t.type === "word" ? t.word.text : ""));
+    expect(words).toEqual(["echo", "a b", "c d", "e f"]);
+  });
+
+  test("records command substitutions inside words", () => {
+    const [, word] = tokenize(`echo "ns=$(kubectl get ns)"`);
+    expect(word.type === "word" && word.word.substitutions).toEqual(["kubectl get ns"]);
+  });
+});
+
+describe("extractInvocations", () => {
+  test("finds every program of lists and pipelines", () => {
+    expect(programs("cd apps && helm template x . | kubectl apply -f - ; echo done || true")).toEqual([
+      "cd", "helm", "kubectl", "echo", "true",
+    ]);
+  });
+
+  test("looks inside subshells, substitutions and process substitution", () => {
+    expect(programs("(cd /tmp; kubectl get pods)")).toEqual(["cd", "kubectl"]);
+    expect(programs("echo $(kubectl get ns) `helm list`")).toEqual(["kubectl", "helm", "echo"]);
+    expect(programs("diff <(kubectl get cm a -o yaml) b.yaml")).toEqual(["kubectl", "diff"]);
+  });
+
+  test("resolves paths, assignments and reserved words", () => {
+    expect(run("KUBECONFIG=x /usr/local/bin/kubectl get pods")).toEqual(["kubectl get pods"]);
+    expect(programs("if true; then kubectl delete ns x; fi")).toEqual(["true", "kubectl"]);
+    expect(programs("while read n; do talosctl reboot -n $n; done < nodes")).toEqual(["read", "talosctl"]);
+  });
+
+  test("looks inside case branches and function bodies", () => {
+    expect(run("case x in x) kubectl delete ns x;; esac")).toEqual(["kubectl delete ns x"]);
+    expect(run("case $1 in\n  (a|b) helm list ;;\n  *) kubectl delete ns prod ;&\nesac")).toEqual([
+      "helm list", "kubectl delete ns prod",
+    ]);
+    expect(run("f() { kubectl delete ns x; }; f")).toEqual(["kubectl delete ns x", "f"]);
+    expect(run("function g { talosctl reset -n 10.0.0.1; }")).toEqual(["talosctl reset -n 10.0.0.1"]);
+    expect(run("h() (kubectl delete ns y)")).toEqual(["kubectl delete ns y"]);
+  });
+
+  test("starts a new command at stray parentheses", () => {
+    expect(programs("echo a) kubectl delete ns x")).toEqual(["echo", "kubectl"]);
+    expect(programs("echo (kubectl delete ns x)")).toEqual(["echo", "kubectl"]);
+  });
+
+  test("unwraps wrapper commands", () => {
+    const [invocation] = extractInvocations("sudo -u root env -i FOO=1 timeout 30s nice -n 5 kubectl get pods");
+    expect(invocation).toEqual({
+      program: "kubectl",
+      args: ["get", "pods"],
+      wrappers: ["sudo", "env", "timeout", "nice"],
+    });
+    expect(run("xargs -n1 kubectl delete ns")).toEqual(["kubectl delete ns"]);
+    expect(run("command kubectl get pods")).toEqual(["kubectl get pods"]);
+    expect(run("command -v kubectl")).toEqual(["command -v kubectl"]);
+  });
+
+  test("splits env -S strings into the command", () => {
+    expect(extractInvocations(`env -S "kubectl get" pods`)).toEqual([
+      { program: "kubectl", args: ["get", "pods"], wrappers: ["env"] },
+    ]);
+    expect(run(`env -i --split-string="kubectl delete ns x"`)).toEqual(["kubectl delete ns x"]);
+    expect(run(`env -S'helm uninstall x'`)).toEqual(["helm uninstall x"]);
+  });
+
+  test("parses sh -c and eval strings", () => {
+    expect(extractInvocations(`bash -lc "kubectl delete ns prod"`)).toEqual([
+      { program: "kubectl", args: ["delete", "ns", "prod"], wrappers: ["bash"] },
+    ]);
+    expect(run(`eval "helm upgrade x ."`)).toEqual(["helm upgrade x ."]);
+  });
+
+  test("doesn't mistake quoted text or comments for commands", () => {
+    expect(programs(`git commit -m "kubectl delete ns prod" # kubectl delete`)).toEqual(["git"]);
+    expect(programs("cat <<EOF\nkubectl delete ns x\nEOF")).toEqual(["cat"]);
+  });
+});
+
+describe("command strings run through a shell", () => {
+  test("watch runs its arguments through sh -c", () => {
+    expect(run(`watch "kubectl delete ns prod"`)).toEqual(["kubectl delete ns prod"]);
+    expect(run("watch -n 5 kubectl get pods")).toEqual(["kubectl get pods"]);
+  });
+
+  test("heredocs and here-strings fed to a shell are scripts", () => {
+    expect(run("bash <<EOF\nkubectl delete ns x\nEOF")).toEqual(["bash", "kubectl delete ns x"]);
+    expect(run("sudo sh -s <<-EOF\n\tkubectl delete ns y\n\tEOF\necho done")).toEqual([
+      "sh -s", "kubectl delete ns y", "echo done",
+    ]);
+    expect(run("sh <<< 'kubectl delete ns w'")).toEqual(["sh", "kubectl delete ns w"]);
+    expect(run("bash script.sh <<EOF\nkubectl delete ns v\nEOF")).toEqual(["bash script.sh"]);
+  });
+});
@@ -0,0 +1,690 @@
+/**
+ * Bash command-line parser: tokenizer, AST, and extraction of every program
+ * actually invoked (through pipes, lists, subshells, command substitution,
+ * `sh -c` strings, scripts fed to a shell on stdin and wrapper commands like
+ * env/sudo/xargs/watch/timeout)
+ */
+
+export interface Word {
+  // Word with quotes removed; substitutions kept as their raw source
+  text: string;
+  // Bodies of $(...) / `...` / <(...) inside the word
+  substitutions: string[];
+  // The whole word is one command substitution, e.g. "$(which kubectl)"
+  pureSubstitution: boolean;
+  // Heredoc delimiter words: the body that follows
+  heredoc?: string;
+}
+
+export interface SimpleCommand {
+  kind: "command";
+  words: Word[];
+  // Words used as redirect targets (may contain substitutions)
+  redirects: Word[];
+  // What a heredoc or here-string feeds the command
+  stdin?: string;
+}
+
+export interface Subshell {
+  kind: "subshell";
+  body: CommandList;
+}
+
+export type Command = SimpleCommand | Subshell;
+
+export interface Pipeline {
+  commands: Command[];
+}
+
+export interface CommandList {
+  items: Array<{ pipeline: Pipeline; operator?: string }>;
+}
+
+export interface Invocation {
+  // Program basename with aliases resolved (e.g. "kubectl")
+  program: string;
+  // Arguments after the program
+  args: string[];
+  // Wrapper programs this was run through, outermost first
+  wrappers: string[];
+}
+
+interface Heredoc {
+  delimiter: string;
+  stripTabs: boolean;
+  // Index of the delimiter word in the token list
+  token: number;
+}
+
+type Token =
+  | { type: "word"; word: Word }
+  | { type: "op"; op: string }
+  | { type: "redirect"; op: string };
+
+// Shorthands that resolve to the real program
+const ALIASES: Record<string, string> = {
+  k: "kubectl",
+  kubecolor: "kubectl",
+};
+
+// Reserved words that may prefix a command without changing what runs
+const TRANSPARENT_KEYWORDS = new Set([
+  "if", "then", "else", "elif", "fi", "do", "done", "while", "until", "esac", "!", "{", "}", "time",
+]);
+
+// Operators that end a case branch; the next branch's pattern follows
+const CASE_BREAKS = [";;", ";&", ";;&"];
+
+// Shells whose -c argument is itself a command line
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "ash"]);
+
+interface WrapperSpec {
+  valueFlags: string[];
+  // Leading positionals that belong to the wrapper (e.g. timeout's DURATION)
+  positionals?: number;
+  assignments?: boolean;
+  // Runs its arguments joined as one sh -c string, unless given one of these flags
+  shellString?: { unlessFlags: string[] };
+  // Options whose value is a command line of its own (env -S "kubectl get")
+  commandFlags?: string[];
+}
+
+// Wrapper commands and the options that take a separate value
+const WRAPPERS: Record<string, WrapperSpec> = {
+  env: {
+    valueFlags: ["-u", "--unset", "-C", "--chdir"],
+    assignments: true,
+    commandFlags: ["-S", "--split-string"],
+  },
+  sudo: { valueFlags: ["-u", "-g", "-h", "-p", "-C", "-D", "-R", "-T", "-U", "--user", "--group"] },
+  doas: { valueFlags: ["-u", "-C"] },
+  xargs: {
+    valueFlags: ["-I", "-L", "-n", "-P", "-s", "-d", "-E", "-a", "--max-args", "--max-procs", "--delimiter", "--arg-file"],
+  },
+  watch: {
+    valueFlags: ["-n", "--interval", "-q", "--equexit"],
+    shellString: { unlessFlags: ["-x", "--exec"] },
+  },
+  timeout: { valueFlags: ["-s", "--signal", "-k", "--kill-after"], positionals: 1 },
+  nice: { valueFlags: ["-n", "--adjustment"] },
+  ionice: { valueFlags: ["-c", "-n", "-p"] },
+  nohup: { valueFlags: [] },
+  time: { valueFlags: ["-f", "-o"] },
+  command: { valueFlags: [] },
+  exec: { valueFlags: ["-a"] },
+  stdbuf: { valueFlags: ["-i", "-o", "-e"] },
+  chronic: { valueFlags: [] },
+};
+
+// Lookups whose output is a program path: $(which kubectl)
+const LOOKUPS: Record<string, string[]> = {
+  which: [],
+  command: ["-v", "-V"],
+  type: ["-p", "-P"],
+};
+
+/**
+ * Split a command line into tokens
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const heredocs: Heredoc[] = [];
+  let i = 0;
+
+  let text = "";
+  let substitutions: string[] = [];
+  let inWord = false;
+  // Sequence of part kinds in the current word, to spot "$(...)"-only words
+  let parts: Array<"text" | "sub"> = [];
+
+  const flush = () => {
+    if (inWord) {
+      tokens.push({
+        type: "word",
+        word: { text, substitutions, pureSubstitution: parts.length === 1 && parts[0] === "sub" },
+      });
+    }
+    text = "";
+    substitutions = [];
+    inWord = false;
+    parts = [];
+  };
+
+  const appendText = (str: string) => {
+    inWord = true;
+    if (str === "") return;
+    if (parts[parts.length - 1] !== "text") parts.push("text");
+    text += str;
+  };
+
+  const appendSub = (body: string, raw: string) => {
+    inWord = true;
+    parts.push("sub");
+    substitutions.push(body);
+    text += raw;
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+
+    // Line continuation
+    if (c === "\\" && source[i + 1] === "\n") {
+      i += 2;
+      continue;
+    }
+
+    if (c === " " || c === "\t") {
+      flush();
+      i++;
+      continue;
+    }
+
+    if (c === "\n") {
+      flush();
+      tokens.push({ type: "op", op: ";" });
+      i++;
+      i = readHeredocs(source, i, heredocs, tokens);
+      continue;
+    }
+
+    if (c === "#" && !inWord) {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    // Redirects, with an optional fd prefix ("2>", "2>&1")
+    const redirect = source.slice(i).match(/^(&>>|&>|>>|>&|>\||<<<|<<-|<<|<&|<>|>|<)/);
+    if (redirect && !source.slice(i).match(/^[<>]\(/)) {
+      // "2>" - the digits are the fd, not a word
+      if (inWord && /^\d+$/.test(text) && substitutions.length === 0) {
+        text = "";
+        inWord = false;
+      }
+      flush();
+      const op = redirect[1];
+      tokens.push({ type: "redirect", op });
+      i += op.length;
+
+      if (op === "<<" || op === "<<-") {
+        const delimiter = source.slice(i).match(/^\s*(['"]?)([\w.-]+)\1/);
+        if (delimiter) {
+          // The delimiter is the next token
+          heredocs.push({ delimiter: delimiter[2], stripTabs: op === "<<-", token: tokens.length });
+        }
+      }
+      continue;
+    }
+
+    const op = source.slice(i).match(/^(\|\||\|&|&&|;;&|;;|;&|\||&|;|\(|\))/);
+    if (op) {
+      flush();
+      tokens.push({ type: "op", op: op[1] });
+      i += op[1].length;
+      continue;
+    }
+
+    if (c === "'") {
+      const end = source.indexOf("'", i + 1);
+      const stop = end === -1 ? source.length : end;
+      appendText(source.slice(i + 1, stop));
+      i = stop + 1;
+      continue;
+    }
+
+    if (c === "$" && source[i + 1] === "'") {
+      let j = i + 2;
+      let quoted = "";
+      while (j < source.length && source[j] !== "'") {
+        if (source[j] === "\\" && j + 1 < source.length) j++;
+        quoted += source[j];
+        j++;
+      }
+      appendText(quoted);
+      i = j + 1;
+      continue;
+    }
+
+    if (c === '"') {
+      inWord = true;
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === "\\" && "\"\\$`\n".includes(source[j + 1] ?? "")) {
+          appendText(source[j + 1]);
+          j += 2;
+          continue;
+        }
+        const sub = readSubstitution(source, j);
+        if (sub) {
+          appendSub(sub.body, source.slice(j, sub.end));
+          j = sub.end;
+          continue;
+        }
+        appendText(source[j]);
+        j++;
+      }
+      i = j + 1;
+      continue;
+    }
+
+    const sub = readSubstitution(source, i);
+    if (sub) {
+      appendSub(sub.body, source.slice(i, sub.end));
+      i = sub.end;
+      continue;
+    }
+
+    if (c === "\\" && i + 1 < source.length) {
+      appendText(source[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    appendText(c);
+    i++;
+  }
+
+  flush();
+  return tokens;
+}
+
+/**
+ * Parse a command line into a list of pipelines
+ */
+export function parse(source: string): CommandList {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const isOp = (at: number, op: string) => {
+    const token = tokens[at];
+    return token?.type === "op" && token.op === op;
+  };
+
+  // A case branch's "[(]pattern[|pattern...])"; nothing at esac
+  const skipCasePattern = () => {
+    while (isOp(pos, ";")) pos++;
+    const start = isOp(pos, "(") ? pos + 1 : pos;
+    let end = start;
+    while (tokens[end]?.type === "word" || isOp(end, "|")) end++;
+    if (end > start && isOp(end, ")")) pos = end + 1;
+  };
+
+  const parseList = (stop?: string): CommandList => {
+    const items: CommandList["items"] = [];
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.type === "op" && token.op === stop) break;
+      if (token.type === "op" && [";", "&", "&&", "||", ...CASE_BREAKS].includes(token.op)) {
+        if (items.length > 0) items[items.length - 1].operator = token.op;
+        pos++;
+        if (CASE_BREAKS.includes(token.op)) skipCasePattern();
+        continue;
+      }
+      // Unmatched ")"
+      if (token.type === "op" && token.op === ")") {
+        pos++;
+        continue;
+      }
+
+      items.push({ pipeline: parsePipeline(stop) });
+    }
+
+    return { items };
+  };
+
+  const parsePipeline = (stop?: string): Pipeline => {
+    const commands: Command[] = [parseCommand(stop)];
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.type !== "op" || (token.op !== "|" && token.op !== "|&")) break;
+      pos++;
+      commands.push(parseCommand(stop));
+    }
+
+    return { commands };
+  };
+
+  const parseCommand = (stop?: string): Command => {
+    const token = tokens[pos];
+
+    if (token?.type === "op" && token.op === "(") {
+      pos++;
+      const body = parseList(")");
+      pos++; // closing paren
+      // Redirects after a subshell: "(cmd) > out"
+      while (tokens[pos]?.type === "redirect") {
+        pos += 2;
+      }
+      return { kind: "subshell", body };
+    }
+
+    const words: Word[] = [];
+    const redirects: Word[] = [];
+    let stdin: string | undefined;
+
+    while (pos < tokens.length) {
+      const current = tokens[pos];
+      if (current.type === "op") {
+        // NAME () BODY: the body is the command
+        if (current.op === "(" && words.length === 1 && isOp(pos + 1, ")")) {
+          pos += 2;
+          return parseCommand(stop);
+        }
+        // Any other "(" or ")" ends the command; a "(" starts a subshell
+        break;
+      }
+
+      if (current.type === "redirect") {
+        const target = tokens[pos + 1];
+        if (target?.type === "word") {
+          redirects.push(target.word);
+          if (current.op === "<<<") stdin = target.word.text;
+          else if (target.word.heredoc !== undefined) stdin = target.word.heredoc;
+          pos += 2;
+        } else {
+          pos++;
+        }
+        continue;
+      }
+
+      if (words.every((w) => TRANSPARENT_KEYWORDS.has(w.text))) {
+        // case WORD in PATTERN) ...: the head runs nothing, the branches follow
+        if (current.word.text === "case") {
+          for (let next = tokens[pos]; next?.type === "word"; next = tokens[pos]) {
+            words.push(next.word);
+            pos++;
+            if (next.word.text === "in") {
+              skipCasePattern();
+              break;
+            }
+          }
+          return { kind: "command", words, redirects, stdin };
+        }
+
+        // function NAME [()] BODY: the body is the command
+        if (current.word.text === "function") {
+          pos++;
+          if (tokens[pos]?.type === "word") pos++;
+          if (isOp(pos, "(") && isOp(pos + 1, ")")) pos += 2;
+          return parseCommand(stop);
+        }
+      }
+
+      words.push(current.word);
+      pos++;
+    }
+
+    return { kind: "command", words, redirects, stdin };
+  };
+
+  return parseList();
+}
+
+/**
+ * Every program the command line would run, in source order
+ */
+export function extractInvocations(source: string, depth = 0): Invocation[] {
+  // Guard against pathological nesting
+  if (depth > 8) return [];
+
+  const invocations: Invocation[] = [];
+  const list = parse(source);
+
+  const visitList = (commandList: CommandList) => {
+    for (const { pipeline } of commandList.items) {
+      for (const command of pipeline.commands) {
+        if (command.kind === "subshell") {
+          visitList(command.body);
+        } else {
+          invocations.push(...fromSimpleCommand(command, depth));
+        }
+      }
+    }
+  };
+
+  visitList(list);
+  return invocations;
+}
+
+/**
+ * Render an invocation back into a readable command line
+ */
+export function formatInvocation(invocation: Invocation): string {
+  return [invocation.program, ...invocation.args]
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`))
+    .join(" ");
+}
+
+function fromSimpleCommand(command: SimpleCommand, depth: number): Invocation[] {
+  const invocations: Invocation[] = [];
+
+  // Substitutions anywhere in the command run too
+  for (const word of [...command.words, ...command.redirects]) {
+    for (const body of word.substitutions) {
+      invocations.push(...extractInvocations(body, depth + 1));
+    }
+  }
+
+  let words = command.words;
+
+  // Leading reserved words and NAME=value assignments
+  while (words.length > 0) {
+    const first = words[0].text;
+    if (TRANSPARENT_KEYWORDS.has(first) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(first)) {
+      words = words.slice(1);
+    } else {
+      break;
+    }
+  }
+
+  // Loop/case heads run nothing themselves
+  if (words.length === 0 || ["for", "case", "select"].includes(words[0].text)) {
+    return invocations;
+  }
+
+  invocations.push(...resolveProgram(words, [], depth, command.stdin));
+  return invocations;
+}
+
+function resolveProgram(
+  words: Word[],
+  wrappers: string[],
+  depth: number,
+  stdin?: string
+): Invocation[] {
+  if (words.length === 0) return [];
+
+  const program = programName(words[0]);
+  const args = words.slice(1).map((w) => w.text);
+  const runs = (script: string) =>
+    extractInvocations(script, depth + 1).map((inv) => ({
+      ...inv,
+      wrappers: [...wrappers, program, ...inv.wrappers],
+    }));
+
+  if (SHELLS.has(program)) {
+    // sh -c "script" / bash -lc "script"
+    const index = args.findIndex((a) => /^-[a-z]*c[a-z]*$/.test(a));
+    if (index !== -1 && args[index + 1] !== undefined) {
+      return runs(args[index + 1]);
+    }
+
+    // bash <<EOF / bash -s <<< "script": the shell reads its script from stdin
+    const scriptFile = args.some((a) => !a.startsWith("-"));
+    if (stdin !== undefined && (!scriptFile || args.includes("-s"))) {
+      return [{ program, args, wrappers }, ...runs(stdin)];
+    }
+  }
+
+  if (program === "eval") {
+    return runs(args.join(" "));
+  }
+
+  const wrapper = WRAPPERS[program];
+  // "command -v kubectl" only looks the program up
+  if (wrapper && !(program === "command" && /^-[vV]$/.test(args[0] ?? ""))) {
+    const { rest, command } = skipWrapperArgs(words.slice(1), wrapper);
+
+    // env -S "kubectl get": the string is split into the command and its first arguments
+    if (command !== undefined) {
+      return runs([command, ...rest.map((w) => w.text)].join(" "));
+    }
+
+    // watch "kubectl get pods": the arguments are a command line for sh -c
+    const asShell = wrapper.shellString && !args.some((a) => wrapper.shellString!.unlessFlags.includes(a));
+    if (rest.length > 0 && asShell) {
+      return runs(rest.map((w) => w.text).join(" "));
+    }
+    if (rest.length > 0) {
+      return resolveProgram(rest, [...wrappers, program], depth, stdin);
+    }
+  }
+
+  return [{ program, args, wrappers }];
+}
+
+function skipWrapperArgs(words: Word[], wrapper: WrapperSpec): { rest: Word[]; command?: string } {
+  let i = 0;
+
+  while (i < words.length) {
+    const arg = words[i].text;
+    if (arg === "--") {
+      i++;
+      break;
+    }
+    for (const flag of wrapper.commandFlags ?? []) {
+      // -S "cmd", -S"cmd" or --split-string=cmd
+      const prefix = flag.startsWith("--") ? `${flag}=` : flag;
+      if (arg === flag) return { rest: words.slice(i + 2), command: words[i + 1]?.text ?? "" };
+      if (arg.length > prefix.length && arg.startsWith(prefix)) {
+        return { rest: words.slice(i + 1), command: arg.slice(prefix.length) };
+      }
+    }
+    if (wrapper.valueFlags.includes(arg)) {
+      i += 2;
+      continue;
+    }
+    if (arg.startsWith("-") && arg.length > 1) {
+      i++;
+      continue;
+    }
+    if (wrapper.assignments && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  return { rest: words.slice(i + (wrapper.positionals ?? 0)) };
+}
+
+/**
+ * Program name for the first word: basename, aliases, $(which X)
+ */
+function programName(word: Word): string {
+  let name = word.text;
+
+  if (word.pureSubstitution && word.substitutions.length === 1) {
+    const inner = extractInvocations(word.substitutions[0]);
+    const lookup = inner.length === 1 ? inner[0] : null;
+    const lookupFlags = lookup ? LOOKUPS[lookup.program] : undefined;
+
+    if (lookup && lookupFlags) {
+      const target = lookup.args.find((a) => !lookupFlags.includes(a) && !a.startsWith("-"));
+      if (target) name = target;
+    }
+  }
+
+  name = name.split("/").pop() || name;
+  return ALIASES[name] ?? name;
+}
+
+function readSubstitution(source: string, i: number): { body: string; end: number } | null {
+  if (source.startsWith("$((", i)) {
+    // Arithmetic expansion: no commands inside
+    const end = findClosing(source, i + 3, "(", ")", 2);
+    return end === -1 ? null : { body: "", end };
+  }
+
+  if (source.startsWith("$(", i) || source.startsWith("<(", i) || source.startsWith(">(", i)) {
+    const end = findClosing(source, i + 2, "(", ")", 1);
+    const stop = end === -1 ? source.length : end;
+    return { body: source.slice(i + 2, stop - (end === -1 ? 0 : 1)), end: stop };
+  }
+
+  if (source[i] === "`") {
+    let j = i + 1;
+    while (j < source.length && source[j] !== "`") {
+      if (source[j] === "\\") j++;
+      j++;
+    }
+    return { body: source.slice(i + 1, j).replace(/\\`/g, "`"), end: j + 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Index just past the matching close, honouring quotes; -1 if unbalanced
+ */
+function findClosing(source: string, start: number, open: string, close: string, needed: number): number {
+  let depth = needed;
+  let j = start;
+
+  while (j < source.length) {
+    const c = source[j];
+    if (c === "\\") {
+      j += 2;
+      continue;
+    }
+    if (c === "'") {
+      const end = source.indexOf("'", j + 1);
+      j = end === -1 ? source.length : end + 1;
+      continue;
+    }
+    if (c === '"') {
+      j++;
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === "\\") j++;
+        j++;
+      }
+      j++;
+      continue;
+    }
+    if (c === open) depth++;
+    if (c === close) {
+      depth--;
+      if (depth === 0) return j + 1;
+    }
+    j++;
+  }
+
+  return -1;
+}
+
+/**
+ * Read the heredoc bodies queued on the line just ended, attaching each to
+ * its delimiter word
+ */
+function readHeredocs(source: string, i: number, heredocs: Heredoc[], tokens: Token[]): number {
+  while (heredocs.length > 0) {
+    const { delimiter, stripTabs, token } = heredocs.shift()!;
+    const body: string[] = [];
+
+    while (i < source.length) {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      let line = source.slice(i, stop);
+      if (stripTabs) line = line.replace(/^\t+/, "");
+      i = stop + 1;
+      if (line === delimiter) break;
+      body.push(line);
+    }
+
+    const target = tokens[token];
+    if (target?.type === "word") target.word.heredoc = body.join("\n");
+  }
+
+  return Math.min(i, source.length);
+}
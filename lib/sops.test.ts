@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { matchCreationRule, validateKsopsGenerator, validateSecret } from "./sops.js";
+
+const ALICE = "age1alice0000000000000000000000000000000000000000000000000000";
+const BOB = "age1bob000000000000000000000000000000000000000000000000000000";
+
+// Fixture repo: .sops.yaml for apps/, and apps/web deploying secret.yaml through KSOPS
+let repo: string;
+let secretFile: string;
+
+beforeAll(async () => {
+  repo = await mkdtemp(join(tmpdir(), "sops-test-"));
+  secretFile = join(repo, "apps", "web", "secret.yaml");
+  await mkdir(join(repo, "apps", "web"), { recursive: true });
+
+  await writeFile(
+    join(repo, ".sops.yaml"),
+    `creation_rules:\n  - path_regex: apps/.*\\.yaml$\n    age: ${ALICE}\n`
+  );
+  await writeFile(join(repo, "apps", "web", "kustomization.yaml"), "generators:\n  - secret-generator.yaml\n");
+  await writeFile(
+    join(repo, "apps", "web", "secret-generator.yaml"),
+    "apiVersion: viaduct.ai/v1\nkind: ksops\nmetadata:\n  name: secrets\nfiles:\n  - secret.yaml\n"
+  );
+});
+
+afterAll(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+const encrypted = (recipients: string[], password = "ENC[AES256_GCM,data:abc=,iv:x,tag:y,type:str]") => `apiVersion: v1
+kind: Secret
+metadata:
+  name: web
+stringData:
+  password: ${password}
+sops:
+  age:
+${recipients.map((r) => `    - recipient: ${r}\n      enc: x`).join("\n")}
+  lastmodified: "2026-01-01T00:00:00Z"
+  mac: ENC[AES256_GCM,data:mac,iv:x,tag:y,type:str]
+`;
+
+const messages = async (content: string, file = secretFile) =>
+  (await validateSecret(content, file, repo)).map((e) => `${e.severity}: ${e.message}`);
+
+describe("validateSecret", () => {
+  test("accepts a Secret encrypted for the rule's recipients and deployed by KSOPS", async () => {
+    expect(await messages(encrypted([ALICE]))).toEqual([]);
+  });
+
+  test("denies plaintext Secrets without echoing values", async () => {
+    const errors = await validateSecret(
+      "apiVersion: v1\nkind: Secret\nmetadata:\n  name: web\nstringData:\n  password: hunter2\n",
+      secretFile,
+      repo
+    );
+
+    expect(errors).toEqual([
+      {
+        file: secretFile,
+        line: 2,
+        severity: "error",
+        message: "Plaintext Secret web (stringData.password): commit Secrets SOPS-encrypted",
+        fix: "Encrypt it: sops -e -i apps/web/secret.yaml",
+      },
+    ]);
+    expect(JSON.stringify(errors)).not.toContain("hunter2");
+  });
+
+  test("flags values edited in place", async () => {
+    expect(await messages(encrypted([ALICE], "hunter2"))).toEqual([
+      "error: stringData.password is not encrypted (no ENC[...] marker)",
+    ]);
+  });
+
+  test("compares recipients with .sops.yaml", async () => {
+    expect(await messages(encrypted([BOB]))).toEqual([
+      "error: Not encrypted for age1alice0…0000 from .sops.yaml",
+      "warning: Encrypted for age1bob000…0000, which .sops.yaml doesn't list",
+    ]);
+  });
+
+  test("warns when no KSOPS generator deploys it", async () => {
+    expect(await messages(encrypted([ALICE]), join(repo, "apps", "web", "other.yaml"))).toEqual([
+      "warning: No KSOPS generator references this Secret, so ArgoCD won't deploy it",
+    ]);
+  });
+
+  test("checks every Secret of a multi-document file", async () => {
+    const content =
+      "apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: web\n---\n" +
+      "apiVersion: v1\nkind: Secret\nmetadata:\n  name: plain\nstringData:\n  token: abc\n---\n" +
+      encrypted([ALICE]);
+    const errors = await validateSecret(content, secretFile, repo);
+
+    expect(errors.map((e) => [e.line, e.message])).toEqual([
+      [7, "Plaintext Secret plain (stringData.token): commit Secrets SOPS-encrypted"],
+    ]);
+  });
+
+  test("ignores Secrets without values", async () => {
+    expect(await messages("apiVersion: v1\nkind: Secret\nmetadata:\n  name: empty\n")).toEqual([]);
+  });
+});
+
+describe("validateKsopsGenerator", () => {
+  test("reports files that don't exist", async () => {
+    const generator = join(repo, "apps", "web", "secret-generator.yaml");
+    const content = "apiVersion: viaduct.ai/v1\nkind: ksops\nfiles:\n  - secret.yaml\n  - gone.yaml\n";
+    await writeFile(secretFile, encrypted([ALICE]));
+
+    expect((await validateKsopsGenerator(content, generator)).map((e) => e.message)).toEqual([
+      "KSOPS file gone.yaml does not exist",
+    ]);
+  });
+});
+
+describe("matchCreationRule", () => {
+  test("picks the first rule whose path_regex matches", () => {
+    const rules = [{ pathRegex: "^clusters/", age: [BOB] }, { pathRegex: "\\.yaml$", age: [ALICE] }, { age: [] }];
+
+    expect(matchCreationRule(rules, "/repo/apps/a.yaml", "/repo")?.age).toEqual([ALICE]);
+    expect(matchCreationRule(rules, "/repo/clusters/a.yaml", "/repo")?.age).toEqual([BOB]);
+    expect(matchCreationRule(rules, "/repo/README.md", "/repo")?.age).toEqual([]);
+  });
+});
@@ -0,0 +1,354 @@
+import { readFile } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import { isNode, LineCounter, parseAllDocuments, parse as parseYaml, type Document } from "yaml";
+import { findKustomization, parseKustomization } from "./kustomize.js";
+import type { Kustomization, ValidationError } from "./types.js";
+
+/**
+ * A creation rule from .sops.yaml
+ */
+export interface CreationRule {
+  pathRegex?: string;
+  // age recipients, from age: or key_groups[].age
+  age: string[];
+}
+
+type Obj = Record<string, unknown>;
+
+const SOPS_CONFIG = ".sops.yaml";
+
+// ENC[AES256_GCM,data:...,iv:...,tag:...,type:str]
+const ENC_VALUE = /^ENC\[[A-Z0-9_]+,data:.*\]$/s;
+
+/**
+ * Validate the Secret manifests of a file: each must be SOPS-encrypted for
+ * the recipients of the matching .sops.yaml rule and deployed through a
+ * KSOPS generator. Secret values never appear in messages.
+ */
+export async function validateSecret(
+  content: string,
+  filePath: string,
+  repoRoot: string | null
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  let encrypted = false;
+
+  for (const { doc, line: lineOf } of secretDocuments(content)) {
+    const values = secretValues(doc);
+    // Nothing secret to protect (e.g. filled in by a controller)
+    if (values.length === 0) continue;
+
+    const sops = asObj(doc.sops);
+    if (doc.sops === undefined) {
+      // Naming the keys makes an edit that adds one a new problem, not one the file already had
+      const keys = values.map((v) => v.path.join(".")).join(", ");
+      errors.push({
+        file: filePath,
+        line: lineOf(["kind"]),
+        severity: "error",
+        message: `Plaintext Secret ${secretName(doc)} (${keys}): commit Secrets SOPS-encrypted`,
+        fix: `Encrypt it: sops -e -i ${relative(repoRoot ?? dirname(filePath), filePath)}`,
+      });
+      continue;
+    }
+
+    encrypted = true;
+    for (const path of values) {
+      if (!ENC_VALUE.test(String(path.value))) {
+        errors.push({
+          file: filePath,
+          line: lineOf(path.path),
+          severity: "error",
+          message: `${path.path.join(".")} is not encrypted (no ENC[...] marker)`,
+          fix: "Re-encrypt the file with sops instead of editing values in place",
+        });
+      }
+    }
+
+    if (typeof sops.mac !== "string" || !sops.lastmodified) {
+      errors.push({
+        file: filePath,
+        line: lineOf(["sops"]),
+        severity: "error",
+        message: "sops metadata has no mac or lastmodified; the file won't decrypt",
+        fix: "Encrypt with sops rather than writing the sops block by hand",
+      });
+    }
+
+    if (repoRoot) {
+      errors.push(...(await checkCreationRule(sops, filePath, repoRoot, lineOf(["sops"]))));
+    }
+  }
+
+  if (repoRoot && encrypted) {
+    errors.push(...(await checkKsopsReference(filePath, repoRoot)));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a KSOPS generator: the files it decrypts must exist
+ */
+export async function validateKsopsGenerator(
+  content: string,
+  filePath: string
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const files = parseAllDocuments(content)
+    .map((document) => document.toJS())
+    .filter(isKsopsGenerator)
+    .flatMap((doc) => ksopsFiles(asObj(doc), filePath));
+
+  for (const file of files) {
+    try {
+      await readFile(file, "utf-8");
+    } catch {
+      errors.push({
+        file: filePath,
+        severity: "error",
+        message: `KSOPS file ${relative(dirname(filePath), file)} does not exist`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check if a document is a KSOPS generator config
+ */
+export function isKsopsGenerator(doc: unknown): boolean {
+  const d = asObj(doc);
+  return d.kind === "ksops" && String(d.apiVersion ?? "").startsWith("viaduct.ai/");
+}
+
+/**
+ * Secret files a kustomization's KSOPS generators decrypt
+ */
+export async function ksopsSecretFiles(kustomization: Kustomization): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const generator of kustomization.generators) {
+    try {
+      const doc = parseYaml(await readFile(generator, "utf-8"));
+      if (isKsopsGenerator(doc)) files.push(...ksopsFiles(asObj(doc), generator));
+    } catch {
+      // Missing generator file; kustomization validation reports it
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Load the creation rules of the .sops.yaml nearest to a file, up to the repo root
+ */
+export async function loadCreationRules(
+  filePath: string,
+  repoRoot: string
+): Promise<{ configDir: string; rules: CreationRule[] } | null> {
+  let dir = dirname(resolve(filePath));
+
+  while (true) {
+    try {
+      const doc = asObj(parseYaml(await readFile(join(dir, SOPS_CONFIG), "utf-8")));
+      const rules = asList(doc.creation_rules).map((rule) => ({
+        pathRegex: typeof rule.path_regex === "string" ? rule.path_regex : undefined,
+        age: [
+          ...recipients(rule.age),
+          ...asList(rule.key_groups).flatMap((group) => recipients(group.age)),
+        ],
+      }));
+      return { configDir: dir, rules };
+    } catch {
+      // No (readable) .sops.yaml here
+    }
+
+    if (dir === resolve(repoRoot) || dir === dirname(dir)) return null;
+    dir = dirname(dir);
+  }
+}
+
+/**
+ * The first creation rule whose path_regex matches the file, as sops picks it
+ */
+export function matchCreationRule(
+  rules: CreationRule[],
+  filePath: string,
+  configDir: string
+): CreationRule | undefined {
+  const relativePath = relative(configDir, filePath);
+
+  return rules.find((rule) => {
+    if (!rule.pathRegex) return true;
+    try {
+      const regex = new RegExp(rule.pathRegex);
+      return regex.test(relativePath) || regex.test(filePath);
+    } catch {
+      return false;
+    }
+  });
+}
+
+async function checkCreationRule(
+  sops: Obj,
+  filePath: string,
+  repoRoot: string,
+  line: number | undefined
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const config = await loadCreationRules(filePath, repoRoot);
+
+  if (!config) {
+    errors.push({
+      file: filePath,
+      severity: "error",
+      message: `No ${SOPS_CONFIG} in the repo; nothing says who can decrypt this Secret`,
+      fix: `Add ${SOPS_CONFIG} with a creation_rules entry for this path`,
+    });
+    return errors;
+  }
+
+  const rule = matchCreationRule(config.rules, filePath, config.configDir);
+  if (!rule) {
+    errors.push({
+      file: filePath,
+      severity: "error",
+      message: `No creation_rules entry in ${SOPS_CONFIG} matches ${relative(config.configDir, filePath)}`,
+      fix: "Add a path_regex for this path, or move the file where a rule applies",
+    });
+    return errors;
+  }
+
+  // Only age recipients are compared; other key types are left to sops
+  if (rule.age.length === 0) return errors;
+
+  const encryptedFor = asList(sops.age)
+    .map((entry) => entry.recipient)
+    .filter((r): r is string => typeof r === "string");
+  const missing = rule.age.filter((r) => !encryptedFor.includes(r));
+  const extra = encryptedFor.filter((r) => !rule.age.includes(r));
+
+  if (missing.length > 0) {
+    errors.push({
+      file: filePath,
+      line,
+      severity: "error",
+      message: `Not encrypted for ${missing.map(shortKey).join(", ")} from ${SOPS_CONFIG}`,
+      fix: `Run: sops updatekeys ${relative(repoRoot, filePath)}`,
+    });
+  }
+  if (extra.length > 0) {
+    errors.push({
+      file: filePath,
+      line,
+      severity: "warning",
+      message: `Encrypted for ${extra.map(shortKey).join(", ")}, which ${SOPS_CONFIG} doesn't list`,
+      fix: `Run: sops updatekeys ${relative(repoRoot, filePath)}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * ArgoCD only deploys the Secret when a KSOPS generator of a kustomization
+ * between the file and the repo root lists it
+ */
+async function checkKsopsReference(
+  filePath: string,
+  repoRoot: string
+): Promise<ValidationError[]> {
+  const target = resolve(filePath);
+  let dir = dirname(target);
+
+  while (true) {
+    const kustomizationFile = await findKustomization(dir);
+    if (kustomizationFile) {
+      const { kustomization } = parseKustomization(
+        await readFile(kustomizationFile, "utf-8"),
+        kustomizationFile
+      );
+
+      if ((await ksopsSecretFiles(kustomization)).includes(target)) return [];
+    }
+
+    if (dir === resolve(repoRoot) || dir === dirname(dir)) break;
+    dir = dirname(dir);
+  }
+
+  return [
+    {
+      file: filePath,
+      severity: "warning",
+      message: "No KSOPS generator references this Secret, so ArgoCD won't deploy it",
+      fix:
+        "List it in a ksops generator's files and add the generator to the app's " +
+        "kustomization.yaml generators",
+    },
+  ];
+}
+
+function ksopsFiles(doc: Obj, generatorPath: string): string[] {
+  return (Array.isArray(doc.files) ? doc.files : [])
+    .filter((f): f is string => typeof f === "string")
+    .map((f) => resolve(dirname(generatorPath), f));
+}
+
+/**
+ * The Secret documents of a file with a line lookup for each
+ */
+function secretDocuments(
+  content: string
+): Array<{ doc: Obj; line: (path: string[]) => number | undefined }> {
+  const lineCounter = new LineCounter();
+  return parseAllDocuments(content, { lineCounter })
+    .filter((d): d is Document.Parsed => "contents" in d && d.errors.length === 0)
+    .map((document) => ({
+      doc: asObj(document.toJS()),
+      line: (path: string[]) => {
+        const node = document.getIn(path, true);
+        return isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+      },
+    }))
+    .filter(({ doc }) => doc.kind === "Secret");
+}
+
+/**
+ * Leaf values under data and stringData, with their paths
+ */
+function secretValues(doc: Obj): Array<{ path: string[]; value: unknown }> {
+  const values: Array<{ path: string[]; value: unknown }> = [];
+
+  for (const field of ["data", "stringData"]) {
+    for (const [key, value] of Object.entries(asObj(doc[field]))) {
+      values.push({ path: [field, key], value });
+    }
+  }
+
+  return values;
+}
+
+function secretName(doc: Obj): string {
+  const name = asObj(doc.metadata).name;
+  return typeof name === "string" ? name : "";
+}
+
+function recipients(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return list.map((r) => String(r).trim()).filter(Boolean);
+}
+
+// age1abc…xyz: enough to tell keys apart
+function shortKey(recipient: string): string {
+  return recipient.length > 16 ? `${recipient.slice(0, 10)}…${recipient.slice(-4)}` : recipient;
+}
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Obj) : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
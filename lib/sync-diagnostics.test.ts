@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { diagnoseApp, failingResources, formatDiagnosis, type AppSource } from "./sync-diagnostics.js";
+import type { ArgoApplication, ArgoResourceNode } from "./types.js";
+
+const APP: ArgoApplication = {
+  metadata: { name: "web" },
+  status: {
+    operationState: {
+      phase: "Failed",
+      syncResult: {
+        resources: [
+          { kind: "Job", name: "migrate", namespace: "web", hookType: "PreSync", hookPhase: "Failed" },
+          { kind: "Service", name: "web", namespace: "web", status: "Synced" },
+        ],
+      },
+    },
+    resources: [{ kind: "Deployment", name: "web", namespace: "web", health: { status: "Degraded" } }],
+  },
+};
+
+const pod = (name: string, reason: string, message?: string): ArgoResourceNode => ({
+  kind: "Pod",
+  name,
+  namespace: "web",
+  health: { status: reason === "Pending" ? "Progressing" : "Degraded", message },
+  info: [{ name: "Status Reason", value: reason }],
+});
+
+describe("failingResources", () => {
+  test("reads failed hooks, then the managed resources without a tree", () => {
+    expect(failingResources(APP, null)).toEqual([
+      { kind: "Job", name: "migrate", namespace: "web", message: undefined, reason: "PreSync hook Failed" },
+      { kind: "Deployment", name: "web", namespace: "web", message: undefined, reason: "Degraded" },
+    ]);
+  });
+
+  test("takes pod status reasons from the resource tree", () => {
+    const tree = [
+      pod("web-1", "CrashLoopBackOff"),
+      pod("web-2", "Pending", "0/3 nodes are available"),
+      { kind: "PersistentVolumeClaim", name: "data", namespace: "web", health: { status: "Progressing" } },
+      { kind: "ConfigMap", name: "web", namespace: "web", health: { status: "Healthy" } },
+    ];
+
+    expect(failingResources(APP, tree).map((f) => [f.kind, f.name, f.reason])).toEqual([
+      ["Job", "migrate", "PreSync hook Failed"],
+      ["Pod", "web-1", "CrashLoopBackOff"],
+      ["Pod", "web-2", "Pending"],
+      ["PersistentVolumeClaim", "data", "Pending"],
+    ]);
+  });
+});
+
+describe("diagnoseApp", () => {
+  const gotchas = (tree: ArgoResourceNode[], source?: AppSource) =>
+    diagnoseApp({}, tree, source).suggestions.map((s) => s.gotcha.id);
+
+  test.each<[string, ArgoResourceNode]>([
+    [
+      "control-plane-tolerations",
+      pod("a", "Pending", "0/3 nodes: untolerated taint {node-role.kubernetes.io/control-plane: }"),
+    ],
+    ["psa-rejection", pod("a", "Error", 'violates PodSecurity "baseline:latest": host namespaces')],
+    ["missing-secret", pod("a", "CreateContainerConfigError", 'secret "db-password" not found')],
+    ["image-pull", pod("a", "ImagePullBackOff")],
+    ["crash-loop", pod("a", "CrashLoopBackOff")],
+  ])("explains %s", (id, failure) => {
+    expect(gotchas([failure])).toEqual([id]);
+  });
+
+  test("blames master: only for charts that renamed it, on their primary", () => {
+    const values = "master:\n  persistence:\n    size: 8Gi\n";
+    const primary = pod("db-postgresql-0", "CrashLoopBackOff");
+
+    expect(gotchas([primary], { values, chart: "postgresql" })).toEqual(["bitnami-master"]);
+    expect(gotchas([pod("db-postgresql-read-0", "CrashLoopBackOff")], { values, chart: "postgresql" })).toEqual([
+      "crash-loop",
+    ]);
+    expect(gotchas([pod("cache-redis-master-0", "CrashLoopBackOff")], { values, chart: "redis" })).toEqual([
+      "crash-loop",
+    ]);
+    expect(gotchas([primary], { values: "primary:\n  resources: {}\n", chart: "postgresql" })).toEqual([
+      "crash-loop",
+    ]);
+  });
+
+  test("explains nothing it doesn't know", () => {
+    expect(gotchas([pod("a", "Degraded", "readiness probe failed")])).toEqual([]);
+  });
+});
+
+describe("formatDiagnosis", () => {
+  test("lists every failure and each gotcha once", () => {
+    const diagnosis = diagnoseApp({}, [
+      pod("web-1", "ImagePullBackOff", "Back-off pulling image"),
+      pod("web-2", "ImagePullBackOff"),
+    ]);
+
+    expect(formatDiagnosis(diagnosis, "web")).toEqual([
+      "  Pod/web-1 (web): ImagePullBackOff - Back-off pulling image",
+      "  Pod/web-2 (web): ImagePullBackOff",
+      "  Likely: Image can't be pulled. Check the image repository and tag in the values " +
+        "(the chart's default may not exist for this version), and imagePullSecrets for private registries",
+    ]);
+  });
+});
@@ -0,0 +1,257 @@
+import { BITNAMI_PRIMARY_CHARTS } from "./helm-validator.js";
+import type { ArgoApplication, ArgoResourceNode } from "./types.js";
+
+/**
+ * A resource of an app that failed to sync or isn't healthy
+ */
+export interface ResourceFailure {
+  kind: string;
+  name: string;
+  namespace?: string;
+  // CrashLoopBackOff, ImagePullBackOff, Pending, SyncFailed, PreSync hook Failed, Degraded, ...
+  reason: string;
+  message?: string;
+}
+
+/**
+ * What the repo says about a failing app
+ */
+export interface AppSource {
+  // The app's values file content ("" when unknown)
+  values: string;
+  // Helm chart name; null for kustomize apps or when unknown
+  chart: string | null;
+}
+
+/**
+ * A known failure cause and its fix
+ */
+export interface Gotcha {
+  id: string;
+  title: string;
+  matches: (failure: ResourceFailure, app: AppSource) => boolean;
+  fix: (failure: ResourceFailure, app: string) => string;
+}
+
+export interface Diagnosis {
+  failures: ResourceFailure[];
+  // Likely cause of each failure the catalogue knows
+  suggestions: Array<{ failure: ResourceFailure; gotcha: Gotcha }>;
+}
+
+// Pod status reasons that mean the pod won't come up by itself
+const POD_FAILURE_REASONS = [
+  "CrashLoopBackOff",
+  "ImagePullBackOff",
+  "ErrImagePull",
+  "InvalidImageName",
+  "CreateContainerConfigError",
+  "CreateContainerError",
+  "RunContainerError",
+  "OOMKilled",
+  "Error",
+];
+
+const CONTROL_PLANE_TAINT = "node-role.kubernetes.io/control-plane";
+
+/**
+ * Built-in gotchas, most specific first: the first match explains a failure
+ */
+export const GOTCHAS: Gotcha[] = [
+  {
+    id: "control-plane-tolerations",
+    title: "Missing control-plane toleration",
+    matches: (f) => /untolerated taint/.test(f.message ?? "") && f.message!.includes(CONTROL_PLANE_TAINT),
+    fix: () =>
+      `Every node is tainted ${CONTROL_PLANE_TAINT}. Add { key: "${CONTROL_PLANE_TAINT}", ` +
+      `operator: "Exists", effect: "NoSchedule" } to the component's tolerations in the values`,
+  },
+  {
+    id: "psa-rejection",
+    title: "Pod Security admission rejected the pod",
+    matches: (f) => /violates PodSecurity/.test(f.message ?? ""),
+    fix: (f) => {
+      const level = f.message?.match(/violates PodSecurity "(\w+)/)?.[1] ?? "a";
+      const looser = level === "restricted" ? "baseline" : "privileged";
+      return (
+        `The namespace enforces the ${level} Pod Security Standard and the pod doesn't meet it. ` +
+        `Label ${f.namespace ?? "the namespace"} pod-security.kubernetes.io/enforce: ${looser}, ` +
+        `or change the values so the pod meets it; lint:gitops --render names the fields`
+      );
+    },
+  },
+  {
+    id: "kubelet-root-dir",
+    title: "kubelet root dir on Talos",
+    matches: (f) => /\/var\/lib\/kubelet/.test(f.message ?? ""),
+    fix: () =>
+      "The chart assumes /var/lib/kubelet. Set its kubeletRootDir (or kubeletDir) explicitly " +
+      "to the node's kubelet root and make sure Talos mounts it into the kubelet",
+  },
+  {
+    id: "missing-secret",
+    title: "Secret not found",
+    matches: (f) => /secret "[^"]+" not found/i.test(f.message ?? ""),
+    fix: (f) => {
+      const secret = f.message?.match(/secret "([^"]+)" not found/i)?.[1];
+      return (
+        `Secret ${secret ?? ""} doesn't exist in ${f.namespace ?? "the namespace"}. Check the ` +
+        `ExternalSecret or KSOPS generator that should create it`
+      );
+    },
+  },
+  {
+    id: "image-pull",
+    title: "Image can't be pulled",
+    matches: (f) => /ImagePullBackOff|ErrImagePull|InvalidImageName/.test(f.reason),
+    fix: () =>
+      "Check the image repository and tag in the values (the chart's default may not exist " +
+      "for this version), and imagePullSecrets for private registries",
+  },
+  {
+    id: "pvc-pending",
+    title: "PersistentVolumeClaim pending",
+    matches: (f) => f.kind === "PersistentVolumeClaim" && f.reason === "Pending",
+    fix: () =>
+      "No volume was provisioned. Talos has no default StorageClass: set storageClassName " +
+      "in the values to one that exists and whose provisioner is running",
+  },
+  {
+    id: "failed-hook",
+    title: "Sync hook failed",
+    matches: (f) => / hook (Failed|Error)$/.test(f.reason),
+    fix: (f, app) => `Read the hook's logs: argocd app logs ${app} --kind ${f.kind} --name ${f.name}`,
+  },
+  {
+    id: "bitnami-master",
+    title: "Bitnami master: instead of primary:",
+    matches: (f, app) =>
+      app.chart !== null &&
+      BITNAMI_PRIMARY_CHARTS.includes(app.chart) &&
+      /^\s*master:\s*$/m.test(app.values) &&
+      isPrimaryResource(f, app.chart),
+    fix: () =>
+      "This Bitnami chart renamed master: to primary:, so everything under master: is ignored. " +
+      "Rename the section to primary:",
+  },
+  {
+    id: "crash-loop",
+    title: "Container keeps crashing",
+    matches: (f) => /CrashLoopBackOff|Error|OOMKilled/.test(f.reason),
+    fix: (f, app) =>
+      `Read the logs: argocd app logs ${app} --kind Pod --name ${f.name}` +
+      (f.reason === "OOMKilled" ? "; raise the memory limit in the values" : ""),
+  },
+];
+
+/**
+ * Failing resources of an app: failed sync and hook results of the last
+ * operation, then unhealthy resource tree nodes (pods included). Without a
+ * tree, the app's managed resources are used.
+ */
+export function failingResources(
+  app: ArgoApplication,
+  tree: ArgoResourceNode[] | null
+): ResourceFailure[] {
+  const failures: ResourceFailure[] = [];
+  const add = (failure: ResourceFailure) => {
+    const exists = failures.some(
+      (f) => f.kind === failure.kind && f.name === failure.name && f.namespace === failure.namespace
+    );
+    if (!exists) failures.push(failure);
+  };
+
+  for (const resource of app.status?.operationState?.syncResult?.resources ?? []) {
+    const base = {
+      kind: resource.kind ?? "",
+      name: resource.name ?? "",
+      namespace: resource.namespace,
+      message: resource.message,
+    };
+    if (resource.hookPhase === "Failed" || resource.hookPhase === "Error") {
+      add({ ...base, reason: `${resource.hookType ?? "Sync"} hook ${resource.hookPhase}` });
+    } else if (resource.status === "SyncFailed") {
+      add({ ...base, reason: "SyncFailed" });
+    }
+  }
+
+  const nodes: ArgoResourceNode[] =
+    tree ??
+    (app.status?.resources ?? []).map((r) => ({
+      kind: r.kind ?? "",
+      name: r.name ?? "",
+      namespace: r.namespace,
+      health: r.health,
+    }));
+
+  for (const node of nodes) {
+    const base = {
+      kind: node.kind,
+      name: node.name,
+      namespace: node.namespace,
+      message: node.health?.message,
+    };
+    const health = node.health?.status;
+
+    if (node.kind === "Pod") {
+      const reason = node.info?.find((i) => i.name === "Status Reason")?.value;
+      if (reason && POD_FAILURE_REASONS.includes(reason)) {
+        add({ ...base, reason });
+      } else if (reason === "Pending" || (health === "Progressing" && /schedul/i.test(base.message ?? ""))) {
+        add({ ...base, reason: "Pending" });
+      } else if (health === "Degraded") {
+        add({ ...base, reason: reason ?? "Degraded" });
+      }
+    } else if (node.kind === "PersistentVolumeClaim" && health === "Progressing") {
+      add({ ...base, reason: "Pending" });
+    } else if (health === "Degraded" || health === "Missing") {
+      add({ ...base, reason: health });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Failing resources of an app and the gotchas that likely explain them
+ */
+export function diagnoseApp(
+  app: ArgoApplication,
+  tree: ArgoResourceNode[] | null,
+  source: AppSource = { values: "", chart: null }
+): Diagnosis {
+  const failures = failingResources(app, tree);
+  const suggestions: Diagnosis["suggestions"] = [];
+
+  for (const failure of failures) {
+    const gotcha = GOTCHAS.find((g) => g.matches(failure, source));
+    if (gotcha) suggestions.push({ failure, gotcha });
+  }
+
+  return { failures, suggestions };
+}
+
+/**
+ * Report lines for a diagnosis; one suggestion per gotcha
+ */
+export function formatDiagnosis(diagnosis: Diagnosis, app: string): string[] {
+  const lines = diagnosis.failures.map((f) => {
+    const ref = `${f.kind}/${f.name}${f.namespace ? ` (${f.namespace})` : ""}`;
+    return `  ${ref}: ${f.reason}${f.message ? ` - ${f.message}` : ""}`;
+  });
+
+  const seen = new Set<string>();
+  for (const { failure, gotcha } of diagnosis.suggestions) {
+    if (seen.has(gotcha.id)) continue;
+    seen.add(gotcha.id);
+    lines.push(`  Likely: ${gotcha.title}. ${gotcha.fix(failure, app)}`);
+  }
+
+  return lines;
+}
+
+// The chart's primary (not read replica / secondary) workload and its pods
+function isPrimaryResource(failure: ResourceFailure, chart: string): boolean {
+  if (/primary/.test(failure.name)) return true;
+  return failure.name.includes(chart) && !/read|secondary|replica/.test(failure.name);
+}
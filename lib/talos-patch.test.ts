@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { parseTalosPatch, patchesToNodes, roleFromFileName } from "./talos-patch.js";
+import type { Node } from "./types.js";
+
+const CP1 = `machine:
+  type: controlplane
+  network:
+    hostname: cp1
+    interfaces:
+      - interface: eth0
+        addresses: [10.0.0.1/24]
+        vip:
+          ip: 10.0.0.100
+  install:
+    diskSelector:
+      model: Samsung*
+  nodeLabels:
+    zone: a
+  nodeTaints:
+    dedicated: infra:NoSchedule
+`;
+
+describe("parseTalosPatch", () => {
+  test("reads node facts from strategic-merge config", () => {
+    const info = parseTalosPatch(CP1, "cp1.yaml");
+
+    expect(info).toMatchObject({
+      hostname: "cp1",
+      addresses: ["10.0.0.1/24"],
+      vips: ["10.0.0.100"],
+      role: "control-plane",
+      installDisk: "model=Samsung*",
+      labels: { zone: "a" },
+      taints: { dedicated: "infra:NoSchedule" },
+      errors: [],
+    });
+  });
+
+  test("reads JSON6902 ops and typed documents", () => {
+    const content = `- op: add
+  path: /machine/network/interfaces
+  value: [{ interface: eth0, addresses: [10.0.0.2/24] }]
+- op: replace
+  path: /machine/install/disk
+  value: /dev/nvme0n1
+---
+apiVersion: v1alpha1
+kind: HostnameConfig
+hostname: cp2
+`;
+    const info = parseTalosPatch(content, "cp2.yaml");
+
+    expect(info.hostname).toBe("cp2");
+    expect(info.addresses).toEqual(["10.0.0.2/24"]);
+    expect(info.installDisk).toBe("/dev/nvme0n1");
+    expect(info.role).toBeUndefined();
+  });
+
+  test("reports documents it can't read", () => {
+    expect(parseTalosPatch("machine: [", "bad.yaml").errors).toHaveLength(1);
+    expect(parseTalosPatch("- op: add\n  value: 1\n", "bad.yaml").errors[0]).toContain(
+      "JSON6902 op without a valid path"
+    );
+  });
+});
+
+describe("patchesToNodes", () => {
+  test("merges patches by address and hostname", () => {
+    const { nodes, unattributed } = patchesToNodes([
+      parseTalosPatch(CP1, "cp1.yaml"),
+      parseTalosPatch("machine:\n  network:\n    hostname: cp1\n  kubelet:\n    extraArgs: {}\n", "cp1-kubelet.yaml"),
+      parseTalosPatch("machine:\n  network:\n    interfaces:\n      - addresses: [10.0.0.11/24]\n", "w1-worker.yaml"),
+      parseTalosPatch("cluster:\n  allowSchedulingOnControlPlanes: true\n", "cluster.yaml"),
+      parseTalosPatch("machine:\n  network:\n    hostname: ghost\n", "ghost.yaml"),
+    ]);
+
+    expect(nodes.map((n) => [n.name, n.ip, n.role, n.patches])).toEqual([
+      ["cp1", "10.0.0.1", "control-plane", ["cp1.yaml", "cp1-kubelet.yaml"]],
+      ["w1", "10.0.0.11", "worker", ["w1-worker.yaml"]],
+    ]);
+    expect(unattributed).toEqual([
+      { file: "cluster.yaml", reason: "no hostname or static address" },
+      { file: "ghost.yaml", reason: "hostname ghost has no static address in any patch" },
+    ]);
+  });
+});
+
+describe("roleFromFileName", () => {
+  test.each<[string, Node["role"] | undefined]>([
+    ["patches/cp-1.yaml", "control-plane"],
+    ["node1-controlplane.yaml", "control-plane"],
+    ["worker_2.yml", "worker"],
+    ["cpu-tuning.yaml", undefined],
+  ])("%s", (file, role) => {
+    expect(roleFromFileName(file)).toBe(role);
+  });
+});
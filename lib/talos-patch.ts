@@ -0,0 +1,311 @@
+import { isIP } from "node:net";
+import { basename } from "node:path";
+import { parseAllDocuments } from "yaml";
+import type { Node } from "./types.js";
+
+/**
+ * What a Talos machine-config patch file says about a node
+ */
+export interface PatchInfo {
+  file: string;
+  hostname?: string;
+  // Interface addresses as written (CIDR notation)
+  addresses: string[];
+  vips: string[];
+  // Interface names, or "deviceSelector {...}" for selected links
+  interfaces: string[];
+  // kubelet --root-dir, when the patch sets it
+  kubeletRootDir?: string;
+  // From machine.type; undefined when the patch doesn't set it
+  role?: Node["role"];
+  installDisk?: string;
+  labels: Record<string, string>;
+  // Taint key -> "value:effect"
+  taints: Record<string, string>;
+  // Strategic-merge config documents, with JSON6902 patches applied
+  configs: Record<string, unknown>[];
+  // Typed (apiVersion/kind) documents, e.g. HostnameConfig
+  documents: Record<string, unknown>[];
+  errors: string[];
+}
+
+/**
+ * A patch that couldn't be tied to one node
+ */
+export interface UnattributedPatch {
+  file: string;
+  reason: string;
+}
+
+type Obj = Record<string, unknown>;
+
+/**
+ * Parse a patch file: strategic-merge machine config, JSON6902 op lists and
+ * typed config documents, any number of each
+ */
+export function parseTalosPatch(content: string, file: string): PatchInfo {
+  const info: PatchInfo = {
+    file,
+    addresses: [],
+    vips: [],
+    interfaces: [],
+    labels: {},
+    taints: {},
+    configs: [],
+    documents: [],
+    errors: [],
+  };
+
+  for (const document of parseAllDocuments(content)) {
+    if (!("contents" in document)) continue;
+
+    if (document.errors.length > 0) {
+      info.errors.push(...document.errors.map((e) => e.message));
+      continue;
+    }
+
+    const doc = document.toJS();
+    if (doc === null || doc === undefined) continue;
+
+    if (Array.isArray(doc)) {
+      info.configs.push(applyJsonPatch(doc, info.errors));
+    } else if (typeof doc === "object" && typeof doc.kind === "string") {
+      info.documents.push(doc);
+    } else if (typeof doc === "object") {
+      info.configs.push(doc);
+    } else {
+      info.errors.push("Patch document is not a mapping or a JSON6902 op list");
+    }
+  }
+
+  for (const config of info.configs) extractMachineConfig(config, info);
+  for (const doc of info.documents) extractTypedDocument(doc, info);
+
+  return info;
+}
+
+/**
+ * Merge parsed patches into nodes. A patch belongs to a node through its
+ * hostname or its static addresses; patches with neither are unattributed.
+ */
+export function patchesToNodes(patches: PatchInfo[]): {
+  nodes: Node[];
+  unattributed: UnattributedPatch[];
+} {
+  const nodes: Node[] = [];
+  const unattributed: UnattributedPatch[] = [];
+  const hostnameOnly: PatchInfo[] = [];
+
+  for (const patch of patches) {
+    if (patch.errors.length > 0) {
+      unattributed.push({ file: patch.file, reason: `unparseable: ${patch.errors[0]}` });
+      continue;
+    }
+
+    const ip = nodeIp(patch);
+    if (!ip) {
+      if (patch.hostname) hostnameOnly.push(patch);
+      else unattributed.push({ file: patch.file, reason: "no hostname or static address" });
+      continue;
+    }
+
+    // Same hostname, or same address unless both name different hosts
+    const existing = nodes.find((n) =>
+      patch.hostname !== undefined && n.hostname !== undefined
+        ? n.hostname === patch.hostname
+        : n.ip === ip
+    );
+    if (existing) {
+      mergeInto(existing, patch);
+    } else {
+      nodes.push(newNode(patch, ip));
+    }
+  }
+
+  // Hostname-only patches extend a node another patch gave an address
+  for (const patch of hostnameOnly) {
+    const node = nodes.find((n) => n.hostname === patch.hostname);
+    if (node) {
+      mergeInto(node, patch);
+    } else {
+      unattributed.push({
+        file: patch.file,
+        reason: `hostname ${patch.hostname} has no static address in any patch`,
+      });
+    }
+  }
+
+  return { nodes, unattributed };
+}
+
+/**
+ * Role from the file name, for patches that don't set machine.type
+ * (Omni assigns roles through machine sets)
+ */
+export function roleFromFileName(file: string): Node["role"] | undefined {
+  const name = basename(file).replace(/\.ya?ml$/, "").toLowerCase();
+  if (/(^|[-_.])(cp|controlplane|control-plane)([-_.]|$)/.test(name)) return "control-plane";
+  if (/(^|[-_.])(worker|wk)([-_.]|$)/.test(name)) return "worker";
+  return undefined;
+}
+
+function newNode(patch: PatchInfo, ip: string): Node {
+  const node: Node = {
+    name: patch.hostname ?? nameFromFileName(patch.file),
+    ip,
+    role: "worker",
+    hostname: patch.hostname,
+    addresses: [],
+    vips: [],
+    labels: {},
+    taints: {},
+    patches: [],
+  };
+
+  mergeInto(node, patch);
+  return node;
+}
+
+function mergeInto(node: Node, patch: PatchInfo): void {
+  node.hostname ??= patch.hostname;
+  if (patch.hostname) node.name = patch.hostname;
+
+  node.addresses.push(...patch.addresses.filter((a) => !node.addresses.includes(a)));
+  node.vips.push(...patch.vips.filter((v) => !node.vips.includes(v)));
+  node.installDisk ??= patch.installDisk;
+  node.kubeletRootDir ??= patch.kubeletRootDir;
+  Object.assign(node.labels, patch.labels);
+  Object.assign(node.taints, patch.taints);
+  node.patches.push(patch.file);
+
+  // machine.type wins; a VIP or the file name only hint at control-plane
+  if (patch.role) {
+    node.role = patch.role;
+  } else if (patch.vips.length > 0 || roleFromFileName(patch.file) === "control-plane") {
+    node.role = "control-plane";
+  }
+}
+
+function nodeIp(patch: PatchInfo): string | undefined {
+  return patch.addresses
+    .map((a) => a.split("/")[0])
+    .find((ip) => isIP(ip) !== 0 && !patch.vips.includes(ip));
+}
+
+function nameFromFileName(file: string): string {
+  return basename(file)
+    .replace(/\.ya?ml$/, "")
+    .replace(/[-_.](cp|controlplane|control-plane|worker|wk)$/i, "");
+}
+
+function extractMachineConfig(config: Obj, info: PatchInfo): void {
+  const machine = asObj(config.machine);
+  const network = asObj(machine.network);
+
+  if (typeof network.hostname === "string") info.hostname = network.hostname;
+
+  if (machine.type === "controlplane" || machine.type === "init") info.role = "control-plane";
+  else if (machine.type === "worker") info.role = "worker";
+
+  for (const iface of asList(network.interfaces)) {
+    info.interfaces.push(interfaceName(iface));
+
+    for (const link of [iface, ...asList(iface.vlans)]) {
+      if (Array.isArray(link.addresses)) info.addresses.push(...link.addresses.map(String));
+      const vip = asObj(link.vip).ip;
+      if (typeof vip === "string") info.vips.push(vip);
+    }
+  }
+
+  const install = asObj(machine.install);
+  if (typeof install.disk === "string") {
+    info.installDisk = install.disk;
+  } else if (install.diskSelector && typeof install.diskSelector === "object") {
+    info.installDisk = Object.entries(install.diskSelector)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(",");
+  }
+
+  const rootDir = asObj(asObj(machine.kubelet).extraArgs)["root-dir"];
+  if (typeof rootDir === "string") info.kubeletRootDir = rootDir;
+
+  for (const [key, value] of Object.entries(asObj(machine.nodeLabels))) {
+    info.labels[key] = String(value);
+  }
+  for (const [key, value] of Object.entries(asObj(machine.nodeTaints))) {
+    info.taints[key] = String(value);
+  }
+}
+
+function interfaceName(iface: Obj): string {
+  if (typeof iface.interface === "string") return iface.interface;
+  return `deviceSelector ${JSON.stringify(iface.deviceSelector ?? {})}`;
+}
+
+function extractTypedDocument(doc: Obj, info: PatchInfo): void {
+  switch (doc.kind) {
+    case "HostnameConfig":
+      if (typeof doc.hostname === "string") info.hostname = doc.hostname;
+      break;
+    case "LinkConfig":
+    case "BondConfig":
+    case "VLANConfig":
+      if (typeof doc.name === "string") info.interfaces.push(doc.name);
+      for (const address of asList(doc.addresses)) {
+        if (typeof address.address === "string") info.addresses.push(address.address);
+      }
+      break;
+    case "Layer2VIPConfig":
+      if (typeof doc.name === "string") info.vips.push(doc.name);
+      break;
+  }
+}
+
+/**
+ * Apply JSON6902 add/replace ops to an empty config, which is enough to see
+ * what the patch sets
+ */
+function applyJsonPatch(ops: unknown[], errors: string[]): Obj {
+  const root: Obj = {};
+
+  for (const op of ops) {
+    const { op: kind, path, value } = asObj(op);
+    if (typeof path !== "string" || !path.startsWith("/")) {
+      errors.push(`JSON6902 op without a valid path: ${JSON.stringify(op)}`);
+      continue;
+    }
+    if (kind !== "add" && kind !== "replace") continue;
+
+    const segments = path
+      .slice(1)
+      .split("/")
+      .map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+    let current: Obj | unknown[] = root;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const last = i === segments.length - 1;
+      const nextIsIndex = !last && /^(\d+|-)$/.test(segments[i + 1]);
+
+      if (Array.isArray(current)) {
+        const index = segment === "-" ? current.length : Number(segment);
+        if (last) current[index] = value;
+        else current = (current[index] ??= nextIsIndex ? [] : {}) as Obj | unknown[];
+      } else if (last) {
+        current[segment] = value;
+      } else {
+        current = (current[segment] ??= nextIsIndex ? [] : {}) as Obj | unknown[];
+      }
+    }
+  }
+
+  return root;
+}
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Obj) : {};
+}
+
+function asList(value: unknown): Obj[] {
+  return Array.isArray(value) ? value.map(asObj) : [];
+}
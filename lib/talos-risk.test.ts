@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { extractInvocations } from "./shell-parser.js";
+import { assessNodeOperation, dryRunKey, isConfigDryRun } from "./talos-risk.js";
+import type { ClusterContext, Node } from "./types.js";
+
+function node(name: string, ip: string, role: Node["role"]): Node {
+  return { name, ip, role, addresses: [`${ip}/24`], vips: [], labels: {}, taints: {}, patches: [] };
+}
+
+const nodes: Node[] = [
+  node("cp1", "10.0.0.1", "control-plane"),
+  node("cp2", "10.0.0.2", "control-plane"),
+  node("w1", "10.0.0.11", "worker"),
+];
+
+function context(clusterNodes: Node[] = nodes): ClusterContext {
+  return { name: "prod", nodes: clusterNodes, apps: new Map(), repoRoot: "/repo", clusters: new Map() };
+}
+
+function assess(command: string, ctx: ClusterContext | null = context(), dryRuns: string[] = []) {
+  return assessNodeOperation(extractInvocations(command)[0], ctx, dryRuns);
+}
+
+describe("destructive talosctl operations", () => {
+  test("ask with the affected nodes", () => {
+    expect(assess("talosctl -n 10.0.0.11 reboot")).toEqual({
+      action: "ask",
+      reason: "talosctl reboot reboots the node. Affects: w1 (10.0.0.11, worker). Proceed?",
+    });
+    expect(assess("talosctl reset --nodes cp1,10.0.0.99")?.reason).toContain(
+      "Affects: cp1 (10.0.0.1, control-plane), 10.0.0.99 (unknown node)."
+    );
+    expect(assess("talosctl upgrade")?.reason).toContain(
+      "Affects: the default nodes of the current talosconfig context."
+    );
+  });
+
+  test("deny targeting every control-plane node at once", () => {
+    const assessment = assess("talosctl upgrade -n 10.0.0.1,10.0.0.2 --image ghcr.io/siderolabs/installer:v1.10.3");
+    expect(assessment?.action).toBe("deny");
+    expect(assessment?.reason).toContain("Run it one node at a time.");
+  });
+
+  test("deny taking down the only control-plane node", () => {
+    const single = context([nodes[0], nodes[2]]);
+    expect(assess("talosctl -n cp1 reboot", single)).toEqual({
+      action: "deny",
+      reason:
+        "talosctl reboot targets the only control-plane node (cp1 (10.0.0.1, control-plane)); " +
+        "the cluster API would be unavailable. Run it yourself if this is really intended.",
+    });
+    expect(assess("talosctl -n w1 reboot", single)?.action).toBe("ask");
+  });
+
+  test("etcd remove-member targets the member, not the node running it", () => {
+    expect(assess("talosctl -n cp1 etcd remove-member cp2")?.reason).toBe(
+      "talosctl etcd remove-member removes an etcd member. Affects: cp2 (10.0.0.2, control-plane). Proceed?"
+    );
+    const single = context([nodes[0], nodes[2]]);
+    expect(assess("talosctl -n w1 etcd remove-member cp1", single)?.action).toBe("deny");
+  });
+
+  test("upgrade-k8s may target every control-plane node", () => {
+    expect(assess("talosctl upgrade-k8s -n 10.0.0.1,10.0.0.2")?.action).toBe("ask");
+  });
+
+  test("resolve nodes by hostname, interface address and machine ID", () => {
+    const named = context([
+      { ...nodes[0], hostname: "cp1.lan", machine: "A1B2-C3", addresses: ["10.0.0.1/24", "192.168.1.1/24"] },
+      nodes[1],
+      nodes[2],
+    ]);
+
+    for (const target of ["CP1.lan", "192.168.1.1", "a1b2-c3"]) {
+      expect(assess(`talosctl -n ${target} reboot`, named)?.reason).toContain(
+        "Affects: cp1 (10.0.0.1, control-plane)."
+      );
+    }
+  });
+
+  test("read-only commands are not risky", () => {
+    expect(assess("talosctl -n 10.0.0.1 get members")).toBeNull();
+    expect(assess("kubectl delete ns x")).toBeNull();
+  });
+});
+
+describe("omnictl deletes", () => {
+  test("deny deleting the cluster", () => {
+    expect(assess("omnictl cluster delete prod")?.action).toBe("deny");
+    expect(assess("omnictl cluster delete prod", null)?.action).toBe("deny");
+    expect(assess("omnictl cluster delete staging")?.action).toBe("ask");
+  });
+
+  test("deny deleting the cluster as a resource", () => {
+    expect(assess("omnictl delete cluster prod")?.reason).toStartWith(
+      "omnictl delete cluster prod destroys every node of the cluster"
+    );
+    expect(assess("omnictl delete clusters.omni.sidero.dev prod")?.action).toBe("deny");
+    expect(assess("omnictl delete clusters --all")?.action).toBe("deny");
+    expect(assess("omnictl delete cluster staging")?.action).toBe("ask");
+  });
+
+  test("ask before deleting resources", () => {
+    expect(assess("omnictl delete machinesetnode cp1")?.reason).toBe(
+      "omnictl delete removes machinesetnode cp1. Affects: cp1 (10.0.0.1, control-plane). Proceed?"
+    );
+  });
+});
+
+describe("config changes", () => {
+  test("ask without a matching dry-run", () => {
+    expect(assess("talosctl -n 10.0.0.11 patch mc --patch @w1.yaml")?.reason).toStartWith(
+      "No 'talosctl patch --dry-run' for this change in this session on w1 (10.0.0.11, worker)."
+    );
+  });
+
+  test("pass once the same change was dry-run", () => {
+    const dryRun = extractInvocations("talosctl patch mc --patch @w1.yaml -n 10.0.0.11 --dry-run")[0];
+    expect(isConfigDryRun(dryRun)).toBe(true);
+    expect(assess(`talosctl -n 10.0.0.11 patch mc --patch @w1.yaml`, context(), [dryRunKey(dryRun)])).toBeNull();
+    expect(assess(`talosctl -n 10.0.0.1 patch mc --patch @w1.yaml`, context(), [dryRunKey(dryRun)])?.action).toBe(
+      "ask"
+    );
+  });
+
+  test("omnictl template sync uses -d for dry-run", () => {
+    expect(isConfigDryRun(extractInvocations("omnictl cluster template sync -f cluster.yaml -d")[0])).toBe(true);
+    expect(isConfigDryRun(extractInvocations("omnictl cluster template sync -f cluster.yaml")[0])).toBe(false);
+  });
+
+  test("dry-run keys ignore node flag spelling and order", () => {
+    const key = (command: string) => dryRunKey(extractInvocations(command)[0]);
+
+    expect(key("talosctl patch mc -n 10.0.0.2,10.0.0.1 --patch @cp.yaml --dry-run")).toBe(
+      key("talosctl --nodes 10.0.0.1,10.0.0.2 patch mc --patch @cp.yaml")
+    );
+  });
+});
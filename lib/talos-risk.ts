@@ -0,0 +1,246 @@
+import { flagValue, hasFlag, parseCliArgs, type CliArgs } from "./cli-args.js";
+import type { Invocation } from "./shell-parser.js";
+import type { ClusterContext, Node, PolicyAction } from "./types.js";
+
+export interface RiskAssessment {
+  action: PolicyAction;
+  reason: string;
+}
+
+interface DestructiveOp {
+  description: string;
+  // Deny when every control-plane node is targeted at once
+  denyAllControlPlane: boolean;
+}
+
+// talosctl subcommands that take nodes down or destroy state
+const DESTRUCTIVE_TALOSCTL: Record<string, DestructiveOp> = {
+  reset: { description: "wipes the node and removes it from the cluster", denyAllControlPlane: true },
+  upgrade: { description: "upgrades Talos and reboots the node", denyAllControlPlane: true },
+  reboot: { description: "reboots the node", denyAllControlPlane: true },
+  shutdown: { description: "shuts the node down", denyAllControlPlane: true },
+  rollback: { description: "rolls Talos back and reboots the node", denyAllControlPlane: true },
+  "etcd remove-member": { description: "removes an etcd member", denyAllControlPlane: true },
+  "etcd leave": { description: "removes the node from etcd", denyAllControlPlane: true },
+  "wipe disk": { description: "wipes disks on the node", denyAllControlPlane: true },
+  "upgrade-k8s": { description: "upgrades Kubernetes across the cluster", denyAllControlPlane: false },
+};
+
+// Short forms of the node-targeting flags, and the flags themselves
+const FLAG_ALIASES: Record<string, string> = { "-n": "--nodes", "-e": "--endpoints" };
+const NODE_FLAGS = ["--nodes", "--endpoints"];
+
+// Subcommands that change machine config and support --dry-run
+const CONFIG_CHANGING: Record<string, string[]> = {
+  talosctl: ["apply-config", "apply", "patch", "edit"],
+  omnictl: ["apply", "cluster template sync"],
+};
+
+/**
+ * Assess a talosctl/omnictl invocation; null when it's not risky
+ */
+export function assessNodeOperation(
+  invocation: Invocation,
+  context: ClusterContext | null,
+  configDryRuns: string[]
+): RiskAssessment | null {
+  if (invocation.program !== "talosctl" && invocation.program !== "omnictl") {
+    return null;
+  }
+
+  const args = parseCliArgs(invocation);
+  const subcommand = args.subcommand.join(" ");
+  const nodes = context?.nodes ?? [];
+
+  // Config changes: must be dry-run first
+  if (CONFIG_CHANGING[invocation.program]?.some((s) => subcommand.startsWith(s))) {
+    if (isDryRun(args)) return null;
+
+    if (!configDryRuns.includes(dryRunKey(invocation))) {
+      const targets = invocation.program === "talosctl" ? ` on ${describeTargets(args, nodes)}` : "";
+      return {
+        action: "ask",
+        reason:
+          `No '${invocation.program} ${subcommand} --dry-run' for this change in this session${targets}. ` +
+          "Run with --dry-run first or proceed anyway?",
+      };
+    }
+    return null;
+  }
+
+  if (invocation.program === "talosctl") {
+    const op = DESTRUCTIVE_TALOSCTL[subcommand] ?? DESTRUCTIVE_TALOSCTL[args.subcommand[0]];
+    if (!op) return null;
+
+    // etcd remove-member names the member to remove; --nodes only picks the node that runs it
+    const targets = subcommand === "etcd remove-member" ? args.positionals : nodeArgs(args);
+    const { resolved, unresolved } = resolveNodes(targets, nodes);
+    const controlPlane = nodes.filter((n) => n.role === "control-plane");
+    const targetedControlPlane = resolved.filter((n) => n.role === "control-plane");
+
+    if (
+      op.denyAllControlPlane &&
+      controlPlane.length > 0 &&
+      targetedControlPlane.length === controlPlane.length
+    ) {
+      return {
+        action: "deny",
+        reason:
+          controlPlane.length === 1
+            ? `talosctl ${subcommand} targets the only control-plane node (${formatNode(controlPlane[0])}); ` +
+              "the cluster API would be unavailable. Run it yourself if this is really intended."
+            : `talosctl ${subcommand} targets every control-plane node at once ` +
+              `(${controlPlane.map(formatNode).join(", ")}). Run it one node at a time.`,
+      };
+    }
+
+    const onlyControlPlane =
+      controlPlane.length === 1 && targetedControlPlane.length === 1
+        ? " This is the only control-plane node: the cluster API will be unavailable."
+        : "";
+
+    return {
+      action: "ask",
+      reason:
+        `talosctl ${subcommand} ${op.description}. ` +
+        `Affects: ${describeNodes(resolved, unresolved, args)}.${onlyControlPlane} Proceed?`,
+    };
+  }
+
+  // omnictl delete <type> <id...> / omnictl cluster delete <name>
+  if (subcommand === "delete" || subcommand === "cluster delete") {
+    const ids = subcommand === "cluster delete" ? args.positionals : args.positionals.slice(1);
+    // omnictl delete cluster <name> is the same as cluster delete
+    const clusterDelete =
+      subcommand === "cluster delete" ||
+      /^clusters?(\.omni\.sidero\.dev)?$/i.test(args.positionals[0] ?? "");
+    // Without names (--all, a selector) any cluster may be hit
+    const deletesThisCluster = ids.length === 0 || !context || ids.includes(context.name);
+
+    if (clusterDelete && deletesThisCluster) {
+      return {
+        action: "deny",
+        reason:
+          `omnictl ${[subcommand, ...args.positionals].join(" ")} destroys every node of the cluster` +
+          (nodes.length > 0 ? ` (${nodes.map(formatNode).join(", ")})` : "") +
+          ". Delete clusters from the Omni UI if this is really intended.",
+      };
+    }
+
+    const { resolved, unresolved } = resolveNodes(ids, nodes);
+    const what = clusterDelete ? "cluster" : args.positionals[0] || "resource";
+
+    return {
+      action: "ask",
+      reason:
+        `omnictl ${subcommand} removes ${what} ${ids.join(", ") || "(selector)"}. ` +
+        (resolved.length > 0 || unresolved.length > 0
+          ? `Affects: ${describeNodes(resolved, unresolved, args)}. `
+          : "") +
+        "Proceed?",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Key identifying a config change independent of --dry-run, so a dry-run
+ * can be matched with the real run
+ */
+export function dryRunKey(invocation: Invocation): string {
+  const args = parseCliArgs(invocation);
+  const flags = [...args.flags.entries()]
+    .filter(([name]) => name !== "--dry-run" && name !== "-d")
+    .map(([flag, value]) => {
+      const name = FLAG_ALIASES[flag] ?? flag;
+      if (value === true) return name;
+      // -n a,b and --nodes b,a target the same nodes
+      const normalized = NODE_FLAGS.includes(name)
+        ? value.split(",").map((n) => n.trim()).sort().join(",")
+        : value;
+      return `${name}=${normalized}`;
+    })
+    .sort();
+
+  return [invocation.program, ...args.subcommand, ...flags, ...args.positionals].join(" ");
+}
+
+/**
+ * Check if an invocation is a config dry-run
+ */
+export function isConfigDryRun(invocation: Invocation): boolean {
+  const args = parseCliArgs(invocation);
+  const subcommand = args.subcommand.join(" ");
+
+  return (
+    !!CONFIG_CHANGING[invocation.program]?.some((s) => subcommand.startsWith(s)) &&
+    isDryRun(args)
+  );
+}
+
+function isDryRun(args: CliArgs): boolean {
+  if (hasFlag(args, "--dry-run")) return true;
+
+  // omnictl cluster template sync uses -d for --dry-run
+  return args.subcommand.join(" ") === "cluster template sync" && hasFlag(args, "-d");
+}
+
+/**
+ * Node targets from --nodes, falling back to --endpoints
+ */
+function nodeArgs(args: CliArgs): string[] {
+  const value = flagValue(args, "-n", "--nodes") ?? flagValue(args, "-e", "--endpoints");
+  return value ? value.split(",").map((n) => n.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Match targets against every way a node can be named: name, IP, hostname,
+ * interface addresses and Omni machine ID
+ */
+function resolveNodes(targets: string[], nodes: Node[]): { resolved: Node[]; unresolved: string[] } {
+  const resolved: Node[] = [];
+  const unresolved: string[] = [];
+
+  for (const target of targets) {
+    const wanted = target.toLowerCase();
+    const node = nodes.find((n) => nodeIdentifiers(n).includes(wanted));
+    if (node) {
+      if (!resolved.includes(node)) resolved.push(node);
+    } else {
+      unresolved.push(target);
+    }
+  }
+
+  return { resolved, unresolved };
+}
+
+function nodeIdentifiers(node: Node): string[] {
+  return [
+    node.name,
+    node.ip,
+    node.hostname,
+    node.machine,
+    ...node.addresses.map((a) => a.replace(/\/\d+$/, "")),
+  ]
+    .filter((id): id is string => !!id)
+    .map((id) => id.toLowerCase());
+}
+
+function describeTargets(args: CliArgs, nodes: Node[]): string {
+  const { resolved, unresolved } = resolveNodes(nodeArgs(args), nodes);
+  return describeNodes(resolved, unresolved, args);
+}
+
+function describeNodes(resolved: Node[], unresolved: string[], args: CliArgs): string {
+  const parts = [...resolved.map(formatNode), ...unresolved.map((t) => `${t} (unknown node)`)];
+  if (parts.length > 0) return parts.join(", ");
+
+  return hasFlag(args, "-n", "--nodes", "-e", "--endpoints")
+    ? "(no nodes)"
+    : "the default nodes of the current talosconfig context";
+}
+
+function formatNode(node: Node): string {
+  return `${node.name} (${node.ip}, ${node.role})`;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { formatPath, loadTalosSchema, validateAgainstSchema, type JsonSchema } from "./talos-schema.js";
+
+const schema: JsonSchema = {
+  $defs: {
+    Install: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        disk: { type: "string" },
+        bootloader: { type: "boolean", deprecated: true, description: "Deprecated: always enabled." },
+      },
+    },
+  },
+  type: "object",
+  properties: {
+    machine: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        type: { type: "string", enum: ["controlplane", "worker"] },
+        install: { $ref: "#/$defs/Install" },
+        certSANs: { type: "array", items: { type: "string" } },
+        nodeLabels: { type: "object", additionalProperties: { type: "string" } },
+      },
+    },
+  },
+};
+
+describe("validateAgainstSchema", () => {
+  test("accepts a valid document", () => {
+    const doc = { machine: { type: "worker", install: { disk: "/dev/sda" }, certSANs: ["a"] } };
+    expect(validateAgainstSchema(doc, schema)).toEqual([]);
+  });
+
+  test("reports unknown keys with a suggestion, types, enums and deprecations", () => {
+    const doc = {
+      machine: {
+        type: "master",
+        instal: {},
+        install: { bootloader: true },
+        certSANs: ["a", 1],
+        nodeLabels: { zone: 1 },
+      },
+    };
+
+    expect(validateAgainstSchema(doc, schema)).toEqual([
+      {
+        path: ["machine", "type"],
+        kind: "enum",
+        message: "machine.type must be one of controlplane, worker, got master",
+      },
+      {
+        path: ["machine", "instal"],
+        kind: "unknown",
+        message: "Unknown field machine.instal",
+        fix: "Did you mean install?",
+      },
+      {
+        path: ["machine", "install", "bootloader"],
+        kind: "deprecated",
+        message: "machine.install.bootloader is deprecated",
+        fix: "always enabled.",
+      },
+      { path: ["machine", "certSANs", 1], kind: "type", message: "machine.certSANs[1] must be string, got integer" },
+      { path: ["machine", "nodeLabels", "zone"], kind: "type", message: "machine.nodeLabels.zone must be string, got integer" },
+    ]);
+  });
+});
+
+describe("formatPath", () => {
+  test("joins keys with dots and indexes with brackets", () => {
+    expect(formatPath(["machine", "network", "interfaces", 0, "addresses"])).toBe(
+      "machine.network.interfaces[0].addresses"
+    );
+  });
+});
+
+describe("loadTalosSchema", () => {
+  test("loads the vendored schema for a version's minor", async () => {
+    const loaded = await loadTalosSchema("v1.10.3");
+    expect(loaded).toMatchObject({ version: "1.10", exact: true });
+    expect(loaded?.schema.$defs?.["v1alpha1.Config"]?.properties?.machine).toBeDefined();
+  });
+
+  test("falls back to the nearest vendored schema", async () => {
+    expect(await loadTalosSchema("1.99")).toMatchObject({ version: "1.10", exact: false });
+    expect(await loadTalosSchema("latest")).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * The subset of JSON Schema the vendored Talos schemas use
+ */
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  deprecated?: boolean;
+  description?: string;
+}
+
+export interface SchemaIssue {
+  path: Array<string | number>;
+  kind: "unknown" | "type" | "enum" | "deprecated";
+  message: string;
+  fix?: string;
+}
+
+export interface LoadedSchema {
+  schema: JsonSchema;
+  // Version of the schema file used, e.g. "1.10"
+  version: string;
+  // False when there's no schema for the requested minor and a nearby one is used
+  exact: boolean;
+}
+
+// Vendored schemas: schemas/talos/v<major>.<minor>.json
+const SCHEMA_DIR = fileURLToPath(new URL("../schemas/talos/", import.meta.url));
+
+const loaded = new Map<string, JsonSchema>();
+
+/**
+ * Load the machine-config schema for a Talos version: the same minor, else
+ * the newest older one, else the oldest newer one
+ */
+export async function loadTalosSchema(version: string): Promise<LoadedSchema | null> {
+  const wanted = minorOf(version);
+  if (!wanted) return null;
+
+  let available: Array<[number, number]>;
+  try {
+    available = (await readdir(SCHEMA_DIR))
+      .map((f) => f.match(/^v(\d+)\.(\d+)\.json$/))
+      .filter((m): m is RegExpMatchArray => m !== null)
+      .map((m): [number, number] => [Number(m[1]), Number(m[2])])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  } catch {
+    return null;
+  }
+  if (available.length === 0) return null;
+
+  const cmp = (a: [number, number]) => a[0] - wanted[0] || a[1] - wanted[1];
+  const picked =
+    available.find((a) => cmp(a) === 0) ??
+    available.filter((a) => cmp(a) < 0).pop() ??
+    available[0];
+
+  const key = `${picked[0]}.${picked[1]}`;
+  let schema = loaded.get(key);
+  if (!schema) {
+    schema = JSON.parse(await readFile(join(SCHEMA_DIR, `v${key}.json`), "utf-8")) as JsonSchema;
+    loaded.set(key, schema);
+  }
+
+  return { schema, version: key, exact: cmp(picked) === 0 };
+}
+
+/**
+ * Validate a machine-config document: unknown keys, wrong types, enums, deprecations
+ */
+export function validateAgainstSchema(doc: unknown, root: JsonSchema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  walk(doc, root, root, [], issues);
+  return issues;
+}
+
+/**
+ * Dotted path for messages: machine.network.interfaces[0].addresses
+ */
+export function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, i) => {
+      if (typeof segment === "number") return `[${segment}]`;
+      return i === 0 ? segment : `.${segment}`;
+    })
+    .join("");
+}
+
+function walk(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: Array<string | number>,
+  issues: SchemaIssue[]
+): void {
+  schema = resolveRef(schema, root);
+  const at = formatPath(path);
+
+  if (schema.deprecated) {
+    issues.push({
+      path,
+      kind: "deprecated",
+      message: `${at} is deprecated`,
+      fix: schema.description?.replace(/^Deprecated:\s*/, ""),
+    });
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = types.some((t) => t === actual || (t === "number" && actual === "integer"));
+
+    if (!matches) {
+      issues.push({
+        path,
+        kind: "type",
+        message: `${at} must be ${types.join(" or ")}, got ${actual}`,
+      });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      kind: "enum",
+      message: `${at} must be one of ${schema.enum.join(", ")}, got ${String(value)}`,
+    });
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => walk(item, schema.items!, root, [...path, i], issues));
+    }
+    return;
+  }
+
+  if (value === null || typeof value !== "object") return;
+
+  for (const [key, child] of Object.entries(value)) {
+    const property = schema.properties?.[key];
+
+    if (property) {
+      walk(child, property, root, [...path, key], issues);
+    } else if (schema.additionalProperties === false && schema.properties) {
+      const suggestion = closest(key, Object.keys(schema.properties));
+      issues.push({
+        path: [...path, key],
+        kind: "unknown",
+        message: `Unknown field ${formatPath([...path, key])}`,
+        fix: suggestion ? `Did you mean ${suggestion}?` : undefined,
+      });
+    } else if (typeof schema.additionalProperties === "object") {
+      walk(child, schema.additionalProperties, root, [...path, key], issues);
+    }
+  }
+}
+
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  while (schema.$ref) {
+    const name = schema.$ref.replace(/^#\/\$defs\//, "");
+    const target = root.$defs?.[name];
+    if (!target) break;
+    schema = target;
+  }
+  return schema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function minorOf(version: string): [number, number] | null {
+  const match = version.match(/^v?(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+/**
+ * Closest known key within a small edit distance (typos, singular/plural)
+ */
+function closest(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(key.length / 4)) + 1;
+
+  for (const candidate of candidates) {
+    const d = distance(key.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+
+  return best;
+}
+
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+
+  return row[b.length];
+}
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkKubeletRootDirValues, isTalosPatchFile, validateTalosPatch } from "./talos-validator.js";
+import type { ClusterContext, Node } from "./types.js";
+
+// Fixture cluster: two control-plane patches sharing a VIP
+let repo: string;
+let patches: string;
+
+const controlPlane = (address: string, vip: string) => `machine:
+  type: controlplane
+  network:
+    interfaces:
+      - interface: eth0
+        addresses: [${address}/24]
+        vip:
+          ip: ${vip}
+`;
+
+beforeAll(async () => {
+  repo = await mkdtemp(join(tmpdir(), "talos-validator-test-"));
+  patches = join(repo, "clusters", "prod", "patches");
+  await mkdir(patches, { recursive: true });
+  await writeFile(join(patches, "cp1.yaml"), controlPlane("10.0.0.1", "10.0.0.100"));
+  await writeFile(join(patches, "cp2.yaml"), controlPlane("10.0.0.2", "10.0.0.100"));
+});
+
+afterAll(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+const messages = async (file: string, content: string) =>
+  (await validateTalosPatch(content, join(patches, file), "1.10")).map((e) => `${e.severity}: ${e.message}`);
+
+describe("validateTalosPatch", () => {
+  test("accepts a patch consistent with its siblings", async () => {
+    expect(await messages("cp3.yaml", controlPlane("10.0.0.3", "10.0.0.100"))).toEqual([]);
+  });
+
+  test("checks the machine-config schema, with lines", async () => {
+    const errors = await validateTalosPatch("machine:\n  netwrok: {}\n", join(patches, "x.yaml"), "1.10");
+    expect(errors).toEqual([
+      expect.objectContaining({ line: 2, message: "Unknown field machine.netwrok", fix: "Did you mean network?" }),
+    ]);
+  });
+
+  test("only rejects values outside an enum; other schema findings are warnings", async () => {
+    const content = "machine:\n  type: master\n  netwrok: {}\n  install: { wipe: yes }\n";
+    const errors = await validateTalosPatch(content, join(patches, "x.yaml"), "1.10");
+
+    expect(errors.map((e) => e.severity)).toEqual(["error", "warning", "warning"]);
+    expect(errors[0].message).toBe("machine.type must be one of init, controlplane, worker, got master");
+  });
+
+  test("finds address, VIP and interface conflicts", async () => {
+    expect(await messages("cp3.yaml", controlPlane("10.0.0.3/24, 10.0.0.2", "10.0.0.200"))).toEqual([
+      "error: Address 10.0.0.2 is also assigned to node cp2",
+      "error: Conflicting VIPs: 10.0.0.200 here, 10.0.0.100 on cp1",
+      "error: Conflicting VIPs: 10.0.0.200 here, 10.0.0.100 on cp2",
+    ]);
+
+    const twice = `machine:
+  network:
+    interfaces:
+      - { interface: eth0, addresses: [10.0.0.21/24] }
+      - { interface: eth0, dhcp: true }
+`;
+    expect(await messages("w1.yaml", twice)).toEqual(["error: Interface eth0 is defined more than once"]);
+  });
+
+  test("checks kubelet mounts and root-dir", async () => {
+    const kubelet = `machine:
+  kubelet:
+    extraArgs:
+      root-dir: /var/mnt/kubelet
+    extraMounts:
+      - { source: /var/mnt/data, destination: /data, type: bind, options: [bind, rw] }
+`;
+    expect(await messages("kubelet.yaml", kubelet)).toEqual([
+      "warning: kubelet extraMount /var/mnt/data -> /data: hostPath volumes resolve against the source, the kubelet sees the destination",
+      "warning: kubelet extraMount /data without rshared: mounts made by CSI drivers won't propagate",
+      "error: kubelet root-dir /var/mnt/kubelet is not in machine.kubelet.extraMounts",
+    ]);
+  });
+
+  test("reports unparseable patches", async () => {
+    expect(await messages("bad.yaml", "machine: [")).toEqual([
+      expect.stringMatching(/^error: Invalid Talos patch: /),
+    ]);
+  });
+});
+
+describe("checkKubeletRootDirValues", () => {
+  const node = (kubeletRootDir?: string): Node => ({
+    name: "n",
+    ip: "10.0.0.1",
+    role: "worker",
+    addresses: [],
+    vips: [],
+    labels: {},
+    taints: {},
+    patches: [],
+    kubeletRootDir,
+  });
+  const cluster = (nodes: Node[]): ClusterContext => ({
+    name: "prod",
+    nodes,
+    apps: new Map(),
+    repoRoot: "/repo",
+    clusters: new Map(),
+  });
+
+  test("flags CSI values that disagree with the cluster's kubelet", () => {
+    const errors = checkKubeletRootDirValues(
+      { csi: { kubeletRootDir: "/var/lib/kubelet" } },
+      "values.yaml",
+      cluster([node("/var/mnt/kubelet")])
+    );
+    expect(errors.map((e) => e.fix)).toEqual(["Set csi.kubeletRootDir: /var/mnt/kubelet"]);
+  });
+
+  test("stays quiet when values match or nodes disagree", () => {
+    expect(checkKubeletRootDirValues({ kubeletDir: "/var/lib/kubelet/" }, "v.yaml", cluster([node()]))).toEqual([]);
+    expect(
+      checkKubeletRootDirValues({ kubeletDir: "/x" }, "v.yaml", cluster([node(), node("/var/mnt/kubelet")]))
+    ).toEqual([]);
+  });
+});
+
+test("isTalosPatchFile", () => {
+  expect(isTalosPatchFile("/repo/clusters/prod/patches/cp1.yaml")).toBe(true);
+  expect(isTalosPatchFile("/repo/clusters/prod/apps/web/values.yaml")).toBe(false);
+});
@@ -0,0 +1,348 @@
+import { readdir, readFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { isMap, isNode, isScalar, LineCounter, parseAllDocuments } from "yaml";
+import { parseTalosPatch, patchesToNodes, type PatchInfo } from "./talos-patch.js";
+import { formatPath, loadTalosSchema, validateAgainstSchema } from "./talos-schema.js";
+import type { ClusterContext, Node, ValidationError } from "./types.js";
+
+export const DEFAULT_KUBELET_ROOT_DIR = "/var/lib/kubelet";
+
+// Values keys CSI charts use for the kubelet root dir (Longhorn, OpenEBS, democratic-csi, ...)
+const KUBELET_DIR_VALUES = ["kubeletRootDir", "kubeletDir", "kubeletPath"];
+
+/**
+ * Check if a file is a Talos machine-config patch (clusters/<name>/patches/*.yaml)
+ */
+export function isTalosPatchFile(filePath: string): boolean {
+  return /(^|\/)clusters\/[^/]+\/patches\/[^/]+\.ya?ml$/.test(filePath);
+}
+
+/**
+ * Validate a Talos patch: machine-config schema for the repo's Talos version,
+ * kubelet mounts, and interfaces/addresses/VIPs against the cluster's other patches
+ */
+export async function validateTalosPatch(
+  content: string,
+  filePath: string,
+  talosVersion: string
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const patch = parseTalosPatch(content, filePath);
+
+  for (const message of patch.errors) {
+    errors.push({ file: filePath, severity: "error", message: `Invalid Talos patch: ${message}` });
+  }
+  if (patch.errors.length > 0) return errors;
+
+  errors.push(...(await checkSchema(patch, content, talosVersion)));
+  errors.push(...checkKubeletMounts(patch));
+  errors.push(...(await checkAgainstSiblings(patch)));
+
+  return errors;
+}
+
+/**
+ * Values keys setting the kubelet root dir must match the cluster's kubelet
+ */
+export function checkKubeletRootDirValues(
+  values: unknown,
+  filePath: string,
+  cluster: ClusterContext
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const rootDirs = new Set(
+    cluster.nodes.map((n) => n.kubeletRootDir ?? DEFAULT_KUBELET_ROOT_DIR)
+  );
+
+  // Nodes disagree among themselves: no single value to compare against
+  if (rootDirs.size !== 1) return errors;
+  const [rootDir] = rootDirs;
+
+  visitKeys(values, [], (path, value) => {
+    const key = path[path.length - 1];
+    if (typeof key !== "string" || !KUBELET_DIR_VALUES.includes(key)) return;
+    if (typeof value !== "string" || trimSlash(value) === trimSlash(rootDir)) return;
+
+    errors.push({
+      file: filePath,
+      severity: "error",
+      message:
+        `${formatPath(path)} is ${value} ` +
+        `but the kubelet root dir on ${cluster.name} is ${rootDir}`,
+      fix: `Set ${formatPath(path)}: ${rootDir}`,
+    });
+  });
+
+  return errors;
+}
+
+async function checkSchema(
+  patch: PatchInfo,
+  content: string,
+  talosVersion: string
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const loaded = await loadTalosSchema(talosVersion);
+
+  if (!loaded) return errors;
+
+  if (!loaded.exact) {
+    errors.push({
+      file: patch.file,
+      severity: "info",
+      message:
+        `No vendored machine-config schema for Talos ${talosVersion}; ` +
+        `validated against ${loaded.version}`,
+    });
+  }
+
+  const locate = lineLocator(content);
+
+  for (const config of patch.configs) {
+    for (const issue of validateAgainstSchema(config, loaded.schema)) {
+      errors.push({
+        file: patch.file,
+        line: locate(issue.path),
+        // The vendored schema is a trimmed copy and Talos coerces some
+        // scalars, so only values outside an enum are certain to be rejected
+        severity: issue.kind === "enum" ? "error" : "warning",
+        message: issue.message,
+        fix: issue.fix,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * kubelet runs in a container: host paths it (and pods through it) use must be mounted in
+ */
+function checkKubeletMounts(patch: PatchInfo): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const config of patch.configs) {
+    const kubelet = asObj(asObj(config.machine).kubelet);
+    const mounts = Array.isArray(kubelet.extraMounts) ? kubelet.extraMounts.map(asObj) : [];
+
+    for (const mount of mounts) {
+      const { source, destination } = mount;
+      const options = Array.isArray(mount.options) ? mount.options.map(String) : [];
+
+      if (typeof source === "string" && typeof destination === "string" && source !== destination) {
+        errors.push({
+          file: patch.file,
+          severity: "warning",
+          message:
+            `kubelet extraMount ${source} -> ${destination}: ` +
+            "hostPath volumes resolve against the source, the kubelet sees the destination",
+          fix: "Use the same path for source and destination",
+        });
+      }
+
+      if (!options.includes("rshared")) {
+        errors.push({
+          file: patch.file,
+          severity: "warning",
+          message:
+            `kubelet extraMount ${destination ?? source ?? ""} without rshared: ` +
+            "mounts made by CSI drivers won't propagate",
+          fix: "Use options: [bind, rshared, rw]",
+        });
+      }
+    }
+
+    const rootDir = asObj(kubelet.extraArgs)["root-dir"];
+    if (typeof rootDir === "string" && trimSlash(rootDir) !== DEFAULT_KUBELET_ROOT_DIR) {
+      const mounted = mounts.some(
+        (m) => typeof m.destination === "string" && isUnder(rootDir, m.destination)
+      );
+      if (!mounted) {
+        errors.push({
+          file: patch.file,
+          severity: "error",
+          message: `kubelet root-dir ${rootDir} is not in machine.kubelet.extraMounts`,
+          fix:
+            `Add an extraMount with source and destination ${rootDir} ` +
+            "(options: [bind, rshared, rw]), and set kubeletRootDir in CSI chart values",
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Compare with the other patches of the cluster: interfaces defined twice for
+ * a node, addresses used by two nodes, VIP conflicts
+ */
+async function checkAgainstSiblings(patch: PatchInfo): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const patches = [patch, ...(await readSiblingPatches(patch.file))];
+  const { nodes } = patchesToNodes(patches);
+  const node = nodes.find((n) => n.patches.includes(patch.file));
+
+  // Same interface twice in this file
+  const seen = new Set<string>();
+  for (const name of patch.interfaces) {
+    if (seen.has(name)) {
+      errors.push({
+        file: patch.file,
+        severity: "error",
+        message: `Interface ${name} is defined more than once`,
+        fix: "Merge the definitions into one interfaces entry",
+      });
+    }
+    seen.add(name);
+  }
+
+  if (node) {
+    // Same interface in another patch of this node
+    for (const other of patches.filter((p) => p !== patch && node.patches.includes(p.file))) {
+      for (const name of [...seen].filter((i) => other.interfaces.includes(i))) {
+        errors.push({
+          file: patch.file,
+          severity: "warning",
+          message: `Interface ${name} of ${node.name} is also defined in ${basename(other.file)}`,
+          fix: "Keep each interface in one patch; merged lists are easy to get wrong",
+        });
+      }
+    }
+
+    // Address of this node used by another
+    for (const address of patch.addresses) {
+      const ip = address.split("/")[0];
+      const owner = nodes.find(
+        (n) => n !== node && n.addresses.some((a) => a.split("/")[0] === ip)
+      );
+      if (owner) {
+        errors.push({
+          file: patch.file,
+          severity: "error",
+          message: `Address ${ip} is also assigned to node ${owner.name}`,
+        });
+      }
+    }
+  }
+
+  errors.push(...checkVips(patch, node, nodes));
+  return errors;
+}
+
+function checkVips(patch: PatchInfo, node: Node | undefined, nodes: Node[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const vip of patch.vips) {
+    const owner = nodes.find((n) => n.addresses.some((a) => a.split("/")[0] === vip));
+    if (owner) {
+      errors.push({
+        file: patch.file,
+        severity: "error",
+        message: `VIP ${vip} is also a node address (${owner.name})`,
+        fix: "Use a free address in the control-plane subnet for the VIP",
+      });
+    }
+
+    if (node?.role === "worker") {
+      errors.push({
+        file: patch.file,
+        severity: "error",
+        message: `VIP ${vip} is set on worker ${node.name}; Talos VIPs only run on control-plane nodes`,
+      });
+    }
+
+    // Control-plane nodes must share one VIP
+    for (const other of nodes.filter((n) => n !== node && n.role === "control-plane")) {
+      if (other.vips.length > 0 && !other.vips.includes(vip)) {
+        errors.push({
+          file: patch.file,
+          severity: "error",
+          message: `Conflicting VIPs: ${vip} here, ${other.vips.join(", ")} on ${other.name}`,
+          fix: "Give every control-plane node the same VIP",
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+async function readSiblingPatches(filePath: string): Promise<PatchInfo[]> {
+  const dir = dirname(filePath);
+  const patches: PatchInfo[] = [];
+
+  try {
+    for (const entry of (await readdir(dir)).sort()) {
+      const file = join(dir, entry);
+      if (file === filePath || !isTalosPatchFile(file)) continue;
+
+      patches.push(parseTalosPatch(await readFile(file, "utf-8"), file));
+    }
+  } catch {
+    // Patch in a new directory
+  }
+
+  return patches;
+}
+
+/**
+ * Find the line of a config path in the patch's strategic-merge documents.
+ * JSON6902 paths have no direct source line.
+ */
+function lineLocator(content: string): (path: Array<string | number>) => number | undefined {
+  const lineCounter = new LineCounter();
+  const docs = parseAllDocuments(content, { lineCounter });
+  const lineOf = (node: unknown) =>
+    isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+
+  return (path) => {
+    const last = path[path.length - 1];
+
+    for (const doc of docs) {
+      // The key of the last segment points at the offending field
+      const parent = path.length > 1 ? doc.getIn(path.slice(0, -1), true) : doc.contents;
+      if (isMap(parent)) {
+        const pair = parent.items.find((p) => isScalar(p.key) && p.key.value === last);
+        if (pair) return lineOf(pair.key);
+      }
+
+      // Array items: the item itself
+      const line = lineOf(doc.getIn(path, true));
+      if (line !== undefined) return line;
+    }
+
+    return undefined;
+  };
+}
+
+function visitKeys(
+  value: unknown,
+  path: Array<string | number>,
+  visit: (path: Array<string | number>, value: unknown) => void
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => visitKeys(item, [...path, i], visit));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      visit([...path, key], child);
+      visitKeys(child, [...path, key], visit);
+    }
+  }
+}
+
+function isUnder(path: string, dir: string): boolean {
+  const p = trimSlash(path);
+  const d = trimSlash(dir);
+  return p === d || p.startsWith(`${d}/`);
+}
+
+function trimSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+function asObj(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
@@ -1,13 +1,67 @@
 import { z } from "zod";
 
-// Node definition
+// Node definition, from the cluster's Talos machine-config patches
 export const NodeSchema = z.object({
   name: z.string(),
   ip: z.string().ip(),
   role: z.enum(["control-plane", "worker"]),
+  hostname: z.string().optional(),
+  // Interface addresses in CIDR notation
+  addresses: z.array(z.string()),
+  vips: z.array(z.string()),
+  installDisk: z.string().optional(),
+  // kubelet --root-dir when changed from /var/lib/kubelet
+  kubeletRootDir: z.string().optional(),
+  labels: z.record(z.string()),
+  // Taint key -> "value:effect"
+  taints: z.record(z.string()),
+  // Patch files that configure this node
+  patches: z.array(z.string()),
+  // Omni machine ID, when a cluster template ties one of the patches to a machine
+  machine: z.string().optional(),
 });
 export type Node = z.infer<typeof NodeSchema>;
 
+// Patch in an Omni cluster template: a file (absolute path) or inline
+export const TemplatePatchSchema = z.object({
+  name: z.string().optional(),
+  file: z.string().optional(),
+});
+export type TemplatePatch = z.infer<typeof TemplatePatchSchema>;
+
+// ControlPlane or Workers document of a cluster template
+export const MachineSetSchema = z.object({
+  role: z.enum(["control-plane", "worker"]),
+  name: z.string(),
+  // Omni machine IDs
+  machines: z.array(z.string()),
+  patches: z.array(TemplatePatchSchema),
+  systemExtensions: z.array(z.string()),
+});
+export type MachineSet = z.infer<typeof MachineSetSchema>;
+
+// Machine document of a cluster template
+export const TemplateMachineSchema = z.object({
+  id: z.string(),
+  installDisk: z.string().optional(),
+  patches: z.array(TemplatePatchSchema),
+  systemExtensions: z.array(z.string()),
+});
+export type TemplateMachine = z.infer<typeof TemplateMachineSchema>;
+
+// Omni cluster template (omnictl cluster template sync)
+export const ClusterTemplateSchema = z.object({
+  file: z.string(),
+  name: z.string(),
+  talosVersion: z.string().optional(),
+  kubernetesVersion: z.string().optional(),
+  patches: z.array(TemplatePatchSchema),
+  systemExtensions: z.array(z.string()),
+  machineSets: z.array(MachineSetSchema),
+  machines: z.array(TemplateMachineSchema),
+});
+export type ClusterTemplate = z.infer<typeof ClusterTemplateSchema>;
+
 // Chart reference
 export const ChartRefSchema = z.object({
   repo: z.string().url(),
@@ -16,19 +70,75 @@ export const ChartRefSchema = z.object({
 });
 export type ChartRef = z.infer<typeof ChartRefSchema>;
 
+// Chart a kustomization inflates (helmCharts:)
+export const KustomizeHelmChartSchema = z.object({
+  name: z.string(),
+  repo: z.string().optional(),
+  version: z.string().optional(),
+  releaseName: z.string().optional(),
+  namespace: z.string().optional(),
+  valuesFile: z.string().optional(),
+  valuesInline: z.record(z.unknown()).nullable(),
+});
+export type KustomizeHelmChart = z.infer<typeof KustomizeHelmChartSchema>;
+
+// kustomization.yaml of a Kustomize app. Local paths are absolute, remote
+// resources are kept as written.
+export const KustomizationSchema = z.object({
+  path: z.string(),
+  resources: z.array(z.string()),
+  patches: z.array(z.string()),
+  // Generator and transformer configs (KSOPS, ...)
+  generators: z.array(z.string()),
+  helmCharts: z.array(KustomizeHelmChartSchema),
+});
+export type Kustomization = z.infer<typeof KustomizationSchema>;
+
+// Pod Security Standards level (namespace pod-security.kubernetes.io/enforce label)
+export const PsaLevelSchema = z.enum(["privileged", "baseline", "restricted"]);
+export type PsaLevel = z.infer<typeof PsaLevelSchema>;
+
 // App definition parsed from GitOps repo
 export const AppDefinitionSchema = z.object({
   name: z.string(),
   namespace: z.string(),
-  chart: ChartRefSchema,
+  // Cluster it deploys to (per-cluster app directory or Argo destination)
+  cluster: z.string(),
+  // null for Kustomize apps
+  chart: ChartRefSchema.nullable(),
+  kustomize: KustomizationSchema.optional(),
+  // Directory of the app's git source in this repo (local chart, kustomization)
+  sourcePath: z.string().optional(),
+  applicationPath: z.string(),
+  // The app's own values file: the last repo value file, else values.yaml by convention
   valuesPath: z.string(),
+  // Repo value files helm gets, in order (helm.valueFiles, else valuesPath)
+  valueFiles: z.array(z.string()),
+  // helm.values / helm.valuesObject, applied over the value files
+  inlineValues: z.record(z.unknown()).nullable(),
+  // ApplicationSet the app is generated from
+  applicationSet: z.string().optional(),
   hasTolerations: z.boolean(),
-  psaLevel: z.enum(["privileged", "baseline", "restricted"]).nullable(),
+  psaLevel: PsaLevelSchema.nullable(),
   ignoreDifferences: z.boolean(),
 });
 export type AppDefinition = z.infer<typeof AppDefinitionSchema>;
 
-// Full cluster context auto-detected from repo
+// One cluster managed from the repo
+export const ClusterSchema = z.object({
+  name: z.string(),
+  nodes: z.array(NodeSchema),
+  // Patches that configure no single node (cluster-wide, unparseable, ...)
+  unattributedPatches: z.array(z.object({ file: z.string(), reason: z.string() })),
+  domain: z.string().optional(),
+  apps: z.map(z.string(), AppDefinitionSchema),
+  template: ClusterTemplateSchema.optional(),
+});
+export type Cluster = z.infer<typeof ClusterSchema>;
+
+// Full cluster context auto-detected from repo.
+// name/nodes/domain/apps describe one cluster: omniconfig's by default, or
+// the one resolved for a file or command.
 export const ClusterContextSchema = z.object({
   name: z.string(),
   omniEndpoint: z.string().url().optional(),
@@ -36,6 +146,7 @@ export const ClusterContextSchema = z.object({
   domain: z.string().optional(),
   apps: z.map(z.string(), AppDefinitionSchema),
   repoRoot: z.string(),
+  clusters: z.map(z.string(), ClusterSchema),
 });
 export type ClusterContext = z.infer<typeof ClusterContextSchema>;
 
@@ -43,7 +154,7 @@ export type ClusterContext = z.infer<typeof ClusterContextSchema>;
 export const ValidationErrorSchema = z.object({
   file: z.string(),
   line: z.number().optional(),
-  severity: z.enum(["error", "warning"]),
+  severity: z.enum(["error", "warning", "info"]),
   message: z.string(),
   fix: z.string().optional(),
 });
@@ -56,19 +167,310 @@ export const ValidationResultSchema = z.object({
 });
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
 
-// Session state for tracking dry-runs
+// A dry-run that succeeded, and the app's content hash when it ran
+export const DryRunRecordSchema = z.object({
+  app: z.string(),
+  cluster: z.string(),
+  hash: z.string(),
+  command: z.string(),
+});
+export type DryRunRecord = z.infer<typeof DryRunRecordSchema>;
+
+// How a Bash command ended, as the post-tool hook saw it
+export const CommandOutcomeSchema = z.object({
+  // The command modulo whitespace and flag order
+  command: z.string(),
+  at: z.number(),
+  exitCode: z.number().int().nullable(),
+  failed: z.boolean(),
+  // Normalized error line (numbers, hashes, timestamps masked); null on success
+  signature: z.string().nullable(),
+  // The error line as printed
+  error: z.string().nullable(),
+});
+export type CommandOutcome = z.infer<typeof CommandOutcomeSchema>;
+
+// Session state for tracking dry-runs, per session and repo
 export const SessionStateSchema = z.object({
-  validatedApps: z.set(z.string()),
-  validatedFiles: z.set(z.string()),
-  pendingSync: z.string().nullable(),
-  loopDetection: z.map(z.string(), z.number()),
+  // Charts rendered with helm template
+  validatedApps: z.array(z.string()).default([]),
+  // Apps checked with argocd app diff
+  diffedApps: z.array(z.string()).default([]),
+  // talosctl/omnictl --dry-run keys (see dryRunKey)
+  configDryRuns: z.array(z.string()).default([]),
+  // helm template / argocd app diff / kustomize build runs that succeeded
+  dryRuns: z.array(DryRunRecordSchema).default([]),
+  // Recent outcomes per command family (see commandKeys), for loop detection
+  loopDetection: z.record(z.array(CommandOutcomeSchema)).default({}),
 });
 export type SessionState = z.infer<typeof SessionStateSchema>;
 
+// Command policy: ordered rules, first match wins
+export const PolicyActionSchema = z.enum(["allow", "ask", "deny"]);
+export type PolicyAction = z.infer<typeof PolicyActionSchema>;
+
+const StringOrListSchema = z.union([z.string(), z.array(z.string()).nonempty()]);
+
+export const PolicyMatchSchema = z
+  .object({
+    // Program name(s), "*" for any
+    program: StringOrListSchema,
+    // Subcommand path prefix(es), e.g. "app sync" or ["get", "describe"]
+    subcommand: StringOrListSchema.optional(),
+    // Flags that must all be present ("--dry-run" or "--namespace=kube-system")
+    flags: z.array(z.string()).optional(),
+    // Flags that must all be absent
+    withoutFlags: z.array(z.string()).optional(),
+    // Regex tested against the positional arguments joined by spaces
+    args: z
+      .string()
+      .refine((pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }, "Invalid regular expression")
+      .optional(),
+  })
+  .strict();
+export type PolicyMatch = z.infer<typeof PolicyMatchSchema>;
+
+export const PolicyRuleSchema = z
+  .object({
+    match: PolicyMatchSchema,
+    action: PolicyActionSchema,
+    reason: z.string().optional(),
+    // Action when TALOS_GITOPS_BOOTSTRAP=true (defaults to action)
+    bootstrap: PolicyActionSchema.optional(),
+  })
+  .strict();
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+
+export const PolicySchema = z
+  .object({
+    // Append the built-in rules after the repo's own
+    defaults: z.boolean().default(true),
+    rules: z.array(PolicyRuleSchema).default([]),
+  })
+  .strict();
+export type Policy = z.infer<typeof PolicySchema>;
+
+export const TalosConfigSchema = z
+  .object({
+    // Talos version the clusters run; picks the machine-config schema
+    version: z
+      .string()
+      .regex(/^v?\d+\.\d+(\.\d+)?$/, "Expected a Talos version like 1.10 or v1.10.3")
+      .default("1.10"),
+  })
+  .strict();
+export type TalosConfig = z.infer<typeof TalosConfigSchema>;
+
+// Longest wait in the sync watcher: hooks.json stops it at 60s, and every
+// push waits for it, so it needs the rest to diagnose failures and report
+const MAX_SYNC_TIMEOUT = 45;
+
+export const SyncConfigSchema = z
+  .object({
+    // Seconds the sync watcher waits for the pushed apps to sync
+    timeout: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_SYNC_TIMEOUT, `must be at most ${MAX_SYNC_TIMEOUT} (the sync watcher hook is stopped at 60)`)
+      .default(30),
+    // Longer waits for slow apps: app name -> seconds. The watcher still stops
+    // at timeout and suggests an argocd app wait of this long.
+    apps: z.record(z.number().int().positive()).default({}),
+  })
+  .strict();
+export type SyncConfig = z.infer<typeof SyncConfigSchema>;
+
+export const LoopConfigSchema = z
+  .object({
+    // Failures with the same error, of the same command up to flags, before it's blocked
+    failures: z.number().int().positive().default(2),
+    // Seconds a failure counts toward that
+    window: z.number().int().positive().default(1800),
+  })
+  .strict();
+export type LoopConfig = z.infer<typeof LoopConfigSchema>;
+
+// Repo-local configuration from .talos-gitops-ops
+export const RepoConfigSchema = z
+  .object({
+    policy: PolicySchema.default({}),
+    talos: TalosConfigSchema.default({}),
+    sync: SyncConfigSchema.default({}),
+    loop: LoopConfigSchema.default({}),
+  })
+  .strict();
+export type RepoConfig = z.infer<typeof RepoConfigSchema>;
+
+// ArgoCD API responses: the fields the hooks read, everything else stripped
+export const ArgoHealthSchema = z.object({
+  status: z.string().optional(),
+  message: z.string().optional(),
+});
+export type ArgoHealth = z.infer<typeof ArgoHealthSchema>;
+
+// A resource of an app's last sync operation (hooks included)
+export const ArgoSyncResourceSchema = z.object({
+  kind: z.string().optional(),
+  name: z.string().optional(),
+  namespace: z.string().optional(),
+  // Synced, SyncFailed, Pruned, ...
+  status: z.string().optional(),
+  message: z.string().optional(),
+  hookType: z.string().optional(),
+  hookPhase: z.string().optional(),
+});
+export type ArgoSyncResource = z.infer<typeof ArgoSyncResourceSchema>;
+
+const ArgoRevisionsSchema = {
+  revision: z.string().optional(),
+  revisions: z.array(z.string()).nullish(),
+};
+
+export const ArgoApplicationSchema = z.object({
+  metadata: z.object({ name: z.string().optional(), namespace: z.string().optional() }).optional(),
+  status: z
+    .object({
+      sync: z.object({ status: z.string().optional(), ...ArgoRevisionsSchema }).optional(),
+      health: ArgoHealthSchema.optional(),
+      operationState: z
+        .object({
+          phase: z.string().optional(),
+          message: z.string().optional(),
+          syncResult: z
+            .object({ ...ArgoRevisionsSchema, resources: z.array(ArgoSyncResourceSchema).nullish() })
+            .optional(),
+        })
+        .optional(),
+      // Managed resources (top level only)
+      resources: z
+        .array(
+          z.object({
+            kind: z.string().optional(),
+            name: z.string().optional(),
+            namespace: z.string().optional(),
+            health: ArgoHealthSchema.optional(),
+          })
+        )
+        .nullish(),
+      conditions: z
+        .array(z.object({ type: z.string().optional(), message: z.string().optional() }))
+        .nullish(),
+    })
+    .optional(),
+});
+export type ArgoApplication = z.infer<typeof ArgoApplicationSchema>;
+
+export const ArgoApplicationListSchema = z.object({
+  items: z.array(ArgoApplicationSchema).nullish(),
+});
+
+// A node of an app's resource tree: managed resources and what they own
+// (ReplicaSets, Pods, ...)
+export const ArgoResourceNodeSchema = z.object({
+  kind: z.string(),
+  name: z.string(),
+  namespace: z.string().optional(),
+  health: ArgoHealthSchema.optional(),
+  // Pod details: "Status Reason", "Containers", "Restart Count", ...
+  info: z.array(z.object({ name: z.string().optional(), value: z.string().optional() })).nullish(),
+  parentRefs: z
+    .array(
+      z.object({
+        kind: z.string().optional(),
+        name: z.string().optional(),
+        namespace: z.string().optional(),
+      })
+    )
+    .nullish(),
+});
+export type ArgoResourceNode = z.infer<typeof ArgoResourceNodeSchema>;
+
+export const ArgoResourceTreeSchema = z.object({
+  nodes: z.array(ArgoResourceNodeSchema).nullish(),
+});
+
+// A managed resource with its desired and live state (JSON strings, "null"
+// when absent); the normalized and predicted states are what argocd app diff compares
+export const ArgoManagedResourceSchema = z.object({
+  group: z.string().optional(),
+  kind: z.string(),
+  name: z.string(),
+  namespace: z.string().optional(),
+  targetState: z.string().optional(),
+  liveState: z.string().optional(),
+  normalizedLiveState: z.string().optional(),
+  predictedLiveState: z.string().optional(),
+  hook: z.boolean().optional(),
+  modified: z.boolean().optional(),
+});
+export type ArgoManagedResource = z.infer<typeof ArgoManagedResourceSchema>;
+
+export const ArgoManagedResourceListSchema = z.object({
+  items: z.array(ArgoManagedResourceSchema).nullish(),
+});
+
+export const ArgoEventSchema = z.object({
+  // Normal or Warning
+  type: z.string().optional(),
+  reason: z.string().optional(),
+  message: z.string().optional(),
+  count: z.number().optional(),
+  lastTimestamp: z.string().nullish(),
+  involvedObject: z
+    .object({
+      kind: z.string().optional(),
+      name: z.string().optional(),
+      namespace: z.string().optional(),
+    })
+    .optional(),
+});
+export type ArgoEvent = z.infer<typeof ArgoEventSchema>;
+
+export const ArgoEventListSchema = z.object({
+  items: z.array(ArgoEventSchema).nullish(),
+});
+
+// The argocd CLI's config (~/.config/argocd/config)
+export const ArgoCliConfigSchema = z.object({
+  "current-context": z.string().optional(),
+  contexts: z
+    .array(z.object({ name: z.string(), server: z.string(), user: z.string().optional() }))
+    .nullish(),
+  servers: z
+    .array(
+      z.object({
+        server: z.string(),
+        insecure: z.boolean().optional(),
+        "plain-text": z.boolean().optional(),
+        "grpc-web-root-path": z.string().optional(),
+        // --core: no API server, the CLI talks to Kubernetes
+        core: z.boolean().optional(),
+      })
+    )
+    .nullish(),
+  users: z
+    .array(z.object({ name: z.string(), "auth-token": z.string().optional() }))
+    .nullish(),
+});
+export type ArgoCliConfig = z.infer<typeof ArgoCliConfigSchema>;
+
 // Hook input from Claude Code
 export const HookInputSchema = z.object({
+  session_id: z.string().optional(),
   tool_name: z.string(),
   tool_input: z.record(z.unknown()),
+  // PostToolUse only: what the tool returned (Bash: stdout, stderr)
+  tool_response: z.record(z.unknown()).optional(),
+  // PostToolUseFailure only: why the tool failed (Bash: exit code and output)
+  error: z.string().optional(),
 });
 export type HookInput = z.infer<typeof HookInputSchema>;
 
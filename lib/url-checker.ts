@@ -1,3 +1,18 @@
+import { cachedFetch, describeAge, CACHE_TTL, type CacheInfo } from "./cache.js";
+import {
+  fetchHelmIndex,
+  indexUrl,
+  resolveVersion,
+  similarChartNames,
+  type VersionResolution,
+} from "./helm-index.js";
+import {
+  chartVersionToTag,
+  headOciManifest,
+  listOciTags,
+  parseOciUrl,
+  tagToChartVersion,
+} from "./oci-registry.js";
 import type { ValidationError } from "./types.js";
 
 const TIMEOUT_MS = 5_000;
@@ -7,12 +22,77 @@ interface UrlCheckResult {
   ok: boolean;
   status?: number;
   error?: string;
+  cache?: CacheInfo;
+  // Offline with nothing cached
+  skipped?: boolean;
 }
 
 /**
- * Check if a URL returns 200
+ * Check if a URL returns 200, through the on-disk cache
  */
 export async function checkUrl(url: string): Promise<UrlCheckResult> {
+  try {
+    const result = await cachedFetch<UrlCheckResult>("urls", url, CACHE_TTL.url, async () => {
+      const live = await headUrl(url);
+      // Network errors aren't cached, so a stale answer is used instead
+      if (live.status === undefined) throw new Error(live.error);
+      return { data: live, ttlMs: live.ok ? CACHE_TTL.url : CACHE_TTL.failure };
+    });
+
+    if (!result) {
+      return { url, ok: false, error: "offline, not cached", skipped: true };
+    }
+
+    return { ...result.data, cache: result.cache };
+  } catch (error) {
+    return {
+      url,
+      ok: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Label a result that was computed from cached data. Stale data never blocks:
+ * errors are downgraded to warnings and successes are reported as notes.
+ */
+export function labelCached(
+  error: ValidationError | null,
+  subject: string,
+  cache?: CacheInfo
+): ValidationError | null {
+  if (!cache?.stale) return error;
+
+  const note = `(stale cache from ${describeAge(cache.fetchedAt)})`;
+
+  if (!error) {
+    return { file: "", severity: "info", message: `${subject} verified ${note}` };
+  }
+
+  return {
+    ...error,
+    severity: error.severity === "error" ? "warning" : error.severity,
+    message: `${error.message} ${note}`,
+  };
+}
+
+/**
+ * Note for checks that couldn't run offline
+ */
+export function offlineSkipped(subject: string): ValidationError {
+  return {
+    file: "",
+    severity: "info",
+    message: `Offline: ${subject} not verified (nothing cached)`,
+    fix: "Run once online to populate the cache",
+  };
+}
+
+/**
+ * HEAD a URL without the cache
+ */
+async function headUrl(url: string): Promise<UrlCheckResult> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
 
@@ -48,14 +128,16 @@ export async function checkUrls(urls: string[]): Promise<UrlCheckResult[]> {
 }
 
 /**
- * Validate helm chart repository URL
+ * Validate helm chart repository URL. For OCI registries the chart name is
+ * needed to locate the repository; without it only the format is checked.
  */
-export async function validateChartRepo(repoUrl: string): Promise<ValidationError | null> {
+export async function validateChartRepo(
+  repoUrl: string,
+  chartName?: string
+): Promise<ValidationError | null> {
   // Handle OCI registries
   if (repoUrl.startsWith("oci://")) {
-    // OCI registries can't be easily checked with HEAD request
-    // Just validate format
-    const ociPattern = /^oci:\/\/[\w.-]+\/[\w./-]+$/;
+    const ociPattern = /^oci:\/\/[\w.:-]+\/[\w./-]+$/;
     if (!ociPattern.test(repoUrl)) {
       return {
         file: "",
@@ -64,26 +146,59 @@ export async function validateChartRepo(repoUrl: string): Promise<ValidationErro
         fix: "OCI URLs should be: oci://registry/path",
       };
     }
-    return null;
-  }
 
-  // Standard helm repos should have index.yaml
-  const indexUrl = repoUrl.endsWith("/")
-    ? `${repoUrl}index.yaml`
-    : `${repoUrl}/index.yaml`;
+    if (!chartName) return null;
 
-  const result = await checkUrl(indexUrl);
+    const ref = parseOciUrl(repoUrl, chartName);
+    if (!ref) return null;
+
+    const subject = `${repoUrl}/${chartName}`;
+    const result = await listOciTags(ref);
+    if (result.skipped) return offlineSkipped(subject);
+    if (result.ok) return labelCached(null, subject, result.cache);
+
+    // 404 / NAME_UNKNOWN means the chart was never pushed there
+    if (result.status === 404) {
+      return labelCached(
+        {
+          file: "",
+          severity: "error",
+          message: `OCI chart repository not found: ${subject}`,
+          fix: "Check the registry path and chart name",
+        },
+        subject,
+        result.cache
+      );
+    }
 
-  if (!result.ok) {
     return {
       file: "",
-      severity: "error",
-      message: `Helm repo unreachable: ${repoUrl} (${result.error || result.status})`,
-      fix: "Check the repo URL is correct and accessible",
+      severity: "warning",
+      message: `Could not list OCI chart tags: ${subject} (${result.error || result.status})`,
+      fix: result.status === 401 || result.status === 403
+        ? "Log in with: helm registry login " + ref.registry
+        : undefined,
     };
   }
 
-  return null;
+  // Standard helm repos should have index.yaml
+  const result = await checkUrl(indexUrl(repoUrl));
+  if (result.skipped) return offlineSkipped(repoUrl);
+
+  if (!result.ok) {
+    return labelCached(
+      {
+        file: "",
+        severity: "error",
+        message: `Helm repo unreachable: ${repoUrl} (${result.error || result.status})`,
+        fix: "Check the repo URL is correct and accessible",
+      },
+      repoUrl,
+      result.cache
+    );
+  }
+
+  return labelCached(null, repoUrl, result.cache);
 }
 
 /**
@@ -95,52 +210,55 @@ export async function validateChartVersion(
   version: string
 ): Promise<ValidationError | null> {
   // Skip version check for HEAD/latest
-  if (version === "HEAD" || version === "latest" || version === "*") {
+  if (version === "HEAD" || version === "latest") {
     return null;
   }
 
-  // For OCI registries, construct the manifest URL
   if (repoUrl.startsWith("oci://")) {
-    // OCI version check would need registry API - skip for now
-    return null;
+    return validateOciChartVersion(repoUrl, chartName, version);
   }
 
   // For standard repos, fetch and parse index.yaml
-  const indexUrl = repoUrl.endsWith("/")
-    ? `${repoUrl}index.yaml`
-    : `${repoUrl}/index.yaml`;
+  const subject = `${chartName}@${version}`;
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    const fetched = await fetchHelmIndex(repoUrl);
+    if (!fetched) return offlineSkipped(subject);
 
-    const response = await fetch(indexUrl, { signal: controller.signal });
-    clearTimeout(timeoutId);
+    const { data, cache } = fetched;
 
-    if (!response.ok) {
-      return {
-        file: "",
-        severity: "error",
-        message: `Cannot fetch chart index: ${repoUrl}`,
-      };
+    if (!data.ok) {
+      return labelCached(
+        {
+          file: "",
+          severity: "error",
+          message: `Cannot fetch chart index: ${repoUrl}`,
+        },
+        subject,
+        cache
+      );
     }
 
-    const text = await response.text();
+    const entries = data.index.get(chartName);
 
-    // Simple check: look for version string in index
-    // A proper implementation would parse the YAML
-    const versionPattern = new RegExp(`version:\\s*["']?${escapeRegex(version)}["']?`, "m");
-
-    if (!versionPattern.test(text)) {
-      return {
-        file: "",
-        severity: "error",
-        message: `Chart version not found: ${chartName}@${version}`,
-        fix: `Check available versions with: helm search repo ${chartName} --versions`,
-      };
+    if (!entries) {
+      const similar = similarChartNames(data.index, chartName);
+      return labelCached(
+        {
+          file: "",
+          severity: "error",
+          message: `Chart not found in repo: ${chartName} (${repoUrl})`,
+          fix: similar.length > 0
+            ? `Did you mean: ${similar.join(", ")}`
+            : `Check available charts with: helm search repo ${chartName}`,
+        },
+        subject,
+        cache
+      );
     }
 
-    return null;
+    const resolution = resolveVersion(entries.map((e) => e.version), version);
+    return labelCached(resolutionResult(chartName, version, resolution), subject, cache);
   } catch (error) {
     return {
       file: "",
@@ -150,6 +268,98 @@ export async function validateChartVersion(
   }
 }
 
+/**
+ * Validate chart version against an OCI registry's tags, then confirm the
+ * resolved tag's manifest is published
+ */
+async function validateOciChartVersion(
+  repoUrl: string,
+  chartName: string,
+  version: string
+): Promise<ValidationError | null> {
+  const ref = parseOciUrl(repoUrl, chartName);
+  if (!ref) return null;
+
+  const subject = `${chartName}@${version}`;
+  const tags = await listOciTags(ref);
+  if (tags.skipped) return offlineSkipped(subject);
+
+  if (!tags.ok) {
+    // A missing repository is already reported by validateChartRepo
+    if (tags.status === 404) return null;
+
+    return {
+      file: "",
+      severity: "warning",
+      message: `Could not verify chart version: ${tags.error || tags.status}`,
+    };
+  }
+
+  const resolution = resolveVersion(tags.tags.map(tagToChartVersion), version);
+  const result = labelCached(resolutionResult(chartName, version, resolution), subject, tags.cache);
+  if (!resolution.resolved) return result;
+
+  const manifest = await headOciManifest(ref, chartVersionToTag(resolution.resolved));
+
+  // Tags were good enough; the manifest just couldn't be checked offline
+  if (manifest.skipped) return result;
+
+  if (manifest.status === 404) {
+    return labelCached(
+      {
+        file: "",
+        severity: "error",
+        message: `Chart tag listed but manifest missing: ${chartName}@${resolution.resolved}`,
+        fix: "Re-push the chart with: helm push",
+      },
+      subject,
+      manifest.cache
+    );
+  }
+
+  if (!manifest.ok) {
+    return {
+      file: "",
+      severity: "warning",
+      message: `Could not verify chart manifest: ${chartName}@${resolution.resolved} (${manifest.error || manifest.status})`,
+    };
+  }
+
+  return result ?? labelCached(null, subject, manifest.cache);
+}
+
+/**
+ * Turn a targetRevision resolution into a validation result
+ */
+function resolutionResult(
+  chartName: string,
+  version: string,
+  { resolved, isRange, suggestions }: VersionResolution
+): ValidationError | null {
+  const didYouMean = suggestions.length > 0 ? `Did you mean: ${suggestions.join(", ")}` : undefined;
+
+  if (!resolved) {
+    return {
+      file: "",
+      severity: "error",
+      message: isRange
+        ? `No version of ${chartName} satisfies ${version}`
+        : `Chart version not found: ${chartName}@${version}`,
+      fix: didYouMean ?? `Check available versions with: helm search repo ${chartName} --versions`,
+    };
+  }
+
+  if (isRange) {
+    return {
+      file: "",
+      severity: "info",
+      message: `targetRevision ${version} resolves to ${chartName}@${resolved}`,
+    };
+  }
+
+  return null;
+}
+
 /**
  * Extract URLs from YAML content
  */
@@ -160,10 +370,3 @@ export function extractUrls(content: string): string[] {
   // Deduplicate and clean
   return [...new Set(matches.map((url) => url.replace(/[,;)}\]]+$/, "")))];
 }
-
-/**
- * Escape string for use in regex
- */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
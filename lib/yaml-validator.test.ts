@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { applyEdit, validateProposedContent, validateYamlContent } from "./yaml-validator.js";
+
+const VALUES = "/repo/apps/web/values.yaml";
+
+describe("validateProposedContent", () => {
+  const original = "resources:\n  limits:\n    cpu: 1000m\n";
+
+  test("leaves out problems the file already had, even when they move", async () => {
+    const proposed = `replicaCount: 2\n${original}`;
+    expect(await validateProposedContent(original, proposed, VALUES)).toEqual([]);
+  });
+
+  test("reports each added copy of an existing problem", async () => {
+    const proposed = `${original}  requests:\n    cpu: 1000m\n`;
+    const errors = await validateProposedContent(original, proposed, VALUES);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ line: 5, message: expect.stringContaining("1000m") });
+  });
+
+  test("reports everything for a new file", async () => {
+    expect(await validateProposedContent(null, original, VALUES)).toHaveLength(1);
+  });
+
+  test("reports values added to a plaintext Secret", async () => {
+    const secret = "/repo/apps/web/secret.yaml";
+    const plain = "apiVersion: v1\nkind: Secret\nmetadata:\n  name: s\nstringData:\n  password: a\n";
+
+    expect(await validateProposedContent(plain, `${plain}  token: abc\n`, secret)).toMatchObject([
+      { message: "Plaintext Secret s (stringData.password, stringData.token): commit Secrets SOPS-encrypted" },
+    ]);
+    const namespaced = plain.replace("name: s", "name: s\n  namespace: web");
+    expect(await validateProposedContent(plain, namespaced, secret)).toEqual([]);
+  });
+
+  test("reports the YAML error of a broken edit", async () => {
+    const errors = await validateProposedContent(original, "resources: [", VALUES);
+    expect(errors[0].message).toStartWith("Invalid YAML:");
+  });
+});
+
+describe("validateYamlContent", () => {
+  const MANIFESTS = "/repo/apps/web/manifests.yaml";
+
+  test("checks every document of a multi-document file", async () => {
+    const content =
+      "apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: db\n---\n" +
+      "apiVersion: postgresql.cnpg.io/v1\nkind: Cluster\nmetadata:\n  name: pg\n" +
+      "spec:\n  managed:\n    roles:\n      - name: app\n" +
+      "        passwordSecret:\n          name: app-password\n";
+    const errors = await validateYamlContent(content, MANIFESTS);
+
+    expect(errors.map((e) => [e.line, e.message])).toEqual([
+      [
+        15,
+        "Managed role app reads Secret app-password, but no ExternalSecret in its namespace produces it",
+      ],
+    ]);
+  });
+
+  test("reports syntax errors in later documents with their line", async () => {
+    const errors = await validateYamlContent("kind: ConfigMap\n---\nkind: [\n", MANIFESTS);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(4);
+    expect(errors[0].message).toStartWith("Invalid YAML:");
+  });
+});
+
+describe("applyEdit", () => {
+  test("replaces the first occurrence, or all of them", () => {
+    expect(applyEdit("a: 1\na: 1\n", "a: 1", "a: 2")).toBe("a: 2\na: 1\n");
+    expect(applyEdit("a: 1\na: 1\n", "a: 1", "a: 2", true)).toBe("a: 2\na: 2\n");
+  });
+
+  test("inserts replacement text literally", () => {
+    expect(applyEdit("a: x", "x", "$&$1")).toBe("a: $&$1");
+  });
+
+  test("returns null when old_string isn't in the file", () => {
+    expect(applyEdit("a: 1", "b: 1", "b: 2")).toBeNull();
+    expect(applyEdit("a: 1", "", "b: 2")).toBeNull();
+  });
+});
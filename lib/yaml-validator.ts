@@ -0,0 +1,400 @@
+import { stat } from "node:fs/promises";
+import { dirname, relative } from "node:path";
+import { parseAllDocuments, parse as parseYaml, type YAMLError } from "yaml";
+import {
+  validateChartRepo,
+  validateChartVersion,
+  checkUrl,
+  labelCached,
+} from "./url-checker.js";
+import { checkTolerations, checkCommonMistakes } from "./helm-validator.js";
+import { isConfigFile, loadRepoConfig, parseRepoConfig } from "./config.js";
+import { repoRemoteUrls, resolveHelmValues } from "./argo-application.js";
+import { allApps, findRepoRoot, isControlPlaneOnly } from "./cluster-context.js";
+import { isCnpgCluster, isExternalSecret, scanSecretIndex, validateEsoCnpg } from "./eso-cnpg.js";
+import { isKustomizationFile, validateKustomization } from "./kustomize.js";
+import { isClusterTemplate, validateClusterTemplate } from "./omni-template.js";
+import { isKsopsGenerator, validateKsopsGenerator, validateSecret } from "./sops.js";
+import {
+  checkKubeletRootDirValues,
+  isTalosPatchFile,
+  validateTalosPatch,
+} from "./talos-validator.js";
+import type { ClusterContext, ValidationError } from "./types.js";
+
+export interface ValidateOptions {
+  // Rendered manifests are checked separately (analyzeRenderedApp), so skip
+  // the values-file heuristics for tolerations and hostNetwork
+  rendered?: boolean;
+  // Cluster the file deploys to (resolveClusterForFile)
+  cluster?: ClusterContext | null;
+}
+
+/**
+ * Validate a YAML file's content the same way the Edit/Write hook does
+ */
+export async function validateYamlContent(
+  content: string,
+  filePath: string,
+  options: ValidateOptions = {}
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  // Repo config: schema-validated as a whole
+  if (isConfigFile(filePath)) {
+    return parseRepoConfig(content, filePath).errors;
+  }
+
+  // Talos machine-config patch: may hold several documents
+  if (isTalosPatchFile(filePath)) {
+    const version = await talosVersion(filePath, options);
+    return validateTalosPatch(content, filePath, version);
+  }
+
+  // Omni cluster template: several documents, patch files relative to it
+  if (isClusterTemplate(content)) {
+    return validateClusterTemplate(content, filePath);
+  }
+
+  // 1. Lint YAML syntax; a file may hold several documents
+  const documents = parseAllDocuments(content);
+  const syntaxError = documents.flatMap((d) => d.errors)[0];
+  if (syntaxError) {
+    // Can't continue if YAML is invalid
+    return [
+      {
+        file: filePath,
+        line: syntaxError.linePos?.[0].line,
+        severity: "error",
+        message: `Invalid YAML: ${syntaxReason(syntaxError)}`,
+      },
+    ];
+  }
+  const docs: unknown[] = documents.map((d) => d.toJS());
+
+  // 2. Validate application.yaml
+  if (filePath.includes("application")) {
+    errors.push(...(await validateApplicationYaml(content, filePath)));
+  }
+
+  // 3. Validate kustomization.yaml
+  if (isKustomizationFile(filePath)) {
+    errors.push(...(await validateKustomization(content, filePath)));
+  }
+
+  // 4. Secrets must be SOPS-encrypted and decrypted by a KSOPS generator
+  if (docs.some((doc) => kindOf(doc) === "Secret")) {
+    const repoRoot = options.cluster?.repoRoot ?? (await findRepoRoot(dirname(filePath)));
+    errors.push(...(await validateSecret(content, filePath, repoRoot)));
+  }
+  if (docs.some(isKsopsGenerator)) {
+    errors.push(...(await validateKsopsGenerator(content, filePath)));
+  }
+
+  // 5. ExternalSecret and CNPG Cluster: checked against the Secrets the repo produces
+  if (docs.some((doc) => isExternalSecret(doc) || isCnpgCluster(doc))) {
+    const cluster = options.cluster ?? null;
+    const repoRoot = cluster?.repoRoot ?? (await findRepoRoot(dirname(filePath)));
+    const index = repoRoot
+      ? await scanSecretIndex(repoRoot, cluster)
+      : { sources: [], roles: [] };
+    errors.push(...validateEsoCnpg(content, filePath, index, cluster));
+  }
+
+  // 6. Validate values.yaml (and value files apps reference by other names);
+  // Helm values are a single document
+  const valuesFile = filePath.includes("values") || isAppValueFile(filePath, options.cluster);
+  if (valuesFile && docs.length <= 1) {
+    errors.push(...(await validateValuesYaml(content, filePath, options)));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the file as it would be after an edit, reporting only problems
+ * the edit introduced (problems already in the original are left out)
+ */
+export async function validateProposedContent(
+  original: string | null,
+  proposed: string,
+  filePath: string,
+  options: ValidateOptions = {}
+): Promise<ValidationError[]> {
+  const errors = await validateYamlContent(proposed, filePath, options);
+  if (original === null || errors.length === 0) return errors;
+
+  const existing = new Map<string, number>();
+  for (const error of await validateYamlContent(original, filePath, options)) {
+    const key = diagnosticKey(error);
+    existing.set(key, (existing.get(key) || 0) + 1);
+  }
+
+  // Match by content, not line: edits above a problem shift its line
+  return errors.filter((error) => {
+    const key = diagnosticKey(error);
+    const count = existing.get(key) || 0;
+    if (count === 0) return true;
+    existing.set(key, count - 1);
+    return false;
+  });
+}
+
+/**
+ * Apply an Edit tool change in memory; null if old_string isn't in the file
+ */
+export function applyEdit(
+  original: string,
+  oldString: string,
+  newString: string,
+  replaceAll = false
+): string | null {
+  if (oldString === "") return null;
+  if (!original.includes(oldString)) return null;
+
+  return replaceAll
+    ? original.split(oldString).join(newString)
+    : original.replace(oldString, () => newString);
+}
+
+/**
+ * Talos version from the cluster's template, else the repo config
+ */
+async function talosVersion(filePath: string, options: ValidateOptions): Promise<string> {
+  const repoRoot = options.cluster?.repoRoot ?? (await findRepoRoot(dirname(filePath)));
+  const { config } = repoRoot
+    ? await loadRepoConfig(repoRoot)
+    : parseRepoConfig("", filePath);
+
+  // The cluster template pins the version Omni installs
+  const template = options.cluster?.clusters.get(options.cluster.name)?.template;
+  return template?.talosVersion ?? config.talos.version;
+}
+
+// Parser message without its position and source excerpt
+function syntaxReason(error: YAMLError): string {
+  return error.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, "");
+}
+
+function kindOf(doc: unknown): unknown {
+  return doc && typeof doc === "object" ? (doc as Record<string, unknown>).kind : undefined;
+}
+
+function diagnosticKey(error: ValidationError): string {
+  return [error.file, error.severity, error.message, error.fix ?? ""].join("\u0000");
+}
+
+function isAppValueFile(filePath: string, cluster: ClusterContext | null | undefined): boolean {
+  return !!cluster && allApps(cluster).some((app) => app.valueFiles.includes(filePath));
+}
+
+// Chart a value file is for: its app's, or that of the kustomize helmChart using it
+function chartForValueFile(filePath: string, cluster: ClusterContext): string | null {
+  for (const app of allApps(cluster)) {
+    if (app.chart && app.valueFiles.includes(filePath)) return app.chart.name;
+    const inflated = app.kustomize?.helmCharts.find((c) => c.valuesFile === filePath);
+    if (inflated) return inflated.name;
+  }
+  return null;
+}
+
+/**
+ * Validate an ArgoCD Application (or ApplicationSet template): chart repo,
+ * chart version, git repo, value files, ignoreDifferences
+ */
+export async function validateApplicationYaml(
+  content: string,
+  filePath: string
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  try {
+    for (const document of parseAllDocuments(content)) {
+      const doc = document.toJS();
+      if (doc?.kind !== "Application" && doc?.kind !== "ApplicationSet") continue;
+
+      const spec = doc.kind === "ApplicationSet" ? doc.spec?.template?.spec : doc.spec;
+      const sources = spec?.sources || (spec?.source ? [spec.source] : []);
+
+      for (const source of sources) {
+        // Generator parameters are only known once the set is expanded
+        if ([source.repoURL, source.chart, source.targetRevision].some(isTemplated)) continue;
+
+        // Validate chart repo URL
+        if (source.repoURL && !source.repoURL.startsWith("git@")) {
+          const repoError = await validateChartRepo(source.repoURL, source.chart);
+          if (repoError) {
+            repoError.file = filePath;
+            errors.push(repoError);
+          }
+
+          // Validate chart version
+          if (source.chart && source.targetRevision) {
+            const versionError = await validateChartVersion(
+              source.repoURL,
+              source.chart,
+              String(source.targetRevision)
+            );
+            if (versionError) {
+              versionError.file = filePath;
+              errors.push(versionError);
+            }
+          }
+        }
+
+        // Validate git repo URL is reachable (for git repos)
+        if (source.repoURL?.startsWith("https://")) {
+          const result = await checkUrl(source.repoURL);
+          if (!result.ok && !result.skipped) {
+            const unreachable = labelCached(
+              {
+                file: filePath,
+                severity: "error",
+                message: `Git repo unreachable: ${source.repoURL}`,
+              },
+              source.repoURL,
+              result.cache
+            );
+            if (unreachable) errors.push(unreachable);
+          }
+        }
+      }
+
+      errors.push(...(await checkValueFiles(sources, filePath)));
+
+      // Check for ignoreDifferences on known problematic charts
+      const chartNames = sources
+        .filter((s: Record<string, unknown>) => s.chart)
+        .map((s: Record<string, unknown>) => s.chart as string);
+
+      const needsIgnoreDifferences = ["harbor", "argocd"];
+      for (const chart of chartNames) {
+        if (needsIgnoreDifferences.some((c) => chart.includes(c))) {
+          if (!spec?.ignoreDifferences?.length) {
+            errors.push({
+              file: filePath,
+              severity: "warning",
+              message: `${chart} chart typically needs ignoreDifferences for auto-generated secrets`,
+              fix: "Add ignoreDifferences for secrets that change on each helm render",
+            });
+          }
+        }
+      }
+    }
+  } catch (error) {
+    errors.push({
+      file: filePath,
+      severity: "error",
+      message: `Failed to parse Application: ${error instanceof Error ? error.message : "Unknown"}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * helm.valueFiles: a $ref/ prefix needs a source with that ref, and the file
+ * has to exist in the repo
+ */
+async function checkValueFiles(
+  sources: Record<string, unknown>[],
+  filePath: string
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const repoRoot = await findRepoRoot(dirname(filePath));
+  if (!repoRoot) return errors;
+  const repoUrls = await repoRemoteUrls(repoRoot);
+
+  for (const source of sources) {
+    const values = resolveHelmValues(sources, source, repoRoot, repoUrls);
+
+    for (const valueFile of values.unresolved) {
+      const ref = valueFile.match(/^\$([^/]+)\//);
+      // Files of a ref source in another repo can't be checked from here
+      if (!ref || isTemplated(valueFile) || sources.some((s) => s.ref === ref[1])) continue;
+
+      errors.push({
+        file: filePath,
+        severity: "error",
+        message: `Value file ${valueFile} references no source with ref: ${ref[1]}`,
+        fix: `Add a source with ref: ${ref[1]} pointing at the repo holding the file`,
+      });
+    }
+
+    const helm = source.helm as { ignoreMissingValueFiles?: boolean } | undefined;
+    if (helm?.ignoreMissingValueFiles) continue;
+
+    for (const file of values.files) {
+      if (isTemplated(file)) continue;
+      try {
+        await stat(file);
+      } catch {
+        errors.push({
+          file: filePath,
+          severity: "warning",
+          message: `Value file ${relative(repoRoot, file)} not found in this repo`,
+          fix: "Fix the path, or set ignoreMissingValueFiles if it's optional",
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+function isTemplated(value: unknown): boolean {
+  return typeof value === "string" && value.includes("{{");
+}
+
+/**
+ * Validate a values.yaml: tolerations, common mistakes, hostNetwork
+ */
+export async function validateValuesYaml(
+  content: string,
+  filePath: string,
+  options: ValidateOptions = {}
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  // Check for common mistakes
+  const chart = options.cluster ? chartForValueFile(filePath, options.cluster) : null;
+  const mistakeErrors = await checkCommonMistakes(filePath, content, chart);
+  errors.push(...mistakeErrors);
+
+  // CSI charts must use the cluster's kubelet root dir
+  if (options.cluster) {
+    errors.push(...checkKubeletRootDirValues(parseYaml(content), filePath, options.cluster));
+  }
+
+  if (options.rendered) {
+    return errors;
+  }
+
+  // Check for tolerations (not needed when the cluster has workers)
+  if (!options.cluster || isControlPlaneOnly(options.cluster)) {
+    const tolerationErrors = await checkTolerations(filePath, content);
+    errors.push(...tolerationErrors);
+  }
+
+  // Check if content has hostNetwork but no privileged PSA
+  if (content.includes("hostNetwork: true")) {
+    errors.push({
+      file: filePath,
+      severity: "warning",
+      message: "hostNetwork requires privileged PSA namespace",
+      fix: "Ensure namespace has pod-security.kubernetes.io/enforce: privileged",
+    });
+  }
+
+  // Check for Recreate strategy with hostNetwork
+  if (content.includes("hostNetwork: true") && !content.includes("Recreate")) {
+    errors.push({
+      file: filePath,
+      severity: "warning",
+      message: "hostNetwork deployments should use Recreate strategy",
+      fix: "Add deploymentStrategy.type: Recreate",
+    });
+  }
+
+  return errors;
+}